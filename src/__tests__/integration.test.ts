@@ -18,9 +18,13 @@ global.fetch = mockFetch;
 
 // Mock Maven SDK
 const mockCreateKnowledgeDocument = vi.fn();
+const mockCreateKnowledgeBaseVersion = vi.fn();
+const mockFinalizeKnowledgeBaseVersion = vi.fn();
 const mockMavenClient = {
   knowledge: {
     createKnowledgeDocument: mockCreateKnowledgeDocument,
+    createKnowledgeBaseVersion: mockCreateKnowledgeBaseVersion,
+    finalizeKnowledgeBaseVersion: mockFinalizeKnowledgeBaseVersion,
   },
 };
 
@@ -28,6 +32,9 @@ describe("Integration: Full Sync Flow", () => {
   beforeEach(() => {
     mockFetch.mockReset();
     mockCreateKnowledgeDocument.mockReset();
+    mockCreateKnowledgeBaseVersion.mockReset();
+    mockCreateKnowledgeBaseVersion.mockResolvedValue({ versionId: { referenceId: "v1" } });
+    mockFinalizeKnowledgeBaseVersion.mockReset();
     vi.spyOn(console, "log").mockImplementation(() => {});
     vi.spyOn(console, "warn").mockImplementation(() => {});
     vi.spyOn(console, "error").mockImplementation(() => {});
@@ -73,18 +80,34 @@ describe("Integration: Full Sync Flow", () => {
    * Setup mock fetch responses for Docsie API
    */
   function setupDocsieMocks(articles: DocsieArticle[]) {
+    const ok = (body: unknown) =>
+      new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } });
+
     mockFetch.mockImplementation(async (url: string) => {
       const urlStr = url.toString();
 
       // Workspaces endpoint
       if (urlStr.includes("/workspaces/")) {
-        return {
-          ok: true,
-          json: async () => paginated(
+        return ok(
+          paginated(
             [{ id: "workspace_abc", name: "HubSync", slug: "hubsync", shelves_count: 10, created: "2024-01-01T00:00:00Z", modified: "2024-01-01T00:00:00Z", deleted: false, owner: 1, members: [], administrators: [], editors: [], viewers: [], public: true, config: {}, domain_name: null, domain_verified: false, allowed_hosts: [], custom_links: {} }],
             1, 0, 100
-          ),
-        };
+          )
+        );
+      }
+
+      // Books and their versions (one book with a primary version)
+      if (urlStr.includes("/books/")) {
+        return ok(paginated([{ id: "boo_help", name: "Help Center", slug: "help" }], 1, 0, 100));
+      }
+
+      if (urlStr.includes("/versions/")) {
+        return ok(
+          paginated(
+            [{ id: "ver_1", name: "v1", number: "1.0", active: true, primary: true, deleted: false }],
+            1, 0, 100
+          )
+        );
       }
 
       // Articles endpoint (paginated)
@@ -95,17 +118,10 @@ describe("Integration: Full Sync Flow", () => {
         const limit = limitMatch ? parseInt(limitMatch[1]) : 100;
         const pageArticles = articles.slice(offset, offset + limit);
 
-        return {
-          ok: true,
-          json: async () => paginated(pageArticles, articles.length, offset, limit),
-        };
+        return ok(paginated(pageArticles, articles.length, offset, limit));
       }
 
-      return {
-        ok: false,
-        status: 404,
-        statusText: "Not Found",
-      };
+      return new Response(null, { status: 404, statusText: "Not Found" });
     });
   }
 
@@ -133,6 +149,11 @@ describe("Integration: Full Sync Flow", () => {
     expect(result.uploaded).toBe(109);
     expect(result.failed).toBe(0);
     expect(result.errors).toHaveLength(0);
+    expect(mockCreateKnowledgeBaseVersion).toHaveBeenCalledWith("docsie-kb", { type: "PARTIAL" });
+    expect(mockFinalizeKnowledgeBaseVersion).toHaveBeenCalledWith("docsie-kb", {
+      versionId: { referenceId: "v1" },
+      status: "SUCCEEDED",
+    });
     expect(mockCreateKnowledgeDocument).toHaveBeenCalledTimes(109);
   });
 
@@ -203,6 +224,12 @@ describe("Integration: Full Sync Flow", () => {
     expect(result.failed).toBe(1);
     expect(result.errors).toHaveLength(1);
     expect(result.errors[0].docId).toBe("art_5");
+    expect(result.versionDiscarded).toBe(true);
+    expect(mockFinalizeKnowledgeBaseVersion).toHaveBeenCalledWith("docsie-kb", {
+      versionId: { referenceId: "v1" },
+      status: "FAILED",
+      errorMessage: "1 document write(s) failed",
+    });
   });
 
   it("should handle pagination correctly for large article sets", async () => {
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createApp } from "./handlers.js";
+import { appConfig } from "./settings.js";
+import { SyncStateStore } from "../sync/state.js";
+import { AuthError } from "../utils/errors.js";
+import { createLogger } from "../utils/logger.js";
+
+vi.mock("../cli/run.js", () => ({
+  runSync: vi.fn(),
+}));
+
+import { runSync } from "../cli/run.js";
+
+const logger = createLogger({ level: "silent" });
+
+describe("Maven App handlers", () => {
+  let dir: string;
+
+  const context = {
+    organizationId: "org-1",
+    agentId: "agent-1",
+    settings: { docsieApiKey: "docsie-key", knowledgeBaseName: "Help Center" },
+  };
+
+  // Stubbed MavenAGIClient
+  const mockCreateOrUpdateKnowledgeBase = vi.fn();
+  const mockRefreshKnowledgeBase = vi.fn();
+  const mockDeleteKnowledgeDocument = vi.fn();
+  const mockCreateKnowledgeBaseVersion = vi.fn();
+  const mockFinalizeKnowledgeBaseVersion = vi.fn();
+  const mavenClient = {
+    knowledge: {
+      createOrUpdateKnowledgeBase: mockCreateOrUpdateKnowledgeBase,
+      refreshKnowledgeBase: mockRefreshKnowledgeBase,
+      deleteKnowledgeDocument: mockDeleteKnowledgeDocument,
+      createKnowledgeBaseVersion: mockCreateKnowledgeBaseVersion,
+      finalizeKnowledgeBaseVersion: mockFinalizeKnowledgeBaseVersion,
+    },
+  };
+  const mockGetWorkspaces = vi.fn();
+
+  const createTestApp = () =>
+    createApp({
+      createMavenClient: () => mavenClient as any,
+      createDocsieClient: () => ({ getWorkspaces: mockGetWorkspaces }) as any,
+      stateDir: dir,
+      logger,
+    });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    dir = await mkdtemp(join(tmpdir(), "docsie-app-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("preInstall", () => {
+    it("should check the Docsie API key", async () => {
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1" }]);
+
+      await expect(createTestApp().preInstall(context)).resolves.toBeUndefined();
+      expect(mockGetWorkspaces).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject invalid keys and missing settings", async () => {
+      mockGetWorkspaces.mockRejectedValue(new AuthError("Docsie API error: 401 Unauthorized"));
+      const app = createTestApp();
+
+      await expect(app.preInstall(context)).rejects.toBeInstanceOf(AuthError);
+      await expect(app.preInstall({ ...context, settings: {} })).rejects.toThrow(
+        "Missing required app setting: docsieApiKey"
+      );
+    });
+  });
+
+  describe("postInstall", () => {
+    it("should create the knowledge base and request a refresh", async () => {
+      mockCreateOrUpdateKnowledgeBase.mockResolvedValue({});
+      mockRefreshKnowledgeBase.mockResolvedValue(undefined);
+
+      await createTestApp().postInstall(context);
+
+      expect(mockCreateOrUpdateKnowledgeBase).toHaveBeenCalledWith({
+        knowledgeBaseId: { referenceId: "docsie-kb" },
+        name: "Help Center",
+      });
+      expect(mockRefreshKnowledgeBase).toHaveBeenCalledWith("docsie-kb", {});
+    });
+
+    it("should map Maven errors", async () => {
+      mockCreateOrUpdateKnowledgeBase.mockRejectedValue(
+        Object.assign(new Error("Forbidden"), { statusCode: 403 })
+      );
+
+      await expect(createTestApp().postInstall(context)).rejects.toBeInstanceOf(AuthError);
+      expect(mockRefreshKnowledgeBase).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("knowledgeBaseRefreshed", () => {
+    it("should sync the install's knowledge base with the app's Maven client", async () => {
+      vi.mocked(runSync).mockResolvedValue({ success: true, exitCode: 0 });
+
+      const result = await createTestApp().knowledgeBaseRefreshed({
+        ...context,
+        knowledgeBaseId: "docsie-kb",
+      });
+
+      expect(result).toEqual({ success: true, exitCode: 0 });
+      const [config, knowledgeBaseId, options] = vi.mocked(runSync).mock.calls[0];
+      expect(config.docsie.apiKey).toBe("docsie-key");
+      expect(config.sync.stateFile).toBe(appConfig(context, dir).sync.stateFile);
+      expect(knowledgeBaseId).toBe("docsie-kb");
+      expect(options).toMatchObject({ resume: true, mavenClient });
+    });
+
+    it("should ignore other knowledge bases", async () => {
+      const result = await createTestApp().knowledgeBaseRefreshed({
+        ...context,
+        knowledgeBaseId: "other-kb",
+      });
+
+      expect(result).toBeUndefined();
+      expect(runSync).not.toHaveBeenCalled();
+    });
+
+    it("should fail when the sync fails", async () => {
+      vi.mocked(runSync).mockResolvedValue({ success: false, exitCode: 1, error: "boom" });
+
+      await expect(
+        createTestApp().knowledgeBaseRefreshed({ ...context, knowledgeBaseId: "docsie-kb" })
+      ).rejects.toThrow("Sync failed: boom");
+    });
+  });
+
+  describe("uninstall", () => {
+    it("should delete the synced documents and the sync state", async () => {
+      const { stateFile } = appConfig(context, dir).sync;
+      const state = new SyncStateStore(stateFile);
+      const entry = { revision: 1, contentHash: "abc", syncedAt: "2024-01-01T00:00:00.000Z" };
+      state.set("art_1", entry);
+      state.set("art_2", { ...entry, referenceIds: ["art_2", "art_2#setup"] });
+      await state.save();
+      mockCreateKnowledgeBaseVersion.mockResolvedValue({ versionId: { referenceId: "v1" } });
+      mockDeleteKnowledgeDocument.mockResolvedValue(undefined);
+      mockFinalizeKnowledgeBaseVersion.mockResolvedValue({});
+
+      await createTestApp().uninstall(context);
+
+      const deleted = mockDeleteKnowledgeDocument.mock.calls.map((call) => call[1]);
+      expect(deleted.sort()).toEqual(["art_1", "art_2", "art_2#setup"]);
+      expect(mockFinalizeKnowledgeBaseVersion).toHaveBeenCalledTimes(1);
+      await state.load();
+      expect(state.size).toBe(0);
+    });
+
+    it("should keep the documents that failed to delete and fail", async () => {
+      const { stateFile } = appConfig(context, dir).sync;
+      const state = new SyncStateStore(stateFile);
+      const entry = { revision: 1, contentHash: "abc", syncedAt: "2024-01-01T00:00:00.000Z" };
+      state.set("art_1", entry);
+      state.set("art_2", { ...entry, referenceIds: ["art_2", "art_2#setup"] });
+      await state.save();
+      mockCreateKnowledgeBaseVersion.mockResolvedValue({ versionId: { referenceId: "v1" } });
+      mockDeleteKnowledgeDocument.mockImplementation(async (_kb: string, id: string) => {
+        if (id === "art_2#setup") {
+          throw Object.assign(new Error(`Bad ${id}`), { statusCode: 400 });
+        }
+      });
+      mockFinalizeKnowledgeBaseVersion.mockResolvedValue({});
+
+      await expect(createTestApp().uninstall(context)).rejects.toThrow(
+        "Failed to delete 1 of 3 synced documents"
+      );
+
+      await state.load();
+      expect(state.ids()).toEqual(["art_2"]);
+      expect(state.get("art_2")?.referenceIds).toEqual(["art_2#setup"]);
+    });
+
+    it("should do nothing when nothing was synced", async () => {
+      await createTestApp().uninstall(context);
+
+      expect(mockDeleteKnowledgeDocument).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Maven App Lifecycle
+ *
+ * Handlers for running the connector as a Maven App instead of a
+ * standalone script:
+ *
+ *   preInstall              Check the settings and the Docsie API key
+ *   postInstall             Create the knowledge base and ask Maven to refresh it
+ *   knowledgeBaseRefreshed  Sync the knowledge base when Maven refreshes it
+ *   uninstall               Delete the synced documents and the install's sync state
+ *
+ * Every handler receives the install's organization, agent and settings
+ * (see settings.ts). Maven clients authenticate as the app unless
+ * `createMavenClient` is given, e.g. a stub for local testing.
+ */
+
+import { MavenAGIClient } from "mavenagi";
+import { DocsieClient } from "../docsie/client.js";
+import { CheckpointStore } from "../maven/checkpoint.js";
+import { toMavenError } from "../maven/errors.js";
+import { ensureKnowledgeBase } from "../maven/knowledge.js";
+import { MavenUploader } from "../maven/uploader.js";
+import { SyncStateStore, referenceIdsOf } from "../sync/state.js";
+import { ConnectorError } from "../utils/errors.js";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import { runSync, type RunResult } from "../cli/run.js";
+import type { Config } from "../cli/env.js";
+import { appConfig, type AppContext } from "./settings.js";
+
+export interface AppOptions {
+  /** Maven client of an install (default: one authenticated as the app) */
+  createMavenClient?: (context: AppContext) => MavenAGIClient;
+  /** Docsie client of an install (default: a DocsieClient for its settings) */
+  createDocsieClient?: (config: Config) => DocsieClient;
+  /** Directory of the installs' sync state and checkpoint files (default: the working directory) */
+  stateDir?: string;
+  logger?: Logger;
+}
+
+export interface KnowledgeBaseRefreshContext extends AppContext {
+  knowledgeBaseId: string;
+}
+
+export interface MavenApp {
+  /** @throws ConnectorError if the settings or the Docsie API key are invalid */
+  preInstall(context: AppContext): Promise<void>;
+  /** @throws ConnectorError if the knowledge base cannot be created */
+  postInstall(context: AppContext): Promise<void>;
+  /**
+   * Sync the install's knowledge base (other knowledge bases are ignored)
+   *
+   * @throws ConnectorError if the sync fails
+   */
+  knowledgeBaseRefreshed(context: KnowledgeBaseRefreshContext): Promise<RunResult | undefined>;
+  uninstall(context: AppContext): Promise<void>;
+}
+
+export function createApp(options: AppOptions = {}): MavenApp {
+  const baseLogger = options.logger ?? defaultLogger;
+  const createMavenClient =
+    options.createMavenClient ??
+    ((context: AppContext) =>
+      new MavenAGIClient({ organizationId: context.organizationId, agentId: context.agentId }));
+  const createDocsieClient =
+    options.createDocsieClient ??
+    ((config: Config) =>
+      new DocsieClient({
+        apiKey: config.docsie.apiKey,
+        baseUrl: config.docsie.baseUrl,
+        logger: baseLogger,
+      }));
+
+  const loggerFor = (context: AppContext) =>
+    baseLogger.child({ organizationId: context.organizationId, agentId: context.agentId });
+
+  return {
+    preInstall: async (context) => {
+      const config = appConfig(context, options.stateDir);
+      const workspaces = await createDocsieClient(config).getWorkspaces();
+      loggerFor(context).info(`Docsie API key OK (${workspaces.length} workspace(s))`, {
+        workspaces: workspaces.length,
+      });
+    },
+
+    postInstall: async (context) => {
+      const config = appConfig(context, options.stateDir);
+      const logger = loggerFor(context);
+      const knowledgeBaseId = config.maven.knowledgeBaseId;
+      const client = createMavenClient(context);
+
+      await ensureKnowledgeBase(client, knowledgeBaseId, config.maven.knowledgeBaseName, logger);
+      try {
+        await client.knowledge.refreshKnowledgeBase(knowledgeBaseId, {});
+      } catch (error) {
+        throw toMavenError(error, "refreshKnowledgeBase");
+      }
+      logger.info(`Requested the first sync of knowledge base ${knowledgeBaseId}`, {
+        knowledgeBaseId,
+      });
+    },
+
+    knowledgeBaseRefreshed: async (context) => {
+      const config = appConfig(context, options.stateDir);
+      const logger = loggerFor(context);
+      if (context.knowledgeBaseId !== config.maven.knowledgeBaseId) {
+        logger.warn(`Ignoring refresh of unknown knowledge base ${context.knowledgeBaseId}`, {
+          knowledgeBaseId: context.knowledgeBaseId,
+        });
+        return undefined;
+      }
+
+      // Resume, so a refresh cut off by a restart continues where it stopped
+      const result = await runSync(config, config.maven.knowledgeBaseId, {
+        resume: true,
+        logger,
+        mavenClient: createMavenClient(context),
+      });
+      if (!result.success) {
+        throw new ConnectorError(`Sync failed: ${result.error}`);
+      }
+      return result;
+    },
+
+    uninstall: async (context) => {
+      const config = appConfig(context, options.stateDir);
+      const logger = loggerFor(context);
+      const stateStore = new SyncStateStore(config.sync.stateFile);
+      await stateStore.load();
+
+      const referenceIds = stateStore
+        .ids()
+        .flatMap((articleId) => referenceIdsOf(articleId, stateStore.get(articleId)));
+      if (referenceIds.length > 0) {
+        const client = createMavenClient(context);
+        const uploader = new MavenUploader(client, config.maven.knowledgeBaseId, {
+          ...config.sync.upload,
+          logger,
+        });
+        const result = await uploader.delete(referenceIds);
+        logger.info(`Deleted ${result.success} of ${result.total} synced documents`, {
+          deleted: result.success,
+          failed: result.failed,
+        });
+
+        if (result.failed > 0) {
+          // Keep the documents that are still in Maven, so a retried
+          // uninstall deletes them
+          const failed = new Set(result.errors.map((error) => error.docId));
+          for (const articleId of stateStore.ids()) {
+            const entry = stateStore.get(articleId);
+            const remaining = referenceIdsOf(articleId, entry).filter((id) => failed.has(id));
+            if (!entry || remaining.length === 0) {
+              stateStore.delete(articleId);
+            } else {
+              stateStore.set(articleId, { ...entry, referenceIds: remaining });
+            }
+          }
+          await stateStore.save();
+          throw new ConnectorError(
+            `Failed to delete ${result.failed} of ${result.total} synced documents`
+          );
+        }
+      }
+
+      await stateStore.clear();
+      await new CheckpointStore(config.sync.checkpointFile).clear();
+    },
+  };
+}
@@ -0,0 +1,4 @@
+export { createApp } from "./handlers.js";
+export type { AppOptions, KnowledgeBaseRefreshContext, MavenApp } from "./handlers.js";
+export { appConfig } from "./settings.js";
+export type { AppContext, AppSettings } from "./settings.js";
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { appConfig } from "./settings.js";
+
+describe("appConfig", () => {
+  const context = {
+    organizationId: "org-1",
+    agentId: "agent-1",
+    settings: { docsieApiKey: "docsie-key" },
+  };
+
+  it("should build the config from the install and its settings", () => {
+    const config = appConfig(context);
+
+    expect(config.docsie).toEqual({
+      apiKey: "docsie-key",
+      baseUrl: "https://app.docsie.io/api_v2/003",
+    });
+    expect(config.maven).toMatchObject({
+      organizationId: "org-1",
+      agentId: "agent-1",
+      knowledgeBaseId: "docsie-kb",
+    });
+    expect(config.sync.scope).toEqual({});
+    expect(config.sync.versions).toEqual({ policy: "primary" });
+  });
+
+  it("should read scope filters, versions and the knowledge base from the settings", () => {
+    const config = appConfig({
+      ...context,
+      settings: {
+        docsieApiKey: "docsie-key",
+        knowledgeBaseId: "help-center",
+        bookIds: "boo_1, boo_2",
+        excludeTags: "internal",
+        languages: " ",
+        versions: "1.0,2.0",
+      },
+    });
+
+    expect(config.maven.knowledgeBaseId).toBe("help-center");
+    expect(config.sync.scope).toEqual({ bookIds: ["boo_1", "boo_2"], excludeTags: ["internal"] });
+    expect(config.sync.versions).toEqual({ policy: "pinned", pinned: ["1.0", "2.0"] });
+  });
+
+  it("should keep the state of each install apart", () => {
+    const config = appConfig(context, "/var/lib/docsie");
+
+    expect(config.sync.stateFile).toBe("/var/lib/docsie/.docsie-sync-state.org-1.agent-1.json");
+    expect(config.sync.checkpointFile).toBe(
+      "/var/lib/docsie/.docsie-sync-checkpoint.org-1.agent-1.json"
+    );
+  });
+
+  it("should require the Docsie API key", () => {
+    expect(() => appConfig({ ...context, settings: {} })).toThrow(
+      "Missing required app setting: docsieApiKey"
+    );
+  });
+});
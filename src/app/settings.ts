@@ -0,0 +1,137 @@
+/**
+ * Maven App Settings
+ *
+ * Installed as a Maven App, the connector is configured per install through
+ * app settings instead of environment variables and the config file. The
+ * organization and agent come from the install; anything the settings do
+ * not cover uses the same defaults as the CLI.
+ */
+
+import { join } from "node:path";
+import {
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_CHECKPOINT_FILE,
+  DEFAULT_DOCSIE_BASE_URL,
+  DEFAULT_KNOWLEDGE_BASE_ID,
+  DEFAULT_KNOWLEDGE_BASE_NAME,
+  DEFAULT_MAX_DELETE_PERCENT,
+  DEFAULT_RATE_LIMIT_CONCURRENT,
+  DEFAULT_SERVE_HOST,
+  DEFAULT_SERVE_PORT,
+  DEFAULT_SYNC_STATE_FILE,
+  DEFAULT_WEBHOOK_DEBOUNCE_MS,
+  parseList,
+  parseVersions,
+  type Config,
+} from "../cli/env.js";
+import type { SyncScope } from "../sync/scope.js";
+import { suffixFile } from "../sync/state.js";
+import { ValidationError } from "../utils/errors.js";
+
+/**
+ * Settings of an install; app settings are strings, so lists are
+ * comma-separated
+ */
+export interface AppSettings {
+  docsieApiKey?: string;
+  docsieBaseUrl?: string;
+  /** Reference ID of the knowledge base to create and sync into */
+  knowledgeBaseId?: string;
+  /** Display name of the knowledge base */
+  knowledgeBaseName?: string;
+  /** "primary", "active", or the versions to pin */
+  versions?: string;
+  /** Scope filters, as in the config file's `sync.scope` */
+  workspaceIds?: string;
+  excludeWorkspaceIds?: string;
+  documentationIds?: string;
+  excludeDocumentationIds?: string;
+  bookIds?: string;
+  excludeBookIds?: string;
+  tags?: string;
+  excludeTags?: string;
+  languages?: string;
+  excludeLanguages?: string;
+}
+
+/** The install a lifecycle handler is called for */
+export interface AppContext {
+  organizationId: string;
+  agentId: string;
+  settings: AppSettings;
+}
+
+const SCOPE_SETTINGS = [
+  "workspaceIds",
+  "excludeWorkspaceIds",
+  "documentationIds",
+  "excludeDocumentationIds",
+  "bookIds",
+  "excludeBookIds",
+  "tags",
+  "excludeTags",
+  "languages",
+  "excludeLanguages",
+] satisfies (keyof SyncScope & keyof AppSettings)[];
+
+/**
+ * Connector config of an install
+ *
+ * Each install keeps its own sync state and checkpoint files in `stateDir`,
+ * suffixed with its organization and agent.
+ *
+ * @throws ValidationError if the Docsie API key is missing or a setting is invalid
+ */
+export function appConfig(context: AppContext, stateDir: string = "."): Config {
+  const { organizationId, agentId, settings } = context;
+  if (!settings.docsieApiKey) {
+    throw new ValidationError("Missing required app setting: docsieApiKey");
+  }
+
+  const scope: SyncScope = {};
+  for (const key of SCOPE_SETTINGS) {
+    const list = parseList(settings[key] ?? "");
+    if (list.length > 0) {
+      scope[key] = list;
+    }
+  }
+
+  const install = `${organizationId}.${agentId}`;
+  return {
+    docsie: {
+      apiKey: settings.docsieApiKey,
+      baseUrl: settings.docsieBaseUrl || DEFAULT_DOCSIE_BASE_URL,
+    },
+    maven: {
+      organizationId,
+      agentId,
+      // The app authenticates as itself (MAVENAGI_APP_ID / MAVENAGI_APP_SECRET)
+      apiKey: "",
+      knowledgeBaseId: settings.knowledgeBaseId || DEFAULT_KNOWLEDGE_BASE_ID,
+      knowledgeBaseName: settings.knowledgeBaseName || DEFAULT_KNOWLEDGE_BASE_NAME,
+    },
+    sync: {
+      stateFile: join(stateDir, suffixFile(DEFAULT_SYNC_STATE_FILE, install)),
+      checkpointFile: join(stateDir, suffixFile(DEFAULT_CHECKPOINT_FILE, install)),
+      maxDeletePercent: DEFAULT_MAX_DELETE_PERCENT,
+      scope,
+      chunking: { splitSections: false, maxChunkChars: 0 },
+      urls: {},
+      languages: { enabled: false, knowledgeBases: {} },
+      versions: parseVersions("versions", settings.versions),
+      upload: {
+        chunkSize: DEFAULT_BATCH_SIZE,
+        maxConcurrent: DEFAULT_RATE_LIMIT_CONCURRENT,
+        minTime: 0,
+      },
+    },
+    retry: {},
+    logging: { level: "info", format: "json" },
+    serve: {
+      port: DEFAULT_SERVE_PORT,
+      host: DEFAULT_SERVE_HOST,
+      webhookDebounceMs: DEFAULT_WEBHOOK_DEBOUNCE_MS,
+    },
+    profiles: {},
+  };
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import { parseCliArgs, applyCliArgs } from "./args.js";
+import type { Config } from "./env.js";
+
+describe("parseCliArgs", () => {
+  it("should default to the sync command", () => {
+    expect(parseCliArgs([])).toEqual({
+      command: "sync",
+      scope: {},
+      dryRun: false,
+      resume: false,
+      force: false,
+      profiles: [],
+      allProfiles: false,
+    });
+  });
+
+  it("should read the command positional", () => {
+    expect(parseCliArgs(["validate"]).command).toBe("validate");
+  });
+
+  it("should parse repeated and comma-separated scope flags", () => {
+    const args = parseCliArgs([
+      "sync",
+      "--book",
+      "boo_1,boo_2",
+      "--book",
+      "boo_3",
+      "--exclude-tag",
+      "internal",
+      "--workspace=ws_1",
+      "--language",
+      "en,fr",
+    ]);
+
+    expect(args.scope).toEqual({
+      bookIds: ["boo_1", "boo_2", "boo_3"],
+      excludeTags: ["internal"],
+      workspaceIds: ["ws_1"],
+      languages: ["en", "fr"],
+    });
+  });
+
+  it("should parse dry-run and plan file flags", () => {
+    const args = parseCliArgs(["sync", "--dry-run", "--plan-file", "plan.json"]);
+
+    expect(args.dryRun).toBe(true);
+    expect(args.planFile).toBe("plan.json");
+  });
+
+  it("should parse the config file flag and subcommand", () => {
+    const args = parseCliArgs(["config", "print", "--config", "connector.yaml"]);
+
+    expect(args.command).toBe("config");
+    expect(args.subcommand).toBe("print");
+    expect(args.configFile).toBe("connector.yaml");
+  });
+
+  it("should parse profile flags", () => {
+    expect(parseCliArgs(["sync", "--profile", "support,sales"]).profiles).toEqual([
+      "support",
+      "sales",
+    ]);
+    expect(parseCliArgs(["sync", "--all-profiles"]).allProfiles).toBe(true);
+    expect(() => parseCliArgs(["sync", "--profile", "a", "--all-profiles"])).toThrow(
+      "--profile and --all-profiles cannot be combined"
+    );
+  });
+
+  it("should parse report flags", () => {
+    expect(parseCliArgs(["sync", "--report", "junit"]).report).toEqual({
+      format: "junit",
+      filePath: "docsie-sync-report.xml",
+    });
+    expect(parseCliArgs(["sync", "--report-file", "out/report.md"]).report).toEqual({
+      format: "markdown",
+      filePath: "out/report.md",
+    });
+    expect(parseCliArgs(["sync"]).report).toBeUndefined();
+    expect(() => parseCliArgs(["sync", "--report", "html"])).toThrow(
+      'Invalid --report format "html" (expected json, junit, markdown)'
+    );
+  });
+
+  it("should parse the metrics file", () => {
+    expect(parseCliArgs(["sync", "--metrics-file", "/var/lib/textfile/docsie.prom"]).metricsFile).toBe(
+      "/var/lib/textfile/docsie.prom"
+    );
+  });
+
+  it("should parse serve options", () => {
+    const args = parseCliArgs(["serve", "--port", "9090", "--schedule", "*/30 * * * *"]);
+
+    expect(args.command).toBe("serve");
+    expect(args.port).toBe(9090);
+    expect(args.schedule).toBe("*/30 * * * *");
+    expect(() => parseCliArgs(["serve", "--port", "70000"])).toThrow(
+      'Invalid --port "70000" (expected 1-65535)'
+    );
+  });
+
+  it("should parse the resume flag", () => {
+    expect(parseCliArgs(["sync", "--resume"]).resume).toBe(true);
+  });
+
+  it("should parse the force flag", () => {
+    expect(parseCliArgs(["sync", "--force"]).force).toBe(true);
+  });
+
+  it("should reject unknown flags", () => {
+    expect(() => parseCliArgs(["sync", "--bogus"])).toThrow();
+  });
+});
+
+describe("applyCliArgs", () => {
+  const config: Config = {
+    docsie: { apiKey: "k", baseUrl: "https://app.docsie.io/api_v2/003" },
+    maven: {
+      organizationId: "o",
+      agentId: "a",
+      apiKey: "m",
+      knowledgeBaseId: "kb",
+      knowledgeBaseName: "Docs",
+    },
+    sync: {
+      stateFile: ".docsie-sync-state.json",
+      checkpointFile: ".docsie-sync-checkpoint.json",
+      maxDeletePercent: 20,
+      scope: { bookIds: ["boo_env"], tags: ["public"] },
+      chunking: {},
+      urls: {},
+      languages: { enabled: false, knowledgeBases: {} },
+      versions: { policy: "primary" as const },
+      upload: {},
+    },
+    retry: {},
+    logging: { level: "info", format: "text" },
+    serve: { port: 8080, host: "0.0.0.0", webhookDebounceMs: 5000 },
+    profiles: {},
+  };
+
+  it("should let CLI scope flags override env scope filters", () => {
+    const merged = applyCliArgs(config, {
+      command: "sync",
+      scope: { bookIds: ["boo_cli"] },
+      dryRun: false,
+      resume: false,
+      force: false,
+      profiles: [],
+      allProfiles: false,
+    });
+
+    expect(merged.sync.scope).toEqual({ bookIds: ["boo_cli"], tags: ["public"] });
+    expect(config.sync.scope.bookIds).toEqual(["boo_env"]);
+  });
+
+  it("should let CLI serve flags override the serve config", () => {
+    const merged = applyCliArgs(config, {
+      command: "serve",
+      scope: {},
+      dryRun: false,
+      resume: false,
+      force: false,
+      profiles: [],
+      allProfiles: false,
+      schedule: "1h",
+    });
+
+    expect(merged.serve).toEqual({
+      port: 8080,
+      host: "0.0.0.0",
+      schedule: "1h",
+      webhookDebounceMs: 5000,
+    });
+  });
+});
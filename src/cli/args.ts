@@ -0,0 +1,213 @@
+/**
+ * Command-line Arguments
+ *
+ * Parses the command and flags passed to the CLI. Flags take precedence
+ * over the equivalent environment variables and config file settings.
+ */
+
+import { parseArgs } from "node:util";
+import type { SyncScope } from "../sync/scope.js";
+import { parseList, type Config } from "./env.js";
+import {
+  REPORT_FORMATS,
+  defaultReportFile,
+  reportFormatFor,
+  type ReportFormat,
+} from "./report.js";
+
+export interface CliArgs {
+  command: string;
+  /** Second positional, e.g. "print" in `config print` */
+  subcommand?: string;
+  /** Path of the config file (overrides DOCSIE_CONNECTOR_CONFIG) */
+  configFile?: string;
+  /** Scope filters given on the command line (override env) */
+  scope: SyncScope;
+  /** Plan the sync without writing to Maven */
+  dryRun: boolean;
+  /** Write the sync plan as JSON to this path */
+  planFile?: string;
+  /** Continue an interrupted sync from its checkpoint */
+  resume: boolean;
+  /** Upload every article, even those unchanged since the last sync */
+  force: boolean;
+  /** Profiles to run (see profiles.ts) */
+  profiles: string[];
+  /** Run every configured profile */
+  allProfiles: boolean;
+  /** Machine-readable sync report to write (see report.ts) */
+  report?: { format: ReportFormat; filePath: string };
+  /** Write Prometheus metrics to this file after the sync (textfile collector) */
+  metricsFile?: string;
+  /** `serve` port and schedule (override SERVE_PORT and SYNC_SCHEDULE) */
+  port?: number;
+  schedule?: string;
+}
+
+/** Flag name → SyncScope field */
+const SCOPE_FLAGS = {
+  workspace: "workspaceIds",
+  "exclude-workspace": "excludeWorkspaceIds",
+  documentation: "documentationIds",
+  "exclude-documentation": "excludeDocumentationIds",
+  book: "bookIds",
+  "exclude-book": "excludeBookIds",
+  tag: "tags",
+  "exclude-tag": "excludeTags",
+  language: "languages",
+  "exclude-language": "excludeLanguages",
+} as const satisfies Record<string, keyof SyncScope>;
+
+export const USAGE = `Usage: pnpm start [sync|validate|serve|config print] [options]
+
+Options:
+  --config <path>               Config file (default: docsie-connector.config.json/.yaml)
+  --profile <name>              Run these profiles from the config file (repeatable)
+  --all-profiles                Run every profile from the config file
+
+Scope options (repeatable or comma-separated):
+  --workspace <id>              Only sync these workspaces
+  --exclude-workspace <id>      Skip these workspaces
+  --documentation <id>          Only sync these documentation shelves
+  --exclude-documentation <id>  Skip these documentation shelves
+  --book <id>                   Only sync these books
+  --exclude-book <id>           Skip these books
+  --tag <tag>                   Only sync articles with one of these tags
+  --exclude-tag <tag>           Skip articles with any of these tags
+  --language <code>             Only sync these languages (e.g. en, fr)
+  --exclude-language <code>     Skip these languages
+
+Sync options:
+  --dry-run                     Show what would change without writing to Maven
+  --plan-file <path>            Write the per-article plan as JSON
+  --resume                      Continue an interrupted sync from its checkpoint
+  --force                       Upload every article, even if unchanged since the last sync
+                                (also re-keys them after a version or language mode change)
+  --report <format>             Write a sync report: json, junit or markdown
+  --report-file <path>          Report path (default: docsie-sync-report.json/.xml/.md)
+  --metrics-file <path>         Write Prometheus metrics (e.g. for node_exporter's textfile collector)
+
+Serve options:
+  --port <port>                 HTTP port for /healthz, /status, /metrics and POST /sync (default: 8080)
+  --schedule <schedule>         Sync interval (e.g. 15m) or cron expression (UTC)`;
+
+/**
+ * Parse CLI arguments (without the node executable and script path)
+ *
+ * @throws Error on unknown flags or missing flag values
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  const scopeOptions = Object.fromEntries(
+    Object.keys(SCOPE_FLAGS).map((flag) => [
+      flag,
+      { type: "string" as const, multiple: true as const },
+    ])
+  );
+  const options = {
+    ...scopeOptions,
+    "dry-run": { type: "boolean" as const },
+    "plan-file": { type: "string" as const },
+    resume: { type: "boolean" as const },
+    force: { type: "boolean" as const },
+    config: { type: "string" as const },
+    profile: { type: "string" as const, multiple: true as const },
+    "all-profiles": { type: "boolean" as const },
+    report: { type: "string" as const },
+    "report-file": { type: "string" as const },
+    "metrics-file": { type: "string" as const },
+    port: { type: "string" as const },
+    schedule: { type: "string" as const },
+  };
+
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options,
+    allowPositionals: true,
+    strict: true,
+  });
+
+  const scope: SyncScope = {};
+  for (const [flag, field] of Object.entries(SCOPE_FLAGS)) {
+    const raw = (values as Record<string, unknown>)[flag] as string[] | undefined;
+    if (raw && raw.length > 0) {
+      scope[field] = raw.flatMap(parseList);
+    }
+  }
+
+  const profiles = (values.profile ?? []).flatMap(parseList);
+  const allProfiles = values["all-profiles"] ?? false;
+  if (allProfiles && profiles.length > 0) {
+    throw new Error("--profile and --all-profiles cannot be combined");
+  }
+
+  return {
+    command: positionals[0] ?? "sync",
+    subcommand: positionals[1],
+    configFile: values.config,
+    scope,
+    dryRun: values["dry-run"] ?? false,
+    planFile: values["plan-file"],
+    resume: values.resume ?? false,
+    force: values.force ?? false,
+    profiles,
+    allProfiles,
+    report: parseReportArgs(values.report, values["report-file"]),
+    metricsFile: values["metrics-file"],
+    port: parsePortArg(values.port),
+    schedule: values.schedule,
+  };
+}
+
+/**
+ * @throws Error if the port is not an integer from 1 to 65535
+ */
+function parsePortArg(raw: string | undefined): number | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  const port = Number(raw);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid --port "${raw}" (expected 1-65535)`);
+  }
+  return port;
+}
+
+/**
+ * Report format and path; either flag alone implies the other
+ * (JSON unless the file extension says otherwise)
+ *
+ * @throws Error on an unknown format
+ */
+function parseReportArgs(
+  format: string | undefined,
+  filePath: string | undefined
+): CliArgs["report"] {
+  if (format === undefined) {
+    return filePath ? { format: reportFormatFor(filePath), filePath } : undefined;
+  }
+  if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+    throw new Error(
+      `Invalid --report format "${format}" (expected ${REPORT_FORMATS.join(", ")})`
+    );
+  }
+  const reportFormat = format as ReportFormat;
+  return { format: reportFormat, filePath: filePath ?? defaultReportFile(reportFormat) };
+}
+
+/**
+ * Overlay CLI flags onto the environment and config file settings
+ */
+export function applyCliArgs(config: Config, args: CliArgs): Config {
+  return {
+    ...config,
+    sync: {
+      ...config.sync,
+      scope: { ...config.sync.scope, ...args.scope },
+    },
+    serve: {
+      ...config.serve,
+      ...(args.port !== undefined && { port: args.port }),
+      ...(args.schedule !== undefined && { schedule: args.schedule }),
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { formatConfig, loadConfigFile, parseConfigFile } from "./config.js";
+import { ValidationError } from "../utils/errors.js";
+import type { Config } from "./env.js";
+
+describe("parseConfigFile", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should parse JSON config files", () => {
+    const config = parseConfigFile(
+      JSON.stringify({ maven: { knowledgeBaseId: "kb-docs" }, sync: { upload: { chunkSize: 20 } } }),
+      "docsie-connector.config.json"
+    );
+
+    expect(config).toEqual({
+      maven: { knowledgeBaseId: "kb-docs" },
+      sync: { upload: { chunkSize: 20 } },
+    });
+  });
+
+  it("should parse YAML config files", () => {
+    const config = parseConfigFile(
+      [
+        "sync:",
+        "  versions: [\"2.0\", \"3.0\"]",
+        "  scope:",
+        "    bookIds:",
+        "      - boo_1",
+        "retry:",
+        "  maxRetries: 5",
+      ].join("\n"),
+      "docsie-connector.config.yaml"
+    );
+
+    expect(config).toEqual({
+      sync: { versions: ["2.0", "3.0"], scope: { bookIds: ["boo_1"] } },
+      retry: { maxRetries: 5 },
+    });
+  });
+
+  it("should treat an empty YAML file as an empty config", () => {
+    expect(parseConfigFile("", "docsie-connector.config.yml")).toEqual({});
+  });
+
+  it("should interpolate environment variables", () => {
+    process.env.TEST_DOCSIE_KEY = "secret-key";
+    delete process.env.TEST_UNSET;
+
+    const config = parseConfigFile(
+      JSON.stringify({
+        docsie: { apiKey: "${TEST_DOCSIE_KEY}", baseUrl: "${TEST_UNSET:-https://docs.example.com}" },
+      }),
+      "config.json"
+    );
+
+    expect(config.docsie).toEqual({
+      apiKey: "secret-key",
+      baseUrl: "https://docs.example.com",
+    });
+  });
+
+  it("should reject references to unset environment variables", () => {
+    delete process.env.TEST_UNSET;
+
+    expect(() =>
+      parseConfigFile(JSON.stringify({ maven: { apiKey: "${TEST_UNSET}" } }), "config.json")
+    ).toThrow("maven.apiKey: environment variable TEST_UNSET is not set");
+  });
+
+  it("should list every schema violation", () => {
+    const parse = () =>
+      parseConfigFile(
+        JSON.stringify({
+          sync: { upload: { chunkSize: 0 }, scope: { bookIds: "boo_1" }, colour: "blue" },
+          retry: { maxDelayMs: -1 },
+        }),
+        "config.json"
+      );
+
+    expect(parse).toThrow(ValidationError);
+    expect(parse).toThrow(
+      [
+        "Invalid config file config.json:",
+        "  - sync.upload.chunkSize: expected a positive integer",
+        "  - sync.scope.bookIds: expected a list of strings",
+        "  - sync.colour: unknown setting",
+        "  - retry.maxDelayMs: expected a non-negative number",
+      ].join("\n")
+    );
+  });
+
+  it("should validate profiles", () => {
+    const parse = () =>
+      parseConfigFile(
+        JSON.stringify({
+          profiles: {
+            support: { maven: { knowledgeBaseId: "kb-support" }, sync: { scope: { tags: ["help"] } } },
+            sales: { maven: { knowledgeBaseId: 7 } },
+          },
+        }),
+        "config.json"
+      );
+
+    expect(parse).toThrow("profiles.sales.maven.knowledgeBaseId: expected a string");
+  });
+
+  it("should reject a Maven API key in profiles", () => {
+    const parse = () =>
+      parseConfigFile(
+        JSON.stringify({
+          profiles: { support: { maven: { apiKey: "m", appId: "app", appSecret: "s" } } },
+        }),
+        "config.json"
+      );
+
+    expect(parse).toThrow("profiles.support.maven.apiKey: unknown setting");
+  });
+
+  it("should report syntax errors", () => {
+    expect(() => parseConfigFile("{ nope", "config.json")).toThrow(
+      "Invalid config file config.json"
+    );
+  });
+});
+
+describe("loadConfigFile", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "docsie-config-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should find the config file in the working directory", async () => {
+    await writeFile(join(dir, "docsie-connector.config.yaml"), "sync:\n  stateFile: state.json\n");
+
+    const loaded = await loadConfigFile(undefined, dir);
+
+    expect(loaded).toEqual({
+      path: join(dir, "docsie-connector.config.yaml"),
+      config: { sync: { stateFile: "state.json" } },
+    });
+  });
+
+  it("should return undefined when there is no config file", async () => {
+    expect(await loadConfigFile(undefined, dir)).toBeUndefined();
+  });
+
+  it("should require an explicitly given config file to exist", async () => {
+    await expect(loadConfigFile("missing.json", dir)).rejects.toThrow(
+      `Config file not found: ${join(dir, "missing.json")}`
+    );
+  });
+});
+
+describe("formatConfig", () => {
+  it("should redact secrets", () => {
+    const config = {
+      docsie: { apiKey: "docsie-secret", baseUrl: "https://app.docsie.io/api_v2/003" },
+      maven: {
+        organizationId: "org-123",
+        agentId: "agent-456",
+        apiKey: "maven-secret",
+        knowledgeBaseId: "docsie-kb",
+      },
+      retry: {},
+    } as unknown as Config;
+
+    const printed = formatConfig(config);
+
+    expect(printed).not.toContain("secret");
+    expect(JSON.parse(printed)).toMatchObject({
+      docsie: { apiKey: "<redacted>" },
+      maven: { apiKey: "<redacted>", organizationId: "org-123" },
+    });
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Config File
+ *
+ * Settings can also come from a `docsie-connector.config.json` (or `.yaml`,
+ * `.yml`) file. Values are checked against a schema when the file is loaded,
+ * and `${VAR}` / `${VAR:-default}` in strings is replaced with environment
+ * variables, so secrets can stay out of the file.
+ *
+ * Precedence: CLI flags > environment variables > config file > defaults.
+ */
+
+import { readFile } from "node:fs/promises";
+import { extname, resolve } from "node:path";
+import yaml from "js-yaml";
+import { ValidationError } from "../utils/errors.js";
+import type { ChunkOptions } from "../maven/chunk.js";
+import type { UploadLimits } from "../maven/uploader.js";
+import type { UrlOptions } from "../docsie/urls.js";
+import type { SyncScope } from "../sync/scope.js";
+import type { RetryPolicy } from "../utils/retry.js";
+import type { LogFormat, LogLevel } from "../utils/logger.js";
+import type { Config } from "./env.js";
+import type { Profile } from "./profiles.js";
+
+/** Config files looked up in the working directory, in order */
+export const CONFIG_FILE_NAMES = [
+  "docsie-connector.config.json",
+  "docsie-connector.config.yaml",
+  "docsie-connector.config.yml",
+];
+
+/** Environment variable naming the config file (overridden by --config) */
+export const CONFIG_FILE_ENV_VAR = "DOCSIE_CONNECTOR_CONFIG";
+
+/** Setting names whose values are replaced when printing the config */
+const SECRET_KEY_PATTERN = /(apiKey|secret|token|password)$/i;
+const REDACTED = "<redacted>";
+
+/** Contents of a config file; every setting is optional */
+export interface ConfigFile {
+  docsie?: {
+    apiKey?: string;
+    baseUrl?: string;
+  };
+  maven?: {
+    organizationId?: string;
+    agentId?: string;
+    apiKey?: string;
+    appId?: string;
+    appSecret?: string;
+    knowledgeBaseId?: string;
+    knowledgeBaseName?: string;
+  };
+  sync?: {
+    stateFile?: string;
+    checkpointFile?: string;
+    maxDeletePercent?: number;
+    scope?: SyncScope;
+    chunking?: ChunkOptions;
+    urls?: UrlOptions;
+    languages?: {
+      enabled?: boolean;
+      knowledgeBases?: Record<string, string>;
+    };
+    /** "primary", "active", or the versions to pin */
+    versions?: string | string[];
+    upload?: UploadLimits;
+  };
+  retry?: RetryPolicy;
+  logging?: {
+    level?: LogLevel;
+    format?: LogFormat;
+  };
+  serve?: {
+    port?: number;
+    host?: string;
+    schedule?: string;
+    webhookSecret?: string;
+    webhookDebounceMs?: number;
+  };
+  /** Named profiles (see profiles.ts) */
+  profiles?: Record<string, Profile>;
+}
+
+export interface LoadedConfigFile {
+  /** Absolute path of the file */
+  path: string;
+  config: ConfigFile;
+}
+
+/**
+ * Value types of the schema: "count" is a positive integer, "number" a
+ * non-negative number, "list" an array of strings, "map" an object of strings
+ * and "versions" a string or list of strings. A "*" key in an object schema
+ * matches any key.
+ */
+type ValueType = "string" | "number" | "count" | "boolean" | "list" | "map" | "versions";
+interface ObjectSchema {
+  [key: string]: ValueType | ObjectSchema;
+}
+
+const SCOPE_SCHEMA = {
+  workspaceIds: "list",
+  excludeWorkspaceIds: "list",
+  documentationIds: "list",
+  excludeDocumentationIds: "list",
+  bookIds: "list",
+  excludeBookIds: "list",
+  tags: "list",
+  excludeTags: "list",
+  languages: "list",
+  excludeLanguages: "list",
+} satisfies Record<keyof SyncScope, ValueType>;
+
+const MAVEN_SCHEMA = {
+  organizationId: "string",
+  agentId: "string",
+  apiKey: "string",
+  appId: "string",
+  appSecret: "string",
+  knowledgeBaseId: "string",
+  knowledgeBaseName: "string",
+} satisfies ObjectSchema;
+
+const { apiKey: _apiKey, ...PROFILE_MAVEN_SCHEMA } = MAVEN_SCHEMA;
+
+const PROFILE_SCHEMA: ObjectSchema = {
+  maven: PROFILE_MAVEN_SCHEMA,
+  sync: { stateFile: "string", checkpointFile: "string", scope: SCOPE_SCHEMA },
+};
+
+const CONFIG_SCHEMA: ObjectSchema = {
+  docsie: { apiKey: "string", baseUrl: "string" },
+  maven: MAVEN_SCHEMA,
+  sync: {
+    stateFile: "string",
+    checkpointFile: "string",
+    maxDeletePercent: "number",
+    scope: SCOPE_SCHEMA,
+    chunking: { splitSections: "boolean", maxChunkChars: "number" },
+    urls: { template: "string", baseUrl: "string" },
+    languages: { enabled: "boolean", knowledgeBases: "map" },
+    versions: "versions",
+    upload: { chunkSize: "count", maxConcurrent: "count", minTime: "number" },
+  },
+  retry: {
+    maxRetries: "count",
+    initialDelayMs: "number",
+    backoffMultiplier: "number",
+    maxDelayMs: "number",
+  },
+  logging: { level: "string", format: "string" },
+  serve: {
+    port: "count",
+    host: "string",
+    schedule: "string",
+    webhookSecret: "string",
+    webhookDebounceMs: "number",
+  },
+  profiles: { "*": PROFILE_SCHEMA },
+};
+
+/**
+ * Find and load the config file
+ *
+ * An explicit path (from --config or DOCSIE_CONNECTOR_CONFIG) must exist;
+ * otherwise the working directory is searched for CONFIG_FILE_NAMES.
+ *
+ * @returns the loaded file, or undefined when there is none
+ * @throws ValidationError if the file cannot be parsed or fails the schema
+ */
+export async function loadConfigFile(
+  path: string | undefined = process.env[CONFIG_FILE_ENV_VAR] || undefined,
+  cwd: string = process.cwd()
+): Promise<LoadedConfigFile | undefined> {
+  if (path) {
+    const filePath = resolve(cwd, path);
+    const raw = await readConfigText(filePath);
+    if (raw === undefined) {
+      throw new ValidationError(`Config file not found: ${filePath}`);
+    }
+    return { path: filePath, config: parseConfigFile(raw, filePath) };
+  }
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const filePath = resolve(cwd, name);
+    const raw = await readConfigText(filePath);
+    if (raw !== undefined) {
+      return { path: filePath, config: parseConfigFile(raw, filePath) };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse config file text (JSON, or YAML for .yaml/.yml files), interpolate
+ * environment variables and validate it against the schema
+ *
+ * @throws ValidationError listing every problem found
+ */
+export function parseConfigFile(raw: string, filePath: string): ConfigFile {
+  let parsed: unknown;
+  try {
+    const extension = extname(filePath).toLowerCase();
+    parsed = extension === ".yaml" || extension === ".yml" ? yaml.load(raw) : JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ValidationError(`Invalid config file ${filePath}: ${message}`);
+  }
+
+  // An empty YAML file is an empty config
+  if (parsed === undefined || parsed === null) {
+    return {};
+  }
+
+  const problems: string[] = [];
+  const config = interpolateEnv(parsed, "", problems);
+  if (problems.length === 0) {
+    checkSchema(config, CONFIG_SCHEMA, "", problems);
+  }
+
+  if (problems.length > 0) {
+    throw new ValidationError(
+      `Invalid config file ${filePath}:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`
+    );
+  }
+
+  return config as ConfigFile;
+}
+
+/**
+ * Effective config as JSON, with API keys and other secrets redacted
+ */
+export function formatConfig(config: Config): string {
+  return JSON.stringify(redactSecrets(config), null, 2);
+}
+
+function redactSecrets(value: unknown, key: string = ""): unknown {
+  if (SECRET_KEY_PATTERN.test(key) && value) {
+    return REDACTED;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, redactSecrets(item, name)])
+    );
+  }
+  return value;
+}
+
+async function readConfigText(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}` in every string of a parsed file,
+ * recording unset variables without a default as problems
+ */
+function interpolateEnv(value: unknown, path: string, problems: string[]): unknown {
+  if (typeof value === "string") {
+    return value.replace(
+      /\$\{(\w+)(?::-([^}]*))?\}/g,
+      (match, name: string, fallback: string | undefined) => {
+        const envValue = process.env[name];
+        if (envValue !== undefined && envValue !== "") {
+          return envValue;
+        }
+        if (fallback !== undefined) {
+          return fallback;
+        }
+        problems.push(`${path}: environment variable ${name} is not set`);
+        return match;
+      }
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, `${path}[${index}]`, problems));
+  }
+  if (isObject(value)) {
+    // Empty YAML sections (e.g. only comments) parse as null: treat them as unset
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== null)
+        .map(([key, item]) => [key, interpolateEnv(item, joinPath(path, key), problems)])
+    );
+  }
+  return value;
+}
+
+function checkSchema(
+  value: unknown,
+  schema: ObjectSchema,
+  path: string,
+  problems: string[]
+): void {
+  if (!isObject(value)) {
+    problems.push(`${path || "config"}: expected an object`);
+    return;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const itemPath = joinPath(path, key);
+    const expected = schema[key] ?? schema["*"];
+
+    if (expected === undefined) {
+      problems.push(`${itemPath}: unknown setting`);
+    } else if (typeof expected === "object") {
+      checkSchema(item, expected, itemPath, problems);
+    } else if (!matchesType(item, expected)) {
+      problems.push(`${itemPath}: expected ${describeType(expected)}`);
+    }
+  }
+}
+
+function matchesType(value: unknown, type: ValueType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) && value >= 0;
+    case "count":
+      return typeof value === "number" && Number.isInteger(value) && value >= 1;
+    case "boolean":
+      return typeof value === "boolean";
+    case "list":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+    case "map":
+      return isObject(value) && Object.values(value).every((item) => typeof item === "string");
+    case "versions":
+      return typeof value === "string" || matchesType(value, "list");
+  }
+}
+
+function describeType(type: ValueType): string {
+  switch (type) {
+    case "string":
+      return "a string";
+    case "number":
+      return "a non-negative number";
+    case "count":
+      return "a positive integer";
+    case "boolean":
+      return "true or false";
+    case "list":
+      return "a list of strings";
+    case "map":
+      return "an object of strings";
+    case "versions":
+      return "primary, active or a list of versions";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -47,6 +47,31 @@ describe("validateEnv", () => {
     expect(result.missing).toContain("MAVEN_API_KEY");
   });
 
+  it("should accept required settings from the config file", () => {
+    delete process.env.DOCSIE_API_KEY;
+    delete process.env.MAVEN_API_KEY;
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+
+    const result = validateEnv({ docsie: { apiKey: "k" }, maven: { apiKey: "m" } });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it("should accept Maven settings given by every profile", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    delete process.env.MAVEN_ORGANIZATION_ID;
+    delete process.env.MAVEN_AGENT_ID;
+    process.env.MAVEN_API_KEY = "maven-key";
+    const maven = { organizationId: "o", agentId: "a" };
+
+    expect(validateEnv({ profiles: { support: { maven }, sales: { maven } } }).valid).toBe(true);
+    expect(validateEnv({ profiles: { support: { maven }, sales: {} } }).missing).toEqual([
+      "MAVEN_ORGANIZATION_ID",
+      "MAVEN_AGENT_ID",
+    ]);
+  });
+
   it("should list all missing vars", () => {
     // No env vars set
     delete process.env.DOCSIE_API_KEY;
@@ -101,6 +126,314 @@ describe("getConfig", () => {
     expect(config.docsie.baseUrl).toBe("https://app.docsie.io/api_v2/003");
   });
 
+  it("should default the sync state file path", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.SYNC_STATE_FILE;
+
+    expect(getConfig().sync.stateFile).toBe(".docsie-sync-state.json");
+
+    process.env.SYNC_STATE_FILE = "/var/lib/docsie/state.json";
+
+    expect(getConfig().sync.stateFile).toBe("/var/lib/docsie/state.json");
+  });
+
+  it("should read the delete threshold from SYNC_MAX_DELETE_PERCENT", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.SYNC_MAX_DELETE_PERCENT;
+
+    expect(getConfig().sync.maxDeletePercent).toBe(20);
+
+    process.env.SYNC_MAX_DELETE_PERCENT = "50";
+    expect(getConfig().sync.maxDeletePercent).toBe(50);
+
+    process.env.SYNC_MAX_DELETE_PERCENT = "lots";
+    expect(() => getConfig()).toThrow("Invalid value for SYNC_MAX_DELETE_PERCENT");
+  });
+
+  it("should read chunking settings", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.SYNC_SPLIT_SECTIONS;
+    delete process.env.SYNC_MAX_CHUNK_CHARS;
+
+    expect(getConfig().sync.chunking).toEqual({ splitSections: false, maxChunkChars: 0 });
+
+    process.env.SYNC_SPLIT_SECTIONS = "true";
+    process.env.SYNC_MAX_CHUNK_CHARS = "8000";
+    expect(getConfig().sync.chunking).toEqual({ splitSections: true, maxChunkChars: 8000 });
+
+    process.env.SYNC_SPLIT_SECTIONS = "maybe";
+    expect(() => getConfig()).toThrow("Invalid value for SYNC_SPLIT_SECTIONS");
+  });
+
+  it("should read article URL settings", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.DOCSIE_URL_TEMPLATE;
+    delete process.env.DOCSIE_PORTAL_BASE_URL;
+
+    expect(getConfig().sync.urls).toEqual({});
+
+    process.env.DOCSIE_URL_TEMPLATE = "{baseUrl}/{language}/{articleSlug}";
+    process.env.DOCSIE_PORTAL_BASE_URL = "https://docs.example.com";
+    expect(getConfig().sync.urls).toEqual({
+      template: "{baseUrl}/{language}/{articleSlug}",
+      baseUrl: "https://docs.example.com",
+    });
+  });
+
+  it("should read scope filters from comma-separated env vars", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    process.env.DOCSIE_BOOK_IDS = "boo_1, boo_2,";
+    process.env.DOCSIE_EXCLUDE_TAGS = "internal";
+    delete process.env.DOCSIE_WORKSPACE_IDS;
+
+    const config = getConfig();
+
+    expect(config.sync.scope.bookIds).toEqual(["boo_1", "boo_2"]);
+    expect(config.sync.scope.excludeTags).toEqual(["internal"]);
+    expect(config.sync.scope).not.toHaveProperty("workspaceIds");
+  });
+
+  it("should read language settings", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.SYNC_ALL_LANGUAGES;
+    delete process.env.MAVEN_LANGUAGE_KNOWLEDGE_BASES;
+
+    expect(getConfig().sync.languages).toEqual({ enabled: false, knowledgeBases: {} });
+
+    process.env.MAVEN_LANGUAGE_KNOWLEDGE_BASES = "fr=kb-fr, de = kb-de";
+    process.env.DOCSIE_EXCLUDE_LANGUAGES = "es";
+    const config = getConfig();
+    expect(config.sync.languages).toEqual({
+      enabled: true,
+      knowledgeBases: { fr: "kb-fr", de: "kb-de" },
+    });
+    expect(config.sync.scope.excludeLanguages).toEqual(["es"]);
+
+    process.env.MAVEN_LANGUAGE_KNOWLEDGE_BASES = "fr";
+    expect(() => getConfig()).toThrow("Invalid value for MAVEN_LANGUAGE_KNOWLEDGE_BASES");
+  });
+
+  it("should read the version policy", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.SYNC_VERSIONS;
+
+    expect(getConfig().sync.versions).toEqual({ policy: "primary" });
+
+    process.env.SYNC_VERSIONS = "active";
+    expect(getConfig().sync.versions).toEqual({ policy: "active" });
+
+    process.env.SYNC_VERSIONS = "2.0, 3.0";
+    expect(getConfig().sync.versions).toEqual({ policy: "pinned", pinned: ["2.0", "3.0"] });
+
+    process.env.SYNC_VERSIONS = ",";
+    expect(() => getConfig()).toThrow("Invalid value for SYNC_VERSIONS");
+  });
+
+  it("should read upload batch size and rate limits", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.SYNC_BATCH_SIZE;
+    delete process.env.RATE_LIMIT_CONCURRENT;
+    delete process.env.RATE_LIMIT_DELAY_MS;
+
+    expect(getConfig().sync.upload).toEqual({ chunkSize: 50, maxConcurrent: 5, minTime: 0 });
+
+    process.env.SYNC_BATCH_SIZE = "20";
+    process.env.RATE_LIMIT_CONCURRENT = "2";
+    process.env.RATE_LIMIT_DELAY_MS = "250";
+    expect(getConfig().sync.upload).toEqual({ chunkSize: 20, maxConcurrent: 2, minTime: 250 });
+
+    process.env.RATE_LIMIT_CONCURRENT = "0";
+    expect(() => getConfig()).toThrow("Invalid value for RATE_LIMIT_CONCURRENT");
+
+    process.env.RATE_LIMIT_CONCURRENT = "2";
+    process.env.SYNC_BATCH_SIZE = "1.5";
+    expect(() => getConfig()).toThrow("Invalid value for SYNC_BATCH_SIZE");
+  });
+
+  it("should name the config file setting of an invalid count", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.SYNC_BATCH_SIZE;
+
+    expect(() =>
+      getConfig({ sync: { upload: { chunkSize: 0 } } }, "/etc/docsie-connector.config.yaml")
+    ).toThrow(
+      "Invalid value for SYNC_BATCH_SIZE: 0 from sync.upload.chunkSize in " +
+        "/etc/docsie-connector.config.yaml (expected a positive integer)"
+    );
+  });
+
+  it("should read the log level and format", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.LOG_LEVEL;
+    delete process.env.LOG_FORMAT;
+
+    expect(getConfig().logging).toEqual({ level: "info", format: "text" });
+    expect(getConfig({ logging: { format: "json" } }).logging.format).toBe("json");
+
+    process.env.LOG_LEVEL = "DEBUG";
+    process.env.LOG_FORMAT = "json";
+    expect(getConfig({ logging: { level: "warn" } }).logging).toEqual({
+      level: "debug",
+      format: "json",
+    });
+
+    process.env.LOG_LEVEL = "verbose";
+    expect(() => getConfig()).toThrow(
+      'Invalid value for LOG_LEVEL: "verbose" (expected debug, info, warn, error, silent)'
+    );
+  });
+
+  it("should read the serve settings", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.SERVE_PORT;
+    delete process.env.SERVE_HOST;
+    delete process.env.SYNC_SCHEDULE;
+    delete process.env.WEBHOOK_SECRET;
+    delete process.env.WEBHOOK_DEBOUNCE_MS;
+
+    expect(getConfig().serve).toEqual({
+      port: 8080,
+      host: "127.0.0.1",
+      schedule: undefined,
+      webhookSecret: undefined,
+      webhookDebounceMs: 5000,
+    });
+    expect(getConfig({ serve: { schedule: "0 * * * *" } }).serve.schedule).toBe("0 * * * *");
+
+    process.env.SERVE_PORT = "3000";
+    process.env.SERVE_HOST = "127.0.0.1";
+    process.env.SYNC_SCHEDULE = "15m";
+    expect(getConfig({ serve: { port: 9000, schedule: "1h" } }).serve).toEqual({
+      port: 3000,
+      host: "127.0.0.1",
+      schedule: "15m",
+      webhookSecret: undefined,
+      webhookDebounceMs: 5000,
+    });
+
+    process.env.SERVE_PORT = "http";
+    expect(() => getConfig()).toThrow("Invalid value for SERVE_PORT");
+  });
+
+  it("should read the webhook settings", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.WEBHOOK_SECRET;
+    delete process.env.WEBHOOK_DEBOUNCE_MS;
+
+    const fromFile = getConfig({ serve: { webhookSecret: "file-secret", webhookDebounceMs: 0 } });
+    expect(fromFile.serve.webhookSecret).toBe("file-secret");
+    expect(fromFile.serve.webhookDebounceMs).toBe(0);
+
+    process.env.WEBHOOK_SECRET = "env-secret";
+    process.env.WEBHOOK_DEBOUNCE_MS = "10000";
+    const fromEnv = getConfig({ serve: { webhookSecret: "file-secret" } });
+    expect(fromEnv.serve.webhookSecret).toBe("env-secret");
+    expect(fromEnv.serve.webhookDebounceMs).toBe(10000);
+
+    process.env.WEBHOOK_DEBOUNCE_MS = "soon";
+    expect(() => getConfig()).toThrow("Invalid value for WEBHOOK_DEBOUNCE_MS");
+  });
+
+  it("should fall back to the config file, with env vars taking precedence", () => {
+    delete process.env.DOCSIE_API_KEY;
+    delete process.env.MAVEN_KNOWLEDGE_BASE_ID;
+    delete process.env.SYNC_BATCH_SIZE;
+    delete process.env.DOCSIE_TAGS;
+    delete process.env.SYNC_VERSIONS;
+    delete process.env.RETRY_MAX_ATTEMPTS;
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    process.env.DOCSIE_BOOK_IDS = "boo_env";
+    process.env.RETRY_MAX_DELAY_MS = "5000";
+    process.env.MAVEN_KNOWLEDGE_BASE_NAME = "Help Center";
+    process.env.MAVENAGI_APP_ID = "env-app";
+    delete process.env.MAVENAGI_APP_SECRET;
+
+    const config = getConfig({
+      docsie: { apiKey: "file-key" },
+      maven: {
+        apiKey: "file-maven-key",
+        appId: "file-app",
+        appSecret: "file-secret",
+        knowledgeBaseId: "kb-file",
+        knowledgeBaseName: "Docs",
+      },
+      sync: {
+        scope: { bookIds: ["boo_file"], tags: ["public"] },
+        upload: { chunkSize: 10 },
+        versions: ["2.0"],
+      },
+      retry: { maxRetries: 4, maxDelayMs: 1000 },
+    });
+
+    expect(config.docsie.apiKey).toBe("file-key");
+    expect(config.maven.apiKey).toBe("maven-key");
+    expect(config.maven.appId).toBe("env-app");
+    expect(config.maven.appSecret).toBe("file-secret");
+    expect(config.maven.knowledgeBaseId).toBe("kb-file");
+    expect(config.maven.knowledgeBaseName).toBe("Help Center");
+    expect(config.sync.scope).toEqual({ bookIds: ["boo_env"], tags: ["public"] });
+    expect(config.sync.upload.chunkSize).toBe(10);
+    expect(config.sync.versions).toEqual({ policy: "pinned", pinned: ["2.0"] });
+    expect(config.retry).toEqual({ maxRetries: 4, maxDelayMs: 5000 });
+  });
+
+  it("should default the knowledge base ID and leave retries to each client", () => {
+    process.env.DOCSIE_API_KEY = "docsie-key";
+    process.env.MAVEN_ORGANIZATION_ID = "org-123";
+    process.env.MAVEN_AGENT_ID = "agent-456";
+    process.env.MAVEN_API_KEY = "maven-key";
+    delete process.env.MAVEN_KNOWLEDGE_BASE_ID;
+    delete process.env.MAVEN_KNOWLEDGE_BASE_NAME;
+    delete process.env.RETRY_MAX_ATTEMPTS;
+    delete process.env.RETRY_INITIAL_DELAY_MS;
+    delete process.env.RETRY_BACKOFF_MULTIPLIER;
+    delete process.env.RETRY_MAX_DELAY_MS;
+
+    const config = getConfig();
+
+    expect(config.maven.knowledgeBaseId).toBe("docsie-kb");
+    expect(config.maven.knowledgeBaseName).toBe("Docsie");
+    expect(config.retry).toEqual({});
+  });
+
   it("should throw when required env vars are missing", () => {
     delete process.env.DOCSIE_API_KEY;
 
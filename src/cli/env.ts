@@ -1,17 +1,48 @@
 /**
  * Environment Configuration
  *
- * Validates and provides typed access to environment variables.
+ * Validates and provides typed access to environment variables. Settings
+ * missing from the environment fall back to the config file (see config.ts),
+ * then to defaults.
  */
 
-const REQUIRED_ENV_VARS = [
-  "DOCSIE_API_KEY",
-  "MAVEN_ORGANIZATION_ID",
-  "MAVEN_AGENT_ID",
-  "MAVEN_API_KEY",
-] as const;
+import type { ChunkOptions } from "../maven/chunk.js";
+import type { UploadLimits } from "../maven/uploader.js";
+import { ValidationError } from "../utils/errors.js";
+import type { SyncScope } from "../sync/scope.js";
+import type { UrlOptions } from "../docsie/urls.js";
+import type { LanguageOptions } from "../sync/languages.js";
+import { DEFAULT_VERSION_OPTIONS, type VersionOptions } from "../sync/versions.js";
+import type { RetryPolicy } from "../utils/retry.js";
+import { LOG_FORMATS, LOG_LEVELS, type LogFormat, type LogLevel } from "../utils/logger.js";
+import type { ConfigFile } from "./config.js";
+import type { Profile } from "./profiles.js";
 
-const DEFAULT_DOCSIE_BASE_URL = "https://app.docsie.io/api_v2/003";
+type SettingsSource = Pick<ConfigFile, "docsie" | "maven">;
+
+/**
+ * Required environment variables → the same setting in the config file
+ * (Maven settings other than the API key may instead be given by every profile)
+ */
+const REQUIRED_ENV_VARS = {
+  DOCSIE_API_KEY: (source: SettingsSource) => source.docsie?.apiKey,
+  MAVEN_ORGANIZATION_ID: (source: SettingsSource) => source.maven?.organizationId,
+  MAVEN_AGENT_ID: (source: SettingsSource) => source.maven?.agentId,
+  MAVEN_API_KEY: (source: SettingsSource) => source.maven?.apiKey,
+};
+
+/** Defaults of optional settings (also used for Maven App installs, see app/settings.ts) */
+export const DEFAULT_DOCSIE_BASE_URL = "https://app.docsie.io/api_v2/003";
+export const DEFAULT_KNOWLEDGE_BASE_ID = "docsie-kb";
+export const DEFAULT_KNOWLEDGE_BASE_NAME = "Docsie";
+export const DEFAULT_SYNC_STATE_FILE = ".docsie-sync-state.json";
+export const DEFAULT_CHECKPOINT_FILE = ".docsie-sync-checkpoint.json";
+export const DEFAULT_MAX_DELETE_PERCENT = 20;
+export const DEFAULT_BATCH_SIZE = 50;
+export const DEFAULT_RATE_LIMIT_CONCURRENT = 5;
+export const DEFAULT_SERVE_PORT = 8080;
+export const DEFAULT_SERVE_HOST = "127.0.0.1";
+export const DEFAULT_WEBHOOK_DEBOUNCE_MS = 5000;
 
 export interface EnvValidationResult {
   valid: boolean;
@@ -27,21 +58,81 @@ export interface MavenConfig {
   organizationId: string;
   agentId: string;
   apiKey: string;
+  /** Maven App credentials (the client falls back to MAVENAGI_APP_ID / MAVENAGI_APP_SECRET) */
+  appId?: string;
+  appSecret?: string;
+  /** Knowledge base synced into (languages may be routed elsewhere) */
+  knowledgeBaseId: string;
+  /** Display name the knowledge base is created (or renamed) with */
+  knowledgeBaseName: string;
+}
+
+export interface SyncSettings {
+  /** Path of the JSON file tracking what was last uploaded per article */
+  stateFile: string;
+  /** Path of the JSON file recording upload progress for `sync --resume` */
+  checkpointFile: string;
+  /** Abort if more than this percentage of synced articles would be deleted */
+  maxDeletePercent: number;
+  /** Which part of the Docsie account to sync */
+  scope: SyncScope;
+  /** How articles are split into Maven documents */
+  chunking: ChunkOptions;
+  /** How public article URLs are built */
+  urls: UrlOptions;
+  /** Multi-language sync and per-language knowledge bases */
+  languages: LanguageOptions;
+  /** Which versions of each book are synced */
+  versions: VersionOptions;
+  /** Batch size and rate limit of Maven writes */
+  upload: UploadLimits;
+}
+
+export interface LoggingConfig {
+  /** Least severe level logged: debug, info, warn, error or silent */
+  level: LogLevel;
+  /** "text" for people, "json" for JSON lines with context fields */
+  format: LogFormat;
+}
+
+/** Settings of the `serve` daemon */
+export interface ServeConfig {
+  port: number;
+  host: string;
+  /** Interval ("15m") or cron expression; syncs only run on demand if unset */
+  schedule?: string;
+  /** Shared secret for Docsie webhooks; the webhook endpoint is off if unset */
+  webhookSecret?: string;
+  /** Quiet period before webhook changes are synced */
+  webhookDebounceMs: number;
 }
 
 export interface Config {
   docsie: DocsieConfig;
   maven: MavenConfig;
+  sync: SyncSettings;
+  /** Retry policy for Docsie and Maven calls (each client's defaults if unset) */
+  retry: RetryPolicy;
+  logging: LoggingConfig;
+  serve: ServeConfig;
+  /** Named profiles from the config file (see profiles.ts) */
+  profiles: Record<string, Profile>;
+  /** Name of the profile applied to this config, if any */
+  profile?: string;
 }
 
 /**
- * Validate that all required environment variables are set
+ * Validate that all required environment variables are set (or given in
+ * the config file)
  */
-export function validateEnv(): EnvValidationResult {
+export function validateEnv(file: ConfigFile = {}): EnvValidationResult {
   const missing: string[] = [];
 
-  for (const envVar of REQUIRED_ENV_VARS) {
-    if (!process.env[envVar]) {
+  const profiles = Object.values(file.profiles ?? {});
+
+  for (const [envVar, fromFile] of Object.entries(REQUIRED_ENV_VARS)) {
+    const inProfiles = profiles.length > 0 && profiles.every((profile) => fromFile(profile));
+    if (!process.env[envVar] && !fromFile(file) && !inProfiles) {
       missing.push(envVar);
     }
   }
@@ -53,28 +144,319 @@ export function validateEnv(): EnvValidationResult {
 }
 
 /**
- * Get typed configuration from environment variables
+ * Get typed configuration from environment variables, falling back to the
+ * config file (read from `filePath`, named in errors) and then to defaults
  *
- * @throws Error if required variables are missing
+ * @throws ValidationError if required variables are missing or invalid
  */
-export function getConfig(): Config {
-  const validation = validateEnv();
+export function getConfig(file: ConfigFile = {}, filePath?: string): Config {
+  const validation = validateEnv(file);
+  const inFile = (setting: string) => `${setting} in ${filePath ?? "the config file"}`;
 
   if (!validation.valid) {
-    throw new Error(
+    throw new ValidationError(
       `Missing required environment variables: ${validation.missing.join(", ")}`
     );
   }
 
+  const sync = file.sync ?? {};
+
   return {
     docsie: {
-      apiKey: process.env.DOCSIE_API_KEY!,
-      baseUrl: process.env.DOCSIE_BASE_URL ?? DEFAULT_DOCSIE_BASE_URL,
+      apiKey: process.env.DOCSIE_API_KEY || file.docsie!.apiKey!,
+      baseUrl:
+        process.env.DOCSIE_BASE_URL ?? file.docsie?.baseUrl ?? DEFAULT_DOCSIE_BASE_URL,
     },
     maven: {
-      organizationId: process.env.MAVEN_ORGANIZATION_ID!,
-      agentId: process.env.MAVEN_AGENT_ID!,
-      apiKey: process.env.MAVEN_API_KEY!,
+      // May be left to the profiles when every profile sets them
+      organizationId: process.env.MAVEN_ORGANIZATION_ID || file.maven?.organizationId || "",
+      agentId: process.env.MAVEN_AGENT_ID || file.maven?.agentId || "",
+      apiKey: process.env.MAVEN_API_KEY || file.maven?.apiKey || "",
+      appId: process.env.MAVENAGI_APP_ID || file.maven?.appId,
+      appSecret: process.env.MAVENAGI_APP_SECRET || file.maven?.appSecret,
+      knowledgeBaseId:
+        process.env.MAVEN_KNOWLEDGE_BASE_ID ||
+        file.maven?.knowledgeBaseId ||
+        DEFAULT_KNOWLEDGE_BASE_ID,
+      knowledgeBaseName:
+        process.env.MAVEN_KNOWLEDGE_BASE_NAME ||
+        file.maven?.knowledgeBaseName ||
+        DEFAULT_KNOWLEDGE_BASE_NAME,
+    },
+    sync: {
+      stateFile: process.env.SYNC_STATE_FILE || sync.stateFile || DEFAULT_SYNC_STATE_FILE,
+      checkpointFile:
+        process.env.SYNC_CHECKPOINT_FILE || sync.checkpointFile || DEFAULT_CHECKPOINT_FILE,
+      maxDeletePercent: parseNumberEnv(
+        "SYNC_MAX_DELETE_PERCENT",
+        sync.maxDeletePercent ?? DEFAULT_MAX_DELETE_PERCENT
+      ),
+      scope: getScopeFromEnv(sync.scope),
+      chunking: {
+        splitSections: parseBooleanEnv(
+          "SYNC_SPLIT_SECTIONS",
+          sync.chunking?.splitSections ?? false
+        ),
+        maxChunkChars: parseNumberEnv("SYNC_MAX_CHUNK_CHARS", sync.chunking?.maxChunkChars ?? 0),
+      },
+      urls: {
+        template: process.env.DOCSIE_URL_TEMPLATE || sync.urls?.template || undefined,
+        baseUrl: process.env.DOCSIE_PORTAL_BASE_URL || sync.urls?.baseUrl || undefined,
+      },
+      languages: getLanguagesFromEnv(sync.languages),
+      versions: parseVersionsEnv("SYNC_VERSIONS", sync.versions),
+      upload: {
+        chunkSize: parsePositiveIntEnv(
+          "SYNC_BATCH_SIZE",
+          sync.upload?.chunkSize ?? DEFAULT_BATCH_SIZE,
+          inFile("sync.upload.chunkSize")
+        ),
+        maxConcurrent: parsePositiveIntEnv(
+          "RATE_LIMIT_CONCURRENT",
+          sync.upload?.maxConcurrent ?? DEFAULT_RATE_LIMIT_CONCURRENT,
+          inFile("sync.upload.maxConcurrent")
+        ),
+        minTime: parseNumberEnv("RATE_LIMIT_DELAY_MS", sync.upload?.minTime ?? 0),
+      },
     },
+    retry: getRetryFromEnv(file.retry),
+    logging: {
+      level: parseChoiceEnv("LOG_LEVEL", LOG_LEVELS, file.logging?.level ?? "info"),
+      format: parseChoiceEnv("LOG_FORMAT", LOG_FORMATS, file.logging?.format ?? "text"),
+    },
+    serve: {
+      port: parsePositiveIntEnv(
+        "SERVE_PORT",
+        file.serve?.port ?? DEFAULT_SERVE_PORT,
+        inFile("serve.port")
+      ),
+      host: process.env.SERVE_HOST || file.serve?.host || DEFAULT_SERVE_HOST,
+      schedule: process.env.SYNC_SCHEDULE || file.serve?.schedule || undefined,
+      webhookSecret: process.env.WEBHOOK_SECRET || file.serve?.webhookSecret || undefined,
+      webhookDebounceMs: parseNumberEnv(
+        "WEBHOOK_DEBOUNCE_MS",
+        file.serve?.webhookDebounceMs ?? DEFAULT_WEBHOOK_DEBOUNCE_MS
+      ),
+    },
+    profiles: file.profiles ?? {},
+  };
+}
+
+/**
+ * Read multi-language settings; mapping languages to knowledge bases
+ * implies multi-language mode
+ */
+function getLanguagesFromEnv(
+  file?: NonNullable<ConfigFile["sync"]>["languages"]
+): LanguageOptions {
+  const fromEnv = parseMapEnv("MAVEN_LANGUAGE_KNOWLEDGE_BASES");
+  const knowledgeBases =
+    Object.keys(fromEnv).length > 0 ? fromEnv : { ...file?.knowledgeBases };
+  return {
+    enabled:
+      parseBooleanEnv("SYNC_ALL_LANGUAGES", file?.enabled ?? false) ||
+      Object.keys(knowledgeBases).length > 0,
+    knowledgeBases,
   };
 }
+
+/**
+ * Read sync scope filters from comma-separated environment variables; each
+ * filter set in the environment replaces the config file's
+ */
+function getScopeFromEnv(file: SyncScope = {}): SyncScope {
+  const scope: SyncScope = {
+    workspaceIds: parseListEnv("DOCSIE_WORKSPACE_IDS") ?? file.workspaceIds,
+    excludeWorkspaceIds:
+      parseListEnv("DOCSIE_EXCLUDE_WORKSPACE_IDS") ?? file.excludeWorkspaceIds,
+    documentationIds: parseListEnv("DOCSIE_DOCUMENTATION_IDS") ?? file.documentationIds,
+    excludeDocumentationIds:
+      parseListEnv("DOCSIE_EXCLUDE_DOCUMENTATION_IDS") ?? file.excludeDocumentationIds,
+    bookIds: parseListEnv("DOCSIE_BOOK_IDS") ?? file.bookIds,
+    excludeBookIds: parseListEnv("DOCSIE_EXCLUDE_BOOK_IDS") ?? file.excludeBookIds,
+    tags: parseListEnv("DOCSIE_TAGS") ?? file.tags,
+    excludeTags: parseListEnv("DOCSIE_EXCLUDE_TAGS") ?? file.excludeTags,
+    languages: parseListEnv("DOCSIE_LANGUAGES") ?? file.languages,
+    excludeLanguages: parseListEnv("DOCSIE_EXCLUDE_LANGUAGES") ?? file.excludeLanguages,
+  };
+
+  // Drop unset filters so the scope only lists what was configured
+  return Object.fromEntries(
+    Object.entries(scope).filter(([, value]) => value !== undefined)
+  ) as SyncScope;
+}
+
+/**
+ * Read the retry policy; only settings given in the environment or config
+ * file are included, so each client keeps its own defaults for the rest
+ */
+function getRetryFromEnv(file: RetryPolicy = {}): RetryPolicy {
+  const retry: RetryPolicy = { ...file };
+
+  if (process.env.RETRY_MAX_ATTEMPTS) {
+    retry.maxRetries = parsePositiveIntEnv("RETRY_MAX_ATTEMPTS", 1);
+  }
+  if (process.env.RETRY_INITIAL_DELAY_MS) {
+    retry.initialDelayMs = parseNumberEnv("RETRY_INITIAL_DELAY_MS", 0);
+  }
+  if (process.env.RETRY_BACKOFF_MULTIPLIER) {
+    retry.backoffMultiplier = parseNumberEnv("RETRY_BACKOFF_MULTIPLIER", 0);
+  }
+  if (process.env.RETRY_MAX_DELAY_MS) {
+    retry.maxDelayMs = parseNumberEnv("RETRY_MAX_DELAY_MS", 0);
+  }
+
+  return retry;
+}
+
+/**
+ * Split a comma-separated list, ignoring blanks
+ */
+export function parseList(raw: string): string[] {
+  return raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function parseListEnv(name: string): string[] | undefined {
+  const raw = process.env[name];
+  if (!raw) {
+    return undefined;
+  }
+  const list = parseList(raw);
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Read a version policy: "primary", "active", or a comma-separated list of
+ * pinned version numbers, names or IDs (the config file may also give a list)
+ */
+function parseVersionsEnv(name: string, fromFile?: string | string[]): VersionOptions {
+  return parseVersions(name, process.env[name]?.trim() || fromFile);
+}
+
+/**
+ * Parse a version policy given as `name` (see parseVersionsEnv)
+ *
+ * @throws ValidationError if a list is expected but empty
+ */
+export function parseVersions(name: string, value: string | string[] | undefined): VersionOptions {
+  const raw = Array.isArray(value) ? value.join(",") : value?.trim();
+  if (!raw) {
+    return DEFAULT_VERSION_OPTIONS;
+  }
+  if (raw === "primary" || raw === "active") {
+    return { policy: raw };
+  }
+  const pinned = parseList(raw);
+  if (pinned.length === 0) {
+    throw new ValidationError(
+      `Invalid value for ${name}: "${raw}" (expected primary, active or a list of versions)`
+    );
+  }
+  return { policy: "pinned", pinned };
+}
+
+/**
+ * Read a comma-separated list of `key=value` pairs (e.g. "fr=kb-fr,de=kb-de")
+ *
+ * @throws ValidationError if an entry has no key or value
+ */
+function parseMapEnv(name: string): Record<string, string> {
+  const map: Record<string, string> = {};
+
+  for (const entry of parseList(process.env[name] ?? "")) {
+    const separator = entry.indexOf("=");
+    const key = entry.slice(0, separator).trim();
+    const value = entry.slice(separator + 1).trim();
+    if (separator < 0 || !key || !value) {
+      throw new ValidationError(
+        `Invalid value for ${name}: "${entry}" (expected key=value pairs)`
+      );
+    }
+    map[key] = value;
+  }
+
+  return map;
+}
+
+/**
+ * Read a numeric environment variable, falling back to a default when unset
+ *
+ * @throws ValidationError if the variable is set but not a non-negative number
+ */
+function parseNumberEnv(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new ValidationError(
+      `Invalid value for ${name}: "${raw}" (expected a non-negative number)`
+    );
+  }
+  return value;
+}
+
+/**
+ * Read a count (batch size, concurrency), falling back to a default when unset
+ *
+ * @param defaultSource Where the default comes from (e.g. a config file
+ *   setting), named when the default is invalid
+ * @throws ValidationError if the variable (or default) is not a positive integer
+ */
+function parsePositiveIntEnv(
+  name: string,
+  defaultValue: number,
+  defaultSource: string = "the default"
+): number {
+  const value = parseNumberEnv(name, defaultValue);
+  if (!Number.isInteger(value) || value < 1) {
+    const raw = process.env[name];
+    const source = raw ? `"${raw}"` : `${value} from ${defaultSource}`;
+    throw new ValidationError(
+      `Invalid value for ${name}: ${source} (expected a positive integer)`
+    );
+  }
+  return value;
+}
+
+/**
+ * Read one of a fixed set of values (case-insensitive), falling back to a
+ * default (e.g. from the config file) when unset
+ *
+ * @throws ValidationError if the value is not one of the choices
+ */
+function parseChoiceEnv<T extends string>(name: string, choices: T[], defaultValue: T): T {
+  const raw = (process.env[name] || defaultValue).trim().toLowerCase();
+  if (!choices.includes(raw as T)) {
+    throw new ValidationError(
+      `Invalid value for ${name}: "${raw}" (expected ${choices.join(", ")})`
+    );
+  }
+  return raw as T;
+}
+
+/**
+ * Read a boolean environment variable ("true"/"false", "1"/"0", "yes"/"no")
+ *
+ * @throws ValidationError if the variable is set to anything else
+ */
+function parseBooleanEnv(name: string, defaultValue: boolean): boolean {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return defaultValue;
+  }
+
+  const normalized = raw.trim().toLowerCase();
+  if (["true", "1", "yes"].includes(normalized)) {
+    return true;
+  }
+  if (["false", "0", "no"].includes(normalized)) {
+    return false;
+  }
+  throw new ValidationError(`Invalid value for ${name}: "${raw}" (expected true or false)`);
+}
@@ -1,5 +1,41 @@
-export { validateEnv, getConfig } from "./env.js";
-export type { Config, DocsieConfig, MavenConfig, EnvValidationResult } from "./env.js";
+export { validateEnv, getConfig, parseList, parseVersions } from "./env.js";
+export type {
+  Config,
+  DocsieConfig,
+  MavenConfig,
+  SyncSettings,
+  LoggingConfig,
+  ServeConfig,
+  EnvValidationResult,
+} from "./env.js";
 
-export { runSync, runValidate } from "./run.js";
-export type { RunResult } from "./run.js";
+export {
+  loadConfigFile,
+  parseConfigFile,
+  formatConfig,
+  CONFIG_FILE_NAMES,
+  CONFIG_FILE_ENV_VAR,
+} from "./config.js";
+export type { ConfigFile, LoadedConfigFile } from "./config.js";
+
+export { selectProfiles, applyProfile, runProfiles } from "./profiles.js";
+export type { Profile, ProfileRunResult } from "./profiles.js";
+
+export {
+  buildReport,
+  formatReport,
+  writeReport,
+  defaultReportFile,
+  reportFormatFor,
+  REPORT_FORMATS,
+} from "./report.js";
+export type { ReportFormat, SyncReport, ReportSummary, ReportContext } from "./report.js";
+
+export { parseCliArgs, applyCliArgs, USAGE } from "./args.js";
+export type { CliArgs } from "./args.js";
+
+export { runSync, runValidate, mergeSyncResults } from "./run.js";
+export type { RunResult, RunSyncOptions, RunValidateOptions } from "./run.js";
+
+export { formatPlan, summarizePlan, writePlanFile } from "./plan.js";
+export type { PlanFile } from "./plan.js";
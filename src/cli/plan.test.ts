@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { formatPlan, summarizePlan } from "./plan.js";
+import type { SyncPlanEntry } from "../sync/sync.js";
+
+const plan: SyncPlanEntry[] = [
+  { articleId: "a1", referenceId: "a1", action: "create", title: "New", contentLength: 120 },
+  { articleId: "a2", referenceId: "a2", action: "update", title: "Edited", contentLength: 80 },
+  {
+    articleId: "a3",
+    referenceId: "a3",
+    action: "skip",
+    title: "Empty",
+    contentLength: 0,
+    reason: "no content",
+  },
+  {
+    articleId: "a4",
+    referenceId: "a4",
+    action: "delete",
+    title: "",
+    contentLength: 0,
+    reason: "article deleted in Docsie or out of scope",
+  },
+];
+
+describe("summarizePlan", () => {
+  it("should count entries per action", () => {
+    expect(summarizePlan(plan)).toEqual({
+      create: 1,
+      update: 1,
+      delete: 1,
+      unchanged: 0,
+      skip: 1,
+    });
+  });
+});
+
+describe("formatPlan", () => {
+  it("should group entries by action with lengths and reasons", () => {
+    expect(formatPlan(plan)).toEqual([
+      "CREATE (1):",
+      "  a1  New - 120 chars",
+      "UPDATE (1):",
+      "  a2  Edited - 80 chars",
+      "DELETE (1):",
+      "  a4  (untitled) - article deleted in Docsie or out of scope",
+      "SKIP (1):",
+      "  a3  Empty - no content",
+    ]);
+  });
+
+  it("should return no lines for an empty plan", () => {
+    expect(formatPlan([])).toEqual([]);
+  });
+});
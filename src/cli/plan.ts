@@ -0,0 +1,76 @@
+/**
+ * Sync Plan Output
+ *
+ * Prints and writes the per-article plan produced by DocsieSync,
+ * used by `sync --dry-run` to preview a run before it writes anything.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { SyncAction, SyncPlanEntry, SyncResult } from "../sync/sync.js";
+
+export interface PlanFile {
+  generatedAt: string;
+  knowledgeBaseId: string;
+  dryRun: boolean;
+  summary: Record<SyncAction, number>;
+  entries: SyncPlanEntry[];
+}
+
+const ACTIONS: SyncAction[] = ["create", "update", "delete", "unchanged", "skip"];
+
+/**
+ * Count plan entries per action
+ */
+export function summarizePlan(plan: SyncPlanEntry[]): Record<SyncAction, number> {
+  const summary = Object.fromEntries(ACTIONS.map((a) => [a, 0])) as Record<
+    SyncAction,
+    number
+  >;
+  for (const entry of plan) {
+    summary[entry.action]++;
+  }
+  return summary;
+}
+
+/**
+ * Render the plan as human-readable lines, grouped by action
+ */
+export function formatPlan(plan: SyncPlanEntry[]): string[] {
+  const lines: string[] = [];
+
+  for (const action of ACTIONS) {
+    const entries = plan.filter((e) => e.action === action);
+    if (entries.length === 0) {
+      continue;
+    }
+
+    lines.push(`${action.toUpperCase()} (${entries.length}):`);
+    for (const entry of entries) {
+      const details = entry.reason ?? `${entry.contentLength} chars`;
+      lines.push(`  ${entry.referenceId}  ${entry.title || "(untitled)"} - ${details}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Write the plan as JSON
+ */
+export async function writePlanFile(
+  filePath: string,
+  result: SyncResult,
+  knowledgeBaseId: string
+): Promise<void> {
+  const data: PlanFile = {
+    generatedAt: new Date().toISOString(),
+    knowledgeBaseId,
+    dryRun: result.dryRun,
+    summary: summarizePlan(result.plan),
+    entries: result.plan,
+  };
+
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(data, null, 2) + "\n", "utf8");
+}
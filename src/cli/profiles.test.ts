@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { applyProfile, runProfiles, selectProfiles } from "./profiles.js";
+import type { Config } from "./env.js";
+import type { RunResult } from "./run.js";
+
+describe("profiles", () => {
+  const config: Config = {
+    docsie: { apiKey: "k", baseUrl: "https://app.docsie.io/api_v2/003" },
+    maven: {
+      organizationId: "org",
+      agentId: "agent",
+      apiKey: "m",
+      knowledgeBaseId: "docsie-kb",
+      knowledgeBaseName: "Docsie",
+    },
+    sync: {
+      stateFile: ".docsie-sync-state.json",
+      checkpointFile: ".docsie-sync-checkpoint.json",
+      maxDeletePercent: 20,
+      scope: { excludeTags: ["draft"], bookIds: ["boo_all"] },
+      chunking: {},
+      urls: {},
+      languages: { enabled: false, knowledgeBases: {} },
+      versions: { policy: "primary" as const },
+      upload: {},
+    },
+    retry: {},
+    logging: { level: "info", format: "text" },
+    serve: { port: 8080, host: "0.0.0.0", webhookDebounceMs: 5000 },
+    profiles: {
+      support: {
+        maven: {
+          agentId: "support-agent",
+          knowledgeBaseId: "kb-support",
+          appId: "support-app",
+          appSecret: "support-secret",
+        },
+        sync: { scope: { bookIds: ["boo_help"] } },
+      },
+      sales: {
+        maven: { organizationId: "sales-org", knowledgeBaseId: "kb-sales" },
+        sync: { stateFile: "sales-state.json" },
+      },
+    },
+  };
+
+  const syncResult = (uploaded: number, failed: number) => ({
+    workspaces: 1,
+    articles: uploaded + failed,
+    uploaded,
+    failed,
+    skipped: 0,
+    unchanged: 0,
+    deleted: 0,
+    errors: [],
+    durationMs: 10,
+    dryRun: false,
+    plan: [],
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  describe("selectProfiles", () => {
+    it("should return the requested profiles", () => {
+      expect(selectProfiles(config, ["sales"], false)).toEqual(["sales"]);
+      expect(selectProfiles(config, [], false)).toEqual([]);
+    });
+
+    it("should return every profile for --all-profiles", () => {
+      expect(selectProfiles(config, [], true)).toEqual(["support", "sales"]);
+    });
+
+    it("should reject unknown profiles", () => {
+      expect(() => selectProfiles(config, ["marketing"], false)).toThrow(
+        'Unknown profile "marketing" (available: support, sales)'
+      );
+    });
+
+    it("should reject --all-profiles without profiles", () => {
+      expect(() => selectProfiles({ ...config, profiles: {} }, [], true)).toThrow(
+        "No profiles configured"
+      );
+    });
+  });
+
+  describe("applyProfile", () => {
+    it("should override Maven settings and scope filters", () => {
+      const support = applyProfile(config, "support");
+
+      expect(support.profile).toBe("support");
+      expect(support.maven).toEqual({
+        organizationId: "org",
+        agentId: "support-agent",
+        apiKey: "m",
+        appId: "support-app",
+        appSecret: "support-secret",
+        knowledgeBaseId: "kb-support",
+        knowledgeBaseName: "Docsie",
+      });
+      expect(support.sync.scope).toEqual({ excludeTags: ["draft"], bookIds: ["boo_help"] });
+    });
+
+    it("should keep separate state and checkpoint files per profile", () => {
+      const support = applyProfile(config, "support");
+      const sales = applyProfile(config, "sales");
+
+      expect(support.sync.stateFile).toBe(".docsie-sync-state.support.json");
+      expect(support.sync.checkpointFile).toBe(".docsie-sync-checkpoint.support.json");
+      expect(sales.sync.stateFile).toBe("sales-state.json");
+    });
+  });
+
+  describe("runProfiles", () => {
+    it("should run every profile and combine the results", async () => {
+      const run = vi.fn(
+        async (profileConfig: Config): Promise<RunResult> => ({
+          success: true,
+          exitCode: 0,
+          syncResult: syncResult(profileConfig.profile === "support" ? 3 : 2, 0),
+        })
+      );
+
+      const result = await runProfiles(
+        [applyProfile(config, "support"), applyProfile(config, "sales")],
+        run
+      );
+
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(result.success).toBe(true);
+      expect(result.syncResult?.uploaded).toBe(5);
+      expect(result.profiles?.map((profile) => profile.profile)).toEqual(["support", "sales"]);
+      expect(console.log).toHaveBeenCalledWith(
+        "support: OK (3 uploaded, 0 unchanged, 0 deleted, 0 failed)"
+      );
+    });
+
+    it("should keep going after a failed profile and report it", async () => {
+      const run = vi
+        .fn<(profileConfig: Config) => Promise<RunResult>>()
+        .mockResolvedValueOnce({ success: false, exitCode: 3, error: "Unauthorized" })
+        .mockResolvedValueOnce({ success: true, exitCode: 0, syncResult: syncResult(2, 0) });
+
+      const result = await runProfiles(
+        [applyProfile(config, "support"), applyProfile(config, "sales")],
+        run
+      );
+
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(3);
+      expect(result.error).toBe("Profile support failed: Unauthorized");
+      expect(console.log).toHaveBeenCalledWith("support: FAILED (Unauthorized)");
+    });
+  });
+});
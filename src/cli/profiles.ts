@@ -0,0 +1,149 @@
+/**
+ * Sync Profiles
+ *
+ * A profile maps part of the Docsie organization to a Maven agent and
+ * knowledge base (e.g. "support", "sales", "internal"). Profiles are defined
+ * in the config file; each overrides the Maven settings and scope of the base
+ * config and keeps its own sync state and checkpoint files.
+ */
+
+import { suffixFile } from "../sync/state.js";
+import type { SyncScope } from "../sync/scope.js";
+import { ValidationError } from "../utils/errors.js";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import type { Config, MavenConfig } from "./env.js";
+import { mergeSyncResults, type RunResult } from "./run.js";
+
+export interface Profile {
+  /** Maven organization, agent, app credentials and knowledge base of the profile */
+  maven?: Partial<Omit<MavenConfig, "apiKey">>;
+  sync?: {
+    /** Default: the base state file suffixed with the profile name */
+    stateFile?: string;
+    /** Default: the base checkpoint file suffixed with the profile name */
+    checkpointFile?: string;
+    /** Docsie filters, replacing the base config's filters they set */
+    scope?: SyncScope;
+  };
+}
+
+export interface ProfileRunResult {
+  profile: string;
+  knowledgeBaseId: string;
+  result: RunResult;
+}
+
+/**
+ * Names of the profiles to run: the requested ones, or all of them
+ *
+ * @throws ValidationError for unknown profiles or when none are configured
+ */
+export function selectProfiles(config: Config, names: string[], all: boolean): string[] {
+  const available = Object.keys(config.profiles);
+
+  if (all) {
+    if (available.length === 0) {
+      throw new ValidationError(
+        "No profiles configured (add them under `profiles` in the config file)"
+      );
+    }
+    return available;
+  }
+
+  for (const name of names) {
+    if (!config.profiles[name]) {
+      throw new ValidationError(
+        `Unknown profile "${name}" (available: ${available.join(", ") || "none"})`
+      );
+    }
+  }
+  return names;
+}
+
+/**
+ * Config for one profile: the base config with the profile's overrides
+ */
+export function applyProfile(config: Config, name: string): Config {
+  const profile = config.profiles[name];
+  if (!profile) {
+    throw new ValidationError(`Unknown profile "${name}"`);
+  }
+
+  return {
+    ...config,
+    profile: name,
+    maven: { ...config.maven, ...profile.maven },
+    sync: {
+      ...config.sync,
+      stateFile: profile.sync?.stateFile ?? suffixFile(config.sync.stateFile, name),
+      checkpointFile:
+        profile.sync?.checkpointFile ?? suffixFile(config.sync.checkpointFile, name),
+      scope: { ...config.sync.scope, ...profile.sync?.scope },
+    },
+  };
+}
+
+/**
+ * Run a command for each profile config in turn and print a combined report
+ *
+ * A failing profile does not stop the others. The combined result fails
+ * with the exit code of the first failed profile. Each run gets a logger
+ * tagging its records with the profile name.
+ */
+export async function runProfiles(
+  configs: Config[],
+  run: (config: Config, logger: Logger) => Promise<RunResult>,
+  logger: Logger = defaultLogger
+): Promise<RunResult> {
+  const results: ProfileRunResult[] = [];
+
+  for (const config of configs) {
+    const profile = config.profile ?? "default";
+    const profileLogger = logger.child({ profile });
+    profileLogger.info(
+      `\n=== Profile: ${profile} (knowledge base ${config.maven.knowledgeBaseId}) ===\n`
+    );
+    results.push({
+      profile,
+      knowledgeBaseId: config.maven.knowledgeBaseId,
+      result: await run(config, profileLogger),
+    });
+  }
+
+  logger.info("\n=== Profiles ===");
+  for (const { profile, result } of results) {
+    logger.info(`${profile}: ${describeResult(result)}`, {
+      profile,
+      success: result.success,
+      exitCode: result.exitCode,
+    });
+  }
+
+  const failed = results.find(({ result }) => !result.success);
+  const syncResults = results.flatMap(({ result }) =>
+    result.syncResult ? [result.syncResult] : []
+  );
+
+  return {
+    success: !failed,
+    exitCode: failed?.result.exitCode ?? 0,
+    ...(failed && {
+      error: `Profile ${failed.profile} failed: ${failed.result.error ?? "see above"}`,
+      errorCategory: failed.result.errorCategory,
+    }),
+    ...(syncResults.length > 0 && { syncResult: mergeSyncResults(syncResults) }),
+    profiles: results,
+  };
+}
+
+function describeResult(result: RunResult): string {
+  const status = result.success ? "OK" : "FAILED";
+  const sync = result.syncResult;
+  if (sync) {
+    return (
+      `${status} (${sync.uploaded} uploaded, ${sync.unchanged} unchanged, ` +
+      `${sync.deleted} deleted, ${sync.failed} failed)`
+    );
+  }
+  return result.error ? `${status} (${result.error})` : status;
+}
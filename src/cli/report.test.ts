@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildReport, formatReport, reportFormatFor, writeReport } from "./report.js";
+import type { RunResult } from "./run.js";
+import type { SyncResult } from "../sync/sync.js";
+
+describe("sync reports", () => {
+  const generatedAt = "2026-01-01T00:00:00.000Z";
+
+  const syncResult = (overrides: Partial<SyncResult> = {}): SyncResult => ({
+    workspaces: 1,
+    articles: 3,
+    uploaded: 1,
+    failed: 1,
+    skipped: 0,
+    unchanged: 1,
+    deleted: 0,
+    errors: [{ docId: "art_2", error: "Maven 503", category: "server" }],
+    durationMs: 1500,
+    dryRun: false,
+    plan: [
+      {
+        articleId: "art_1",
+        referenceId: "art_1",
+        action: "create",
+        title: "Getting Started",
+        contentLength: 100,
+        status: "succeeded",
+        attempts: 1,
+        durationMs: 250,
+      },
+      {
+        articleId: "art_2",
+        referenceId: "art_2",
+        action: "update",
+        title: "Billing <FAQ> | Pricing",
+        contentLength: 80,
+        status: "failed",
+        attempts: 3,
+        durationMs: 900,
+        error: 'Maven 503: "unavailable"',
+        errorCategory: "server",
+      },
+      {
+        articleId: "art_3",
+        referenceId: "art_3",
+        action: "unchanged",
+        title: "Old News",
+        contentLength: 40,
+        reason: "content unchanged",
+      },
+    ],
+    ...overrides,
+  });
+
+  const result: RunResult = {
+    success: false,
+    exitCode: 2,
+    error: "1 document(s) failed to sync",
+    syncResult: syncResult(),
+  };
+
+  describe("buildReport", () => {
+    it("should summarize the run and include every plan entry", () => {
+      const report = buildReport(result, { knowledgeBaseId: "kb-docs" }, generatedAt);
+
+      expect(report).toMatchObject({
+        generatedAt,
+        success: false,
+        exitCode: 2,
+        knowledgeBaseId: "kb-docs",
+        dryRun: false,
+        summary: {
+          articles: 3,
+          uploaded: 1,
+          failed: 1,
+          unchanged: 1,
+          durationMs: 1500,
+          actions: { create: 1, update: 1, unchanged: 1, delete: 0, skip: 0 },
+        },
+      });
+      expect(report.entries).toHaveLength(3);
+      expect(report.entries[1]).toMatchObject({ attempts: 3, errorCategory: "server" });
+    });
+
+    it("should include a report per profile", () => {
+      const report = buildReport(
+        {
+          ...result,
+          profiles: [
+            { profile: "support", knowledgeBaseId: "kb-support", result },
+            { profile: "sales", knowledgeBaseId: "kb-sales", result: { success: true, exitCode: 0 } },
+          ],
+        },
+        {},
+        generatedAt
+      );
+
+      expect(report.profiles?.map((profile) => [profile.profile, profile.knowledgeBaseId])).toEqual([
+        ["support", "kb-support"],
+        ["sales", "kb-sales"],
+      ]);
+      expect(report.profiles?.[1].entries).toEqual([]);
+    });
+  });
+
+  describe("formatReport", () => {
+    it("should render JUnit XML with a test case per document", () => {
+      const xml = formatReport(buildReport(result, {}, generatedAt), "junit");
+
+      expect(xml).toContain(
+        '<testsuites name="docsie-sync" tests="4" failures="1" errors="1" skipped="1" time="1.500">'
+      );
+      expect(xml).toContain(
+        '<testcase classname="docsie-sync.create" name="art_1 (Getting Started)" time="0.250"/>'
+      );
+      expect(xml).toContain(
+        '<failure message="Maven 503: &quot;unavailable&quot;" type="server">attempts: 3</failure>'
+      );
+      expect(xml).toContain('name="art_2 (Billing &lt;FAQ&gt; | Pricing)"');
+      expect(xml).toContain('<skipped message="content unchanged"/>');
+      expect(xml).toContain('<error message="1 document(s) failed to sync" type="unknown"/>');
+    });
+
+    it("should mark documents of a dry run as skipped", () => {
+      const xml = formatReport(
+        buildReport(
+          { success: true, exitCode: 0, syncResult: syncResult({ dryRun: true }) },
+          {},
+          generatedAt
+        ),
+        "junit"
+      );
+
+      expect(xml).toContain('<skipped message="dry run"/>');
+    });
+
+    it("should render Markdown with a failures table", () => {
+      const markdown = formatReport(
+        buildReport(result, { knowledgeBaseId: "kb-docs" }, generatedAt),
+        "markdown"
+      );
+
+      expect(markdown).toContain(
+        "**Status:** Failed: 1 document(s) failed to sync (knowledge base kb-docs)"
+      );
+      expect(markdown).toContain("| 3 | 1 | 1 | 0 | 1 | 0 | 1.500s |");
+      expect(markdown).toContain("## Failures");
+      expect(markdown).toContain(
+        '| art_2 (Billing <FAQ> \\| Pricing) | update | server | 3 | Maven 503: "unavailable" |'
+      );
+    });
+
+    it("should render JSON", () => {
+      const report = buildReport(result, {}, generatedAt);
+
+      expect(JSON.parse(formatReport(report, "json"))).toEqual(report);
+    });
+  });
+
+  describe("reportFormatFor", () => {
+    it("should infer the format from the file extension", () => {
+      expect(reportFormatFor("reports/sync.xml")).toBe("junit");
+      expect(reportFormatFor("SYNC.MD")).toBe("markdown");
+      expect(reportFormatFor("sync.json")).toBe("json");
+      expect(reportFormatFor("sync")).toBe("json");
+    });
+  });
+
+  describe("writeReport", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "docsie-report-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should create the directory and write the report", async () => {
+      const filePath = join(dir, "reports", "sync.json");
+
+      await writeReport(filePath, "json", result);
+
+      const written = JSON.parse(await readFile(filePath, "utf8"));
+      expect(written.summary.failed).toBe(1);
+    });
+  });
+});
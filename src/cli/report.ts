@@ -0,0 +1,324 @@
+/**
+ * Sync Reports
+ *
+ * Machine-readable output of `sync --report json|junit|markdown` for
+ * schedulers and CI dashboards. Reports carry the full per-document plan
+ * with each write's outcome, duration, attempts and error category.
+ *
+ * In JUnit reports each Maven document is a test case: failed writes are
+ * failures, unchanged and skipped articles are skipped tests, and a sync
+ * that failed as a whole is a test case with an error.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, extname } from "node:path";
+import type { SyncAction, SyncPlanEntry, SyncResult } from "../sync/sync.js";
+import type { ErrorCategory } from "../utils/errors.js";
+import { summarizePlan } from "./plan.js";
+import type { RunResult } from "./run.js";
+
+export type ReportFormat = "json" | "junit" | "markdown";
+
+export const REPORT_FORMATS: ReportFormat[] = ["json", "junit", "markdown"];
+
+const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+  json: ".json",
+  junit: ".xml",
+  markdown: ".md",
+};
+
+const SUITE_NAME = "docsie-sync";
+
+export interface SyncReport {
+  generatedAt: string;
+  success: boolean;
+  exitCode: number;
+  /** Why the sync failed as a whole */
+  error?: string;
+  errorCategory?: ErrorCategory;
+  profile?: string;
+  knowledgeBaseId?: string;
+  dryRun: boolean;
+  summary: ReportSummary;
+  entries: SyncPlanEntry[];
+  /** Reports of each profile when several were run */
+  profiles?: SyncReport[];
+}
+
+export interface ReportSummary {
+  articles: number;
+  uploaded: number;
+  unchanged: number;
+  deleted: number;
+  failed: number;
+  skipped: number;
+  durationMs: number;
+  /** Plan entries per action */
+  actions: Record<SyncAction, number>;
+}
+
+export interface ReportContext {
+  knowledgeBaseId?: string;
+  profile?: string;
+}
+
+/**
+ * Default report file for a format (e.g. docsie-sync-report.xml)
+ */
+export function defaultReportFile(format: ReportFormat): string {
+  return `${SUITE_NAME}-report${REPORT_EXTENSIONS[format]}`;
+}
+
+/**
+ * Report format matching a file extension (JSON for unknown extensions)
+ */
+export function reportFormatFor(filePath: string): ReportFormat {
+  const extension = extname(filePath).toLowerCase();
+  if (extension === ".xml") {
+    return "junit";
+  }
+  if (extension === ".md" || extension === ".markdown") {
+    return "markdown";
+  }
+  return "json";
+}
+
+/**
+ * Build the report of a sync run (with one sub-report per profile)
+ */
+export function buildReport(
+  result: RunResult,
+  context: ReportContext = {},
+  generatedAt: string = new Date().toISOString()
+): SyncReport {
+  const sync = result.syncResult;
+
+  return {
+    generatedAt,
+    success: result.success,
+    exitCode: result.exitCode,
+    ...(result.error && { error: result.error }),
+    ...(result.errorCategory && { errorCategory: result.errorCategory }),
+    ...(context.profile && { profile: context.profile }),
+    ...(context.knowledgeBaseId && { knowledgeBaseId: context.knowledgeBaseId }),
+    dryRun: sync?.dryRun ?? false,
+    summary: summarize(sync),
+    entries: sync?.plan ?? [],
+    ...(result.profiles && {
+      profiles: result.profiles.map(({ profile, knowledgeBaseId, result: profileResult }) =>
+        buildReport(profileResult, { profile, knowledgeBaseId }, generatedAt)
+      ),
+    }),
+  };
+}
+
+/**
+ * Render a report in the given format
+ */
+export function formatReport(report: SyncReport, format: ReportFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(report, null, 2) + "\n";
+    case "junit":
+      return formatJUnit(report);
+    case "markdown":
+      return formatMarkdown(report);
+  }
+}
+
+/**
+ * Write the report of a sync run to a file
+ */
+export async function writeReport(
+  filePath: string,
+  format: ReportFormat,
+  result: RunResult,
+  context: ReportContext = {}
+): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, formatReport(buildReport(result, context), format), "utf8");
+}
+
+function summarize(sync: SyncResult | undefined): ReportSummary {
+  return {
+    articles: sync?.articles ?? 0,
+    uploaded: sync?.uploaded ?? 0,
+    unchanged: sync?.unchanged ?? 0,
+    deleted: sync?.deleted ?? 0,
+    failed: sync?.failed ?? 0,
+    skipped: sync?.skipped ?? 0,
+    durationMs: sync?.durationMs ?? 0,
+    actions: summarizePlan(sync?.plan ?? []),
+  };
+}
+
+function formatJUnit(report: SyncReport): string {
+  const suites = report.profiles ?? [report];
+  const rendered = suites.map(junitSuite);
+  const total = (field: keyof SuiteCounts) =>
+    rendered.reduce((sum, suite) => sum + suite.counts[field], 0);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${SUITE_NAME}" tests="${total("tests")}" failures="${total("failures")}" ` +
+      `errors="${total("errors")}" skipped="${total("skipped")}" ` +
+      `time="${seconds(report.summary.durationMs)}">`,
+    ...rendered.flatMap((suite) => suite.lines),
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+interface SuiteCounts {
+  tests: number;
+  failures: number;
+  errors: number;
+  skipped: number;
+}
+
+function junitSuite(report: SyncReport): { counts: SuiteCounts; lines: string[] } {
+  const name = report.profile ? `${SUITE_NAME}.${report.profile}` : SUITE_NAME;
+  const counts: SuiteCounts = { tests: 0, failures: 0, errors: 0, skipped: 0 };
+  const cases: string[] = [];
+
+  if (!report.success) {
+    counts.tests++;
+    counts.errors++;
+    cases.push(
+      `    <testcase classname="${name}" name="sync">`,
+      `      <error message="${xml(report.error ?? "sync failed")}" type="${xml(report.errorCategory ?? "unknown")}"/>`,
+      "    </testcase>"
+    );
+  }
+
+  for (const entry of report.entries) {
+    counts.tests++;
+    const open =
+      `    <testcase classname="${name}.${entry.action}" name="${xml(testName(entry))}"` +
+      ` time="${seconds(entry.durationMs ?? 0)}"`;
+    const skipReason = skippedReason(entry, report.dryRun);
+
+    if (entry.status === "failed") {
+      counts.failures++;
+      cases.push(
+        `${open}>`,
+        `      <failure message="${xml(entry.error ?? "failed")}" type="${xml(entry.errorCategory ?? "unknown")}">` +
+          `attempts: ${entry.attempts ?? 0}</failure>`,
+        "    </testcase>"
+      );
+    } else if (skipReason) {
+      counts.skipped++;
+      cases.push(`${open}>`, `      <skipped message="${xml(skipReason)}"/>`, "    </testcase>");
+    } else {
+      cases.push(`${open}/>`);
+    }
+  }
+
+  const properties = report.knowledgeBaseId
+    ? [
+        "    <properties>",
+        `      <property name="knowledgeBaseId" value="${xml(report.knowledgeBaseId)}"/>`,
+        "    </properties>",
+      ]
+    : [];
+
+  return {
+    counts,
+    lines: [
+      `  <testsuite name="${xml(name)}" tests="${counts.tests}" failures="${counts.failures}" ` +
+        `errors="${counts.errors}" skipped="${counts.skipped}" ` +
+        `time="${seconds(report.summary.durationMs)}" timestamp="${report.generatedAt}">`,
+      ...properties,
+      ...cases,
+      "  </testsuite>",
+    ],
+  };
+}
+
+/**
+ * Why an entry counts as a skipped test, or undefined if it ran
+ */
+function skippedReason(entry: SyncPlanEntry, dryRun: boolean): string | undefined {
+  if (entry.action === "unchanged" || entry.action === "skip") {
+    return entry.reason ?? entry.action;
+  }
+  if (dryRun) {
+    return "dry run";
+  }
+  if (!entry.status) {
+    return "not attempted";
+  }
+  return undefined;
+}
+
+function formatMarkdown(report: SyncReport): string {
+  const lines = ["# Docsie Sync Report", "", `Generated: ${report.generatedAt}`, ""];
+
+  if (report.profiles) {
+    lines.push(...markdownSummary(report), "");
+    for (const profile of report.profiles) {
+      lines.push(`## Profile: ${profile.profile}`, "", ...markdownSection(profile, "###"), "");
+    }
+  } else {
+    lines.push(...markdownSection(report, "##"), "");
+  }
+
+  return lines.join("\n");
+}
+
+function markdownSection(report: SyncReport, heading: string): string[] {
+  const lines = markdownSummary(report);
+  const failures = report.entries.filter((entry) => entry.status === "failed");
+
+  if (failures.length > 0) {
+    lines.push(
+      "",
+      `${heading} Failures`,
+      "",
+      "| Document | Action | Category | Attempts | Error |",
+      "|----------|--------|----------|----------|-------|",
+      ...failures.map(
+        (entry) =>
+          `| ${cell(testName(entry))} | ${entry.action} | ${entry.errorCategory ?? "unknown"} | ` +
+          `${entry.attempts ?? 0} | ${cell(entry.error ?? "")} |`
+      )
+    );
+  }
+
+  return lines;
+}
+
+function markdownSummary(report: SyncReport): string[] {
+  const { summary } = report;
+  const status = report.success ? "Succeeded" : `Failed: ${report.error ?? "unknown error"}`;
+  const target = report.knowledgeBaseId ? ` (knowledge base ${report.knowledgeBaseId})` : "";
+
+  return [
+    `**Status:** ${status}${report.dryRun ? " (dry run)" : ""}${target}`,
+    "",
+    "| Articles | Uploaded | Unchanged | Deleted | Failed | Skipped | Duration |",
+    "|----------|----------|-----------|---------|--------|---------|----------|",
+    `| ${summary.articles} | ${summary.uploaded} | ${summary.unchanged} | ${summary.deleted} | ` +
+      `${summary.failed} | ${summary.skipped} | ${seconds(summary.durationMs)}s |`,
+  ];
+}
+
+function testName(entry: SyncPlanEntry): string {
+  return entry.title ? `${entry.referenceId} (${entry.title})` : entry.referenceId;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
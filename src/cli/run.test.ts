@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { runSync, runValidate } from "./run.js";
+import { buildReport } from "./report.js";
+import { AuthError } from "../utils/errors.js";
+import { createSyncMetrics } from "../utils/metrics.js";
 
 // Mock dependencies
 vi.mock("../docsie/client.js", () => ({
@@ -21,6 +27,10 @@ vi.mock("mavenagi", () => ({
   })),
 }));
 
+vi.mock("../maven/knowledge.js", () => ({
+  ensureKnowledgeBase: vi.fn(),
+}));
+
 vi.mock("../maven/uploader.js", () => ({
   MavenUploader: vi.fn().mockImplementation(() => ({
     upload: vi.fn(),
@@ -37,7 +47,10 @@ vi.mock("../sync/validate.js", () => ({
   runValidation: vi.fn(),
 }));
 
+import { MavenAGIClient } from "mavenagi";
 import { DocsieSync } from "../sync/sync.js";
+import { MavenUploader } from "../maven/uploader.js";
+import { ensureKnowledgeBase } from "../maven/knowledge.js";
 import { runValidation } from "../sync/validate.js";
 
 describe("runSync", () => {
@@ -56,7 +69,24 @@ describe("runSync", () => {
       organizationId: "org-123",
       agentId: "agent-456",
       apiKey: "maven-key",
+      knowledgeBaseId: "kb-1",
+      knowledgeBaseName: "Docs",
+    },
+    sync: {
+      stateFile: ".docsie-sync-state.json",
+      checkpointFile: ".docsie-sync-checkpoint.json",
+      maxDeletePercent: 20,
+      scope: {},
+      chunking: {},
+      urls: {},
+      languages: { enabled: false, knowledgeBases: {} },
+      versions: { policy: "primary" as const },
+      upload: {},
     },
+    retry: {},
+    logging: { level: "info" as const, format: "text" as const },
+    serve: { port: 8080, host: "0.0.0.0", webhookDebounceMs: 5000 },
+    profiles: {},
   };
 
   it("should return success when sync completes", async () => {
@@ -66,8 +96,12 @@ describe("runSync", () => {
       uploaded: 10,
       failed: 0,
       skipped: 0,
+      unchanged: 0,
+      deleted: 0,
       errors: [],
       durationMs: 1000,
+      dryRun: false,
+      plan: [],
     });
 
     vi.mocked(DocsieSync).mockImplementation(
@@ -82,6 +116,340 @@ describe("runSync", () => {
     expect(result.success).toBe(true);
     expect(result.exitCode).toBe(0);
     expect(result.syncResult?.uploaded).toBe(10);
+    expect(ensureKnowledgeBase).toHaveBeenCalledWith(
+      expect.anything(),
+      "kb-1",
+      "Docs",
+      expect.anything()
+    );
+  });
+
+  it("should return failure when the knowledge base cannot be created", async () => {
+    vi.mocked(ensureKnowledgeBase).mockRejectedValueOnce(
+      new AuthError("Maven API error: Forbidden")
+    );
+
+    const result = await runSync(testConfig, "kb-1");
+
+    expect(result.success).toBe(false);
+    expect(result.errorCategory).toBe("auth");
+    expect(DocsieSync).not.toHaveBeenCalled();
+  });
+
+  it("should pass the configured scope to the sync", async () => {
+    const mockSyncAll = vi.fn().mockResolvedValue({
+      workspaces: 1,
+      articles: 0,
+      uploaded: 0,
+      failed: 0,
+      skipped: 0,
+      unchanged: 0,
+      deleted: 0,
+      errors: [],
+      durationMs: 0,
+      dryRun: false,
+      plan: [],
+    });
+
+    vi.mocked(DocsieSync).mockImplementation(
+      () =>
+        ({
+          syncAll: mockSyncAll,
+        }) as any
+    );
+
+    const scope = { bookIds: ["boo_public"], excludeTags: ["internal"] };
+    await runSync({ ...testConfig, sync: { ...testConfig.sync, scope } }, "kb-1");
+
+    expect(mockSyncAll).toHaveBeenCalledWith({ ...scope, dryRun: false, resume: false });
+  });
+
+  it("should resume from the checkpoint when asked", async () => {
+    const mockSyncAll = vi.fn().mockResolvedValue({
+      workspaces: 1,
+      articles: 0,
+      uploaded: 0,
+      failed: 0,
+      skipped: 0,
+      unchanged: 0,
+      deleted: 0,
+      errors: [],
+      durationMs: 0,
+      dryRun: false,
+      plan: [],
+    });
+
+    vi.mocked(DocsieSync).mockImplementation(
+      () =>
+        ({
+          syncAll: mockSyncAll,
+        }) as any
+    );
+
+    await runSync(testConfig, "kb-1", { resume: true });
+
+    expect(mockSyncAll).toHaveBeenCalledWith({ dryRun: false, resume: true });
+    expect(vi.mocked(MavenUploader).mock.calls[0][2]?.checkpointStore?.filePath).toBe(
+      ".docsie-sync-checkpoint.json"
+    );
+  });
+
+  it("should sync only the given articles, without a checkpoint", async () => {
+    const mockSyncAll = vi.fn();
+    const mockSyncArticles = vi.fn().mockResolvedValue({
+      workspaces: 1,
+      articles: 1,
+      uploaded: 1,
+      failed: 0,
+      skipped: 0,
+      unchanged: 0,
+      deleted: 0,
+      errors: [],
+      durationMs: 0,
+      dryRun: false,
+      plan: [],
+    });
+
+    vi.mocked(DocsieSync).mockImplementation(
+      () =>
+        ({
+          syncAll: mockSyncAll,
+          syncArticles: mockSyncArticles,
+        }) as any
+    );
+
+    const articles = [{ articleId: "art_1", deleted: false }];
+    const result = await runSync(testConfig, "kb-1", { resume: true, articles });
+
+    expect(result.success).toBe(true);
+    expect(mockSyncAll).not.toHaveBeenCalled();
+    expect(mockSyncArticles).toHaveBeenCalledWith(articles, { dryRun: false, resume: true });
+    expect(vi.mocked(MavenUploader).mock.calls[0][2]?.checkpointStore).toBeUndefined();
+  });
+
+  it("should pass --force to the sync", async () => {
+    const mockSyncAll = vi.fn().mockResolvedValue({
+      workspaces: 1,
+      articles: 0,
+      uploaded: 0,
+      failed: 0,
+      skipped: 0,
+      unchanged: 0,
+      deleted: 0,
+      errors: [],
+      durationMs: 0,
+      dryRun: false,
+      plan: [],
+    });
+    vi.mocked(DocsieSync).mockImplementation(() => ({ syncAll: mockSyncAll }) as any);
+
+    await runSync(testConfig, "kb-1", { force: true });
+
+    expect(mockSyncAll).toHaveBeenCalledWith({ dryRun: false, resume: false, force: true });
+  });
+
+  it("should write with the given Maven client", async () => {
+    vi.mocked(DocsieSync).mockImplementation(
+      () =>
+        ({
+          syncAll: vi.fn().mockResolvedValue({
+            workspaces: 1,
+            articles: 0,
+            uploaded: 0,
+            failed: 0,
+            skipped: 0,
+            unchanged: 0,
+            deleted: 0,
+            errors: [],
+            durationMs: 0,
+            dryRun: false,
+            plan: [],
+          }),
+        }) as any
+    );
+    const mavenClient = { knowledge: {} } as any;
+
+    await runSync(testConfig, "kb-1", { mavenClient });
+
+    expect(MavenAGIClient).not.toHaveBeenCalled();
+    expect(vi.mocked(MavenUploader).mock.calls[0][0]).toBe(mavenClient);
+  });
+
+  it("should authenticate the Maven client with the configured app credentials", async () => {
+    vi.mocked(DocsieSync).mockImplementation(
+      () =>
+        ({
+          syncAll: vi.fn().mockResolvedValue({
+            workspaces: 1,
+            articles: 0,
+            uploaded: 0,
+            failed: 0,
+            skipped: 0,
+            unchanged: 0,
+            deleted: 0,
+            errors: [],
+            durationMs: 0,
+            dryRun: false,
+            plan: [],
+          }),
+        }) as any
+    );
+    const maven = { ...testConfig.maven, appId: "support-app", appSecret: "support-secret" };
+
+    await runSync({ ...testConfig, maven }, "kb-1");
+
+    expect(MavenAGIClient).toHaveBeenCalledWith({
+      organizationId: "org-123",
+      agentId: "agent-456",
+      appId: "support-app",
+      appSecret: "support-secret",
+    });
+  });
+
+  it("should pass upload rate limits to the uploader", async () => {
+    const mockSyncAll = vi.fn().mockResolvedValue({
+      workspaces: 1,
+      articles: 0,
+      uploaded: 0,
+      failed: 0,
+      skipped: 0,
+      unchanged: 0,
+      deleted: 0,
+      errors: [],
+      durationMs: 0,
+      dryRun: false,
+      plan: [],
+    });
+
+    vi.mocked(DocsieSync).mockImplementation(
+      () =>
+        ({
+          syncAll: mockSyncAll,
+        }) as any
+    );
+
+    await runSync(
+      { ...testConfig, sync: { ...testConfig.sync, upload: { chunkSize: 10, maxConcurrent: 2 } } },
+      "kb-1"
+    );
+
+    expect(vi.mocked(MavenUploader).mock.calls[0][2]).toMatchObject({
+      chunkSize: 10,
+      maxConcurrent: 2,
+    });
+  });
+
+  it("should run a dry run and write the plan file", async () => {
+    const plan = [
+      {
+        articleId: "art_1",
+        referenceId: "art_1",
+        action: "create",
+        title: "Article 1",
+        contentLength: 42,
+      },
+    ];
+    const mockSyncAll = vi.fn().mockResolvedValue({
+      workspaces: 1,
+      articles: 1,
+      uploaded: 0,
+      failed: 0,
+      skipped: 0,
+      unchanged: 0,
+      deleted: 0,
+      errors: [],
+      durationMs: 5,
+      dryRun: true,
+      plan,
+    });
+
+    vi.mocked(DocsieSync).mockImplementation(
+      () =>
+        ({
+          syncAll: mockSyncAll,
+        }) as any
+    );
+
+    const dir = await mkdtemp(join(tmpdir(), "docsie-plan-"));
+    const planFile = join(dir, "plan.json");
+
+    try {
+      const result = await runSync(testConfig, "kb-1", { dryRun: true, planFile });
+
+      expect(result.success).toBe(true);
+      expect(mockSyncAll).toHaveBeenCalledWith({ dryRun: true, resume: false });
+      expect(ensureKnowledgeBase).not.toHaveBeenCalled();
+
+      const written = JSON.parse(await readFile(planFile, "utf8"));
+      expect(written.knowledgeBaseId).toBe("kb-1");
+      expect(written.dryRun).toBe(true);
+      expect(written.summary.create).toBe(1);
+      expect(written.entries).toEqual(plan);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should sync languages mapped to their own knowledge base separately", async () => {
+    const resultFor = (uploaded: number) => ({
+      workspaces: 1,
+      articles: uploaded,
+      uploaded,
+      failed: 0,
+      skipped: 0,
+      unchanged: 0,
+      deleted: 0,
+      errors: [],
+      durationMs: 10,
+      dryRun: false,
+      plan: [
+        { articleId: "art_1", referenceId: "art_1", action: "create", title: "", contentLength: 1 },
+      ],
+    });
+    const mockSyncAll = vi
+      .fn()
+      .mockResolvedValueOnce(resultFor(3))
+      .mockResolvedValueOnce(resultFor(2));
+
+    vi.mocked(DocsieSync).mockImplementation(
+      () =>
+        ({
+          syncAll: mockSyncAll,
+        }) as any
+    );
+
+    const result = await runSync(
+      {
+        ...testConfig,
+        sync: {
+          ...testConfig.sync,
+          languages: { enabled: true, knowledgeBases: { fr: "kb-fr" } },
+        },
+      },
+      "kb-1"
+    );
+
+    expect(vi.mocked(MavenUploader).mock.calls.map((call) => call[1])).toEqual([
+      "kb-1",
+      "kb-fr",
+    ]);
+    expect(vi.mocked(DocsieSync).mock.calls[1][2]).toMatchObject({ allLanguages: true });
+    expect(mockSyncAll).toHaveBeenNthCalledWith(1, {
+      excludeLanguages: ["fr"],
+      dryRun: false,
+      resume: false,
+    });
+    expect(mockSyncAll).toHaveBeenNthCalledWith(2, {
+      languages: ["fr"],
+      dryRun: false,
+      resume: false,
+    });
+    expect(result.syncResult?.uploaded).toBe(5);
+    expect(result.syncResult?.plan.map((e) => e.knowledgeBaseId)).toEqual(["kb-1", "kb-fr"]);
+    expect(vi.mocked(ensureKnowledgeBase).mock.calls.map((call) => call.slice(1, 3))).toEqual([
+      ["kb-1", "Docs"],
+      ["kb-fr", "Docs (fr)"],
+    ]);
   });
 
   it("should return failure when sync throws", async () => {
@@ -102,6 +470,145 @@ describe("runSync", () => {
     expect(result.exitCode).toBe(1);
     expect(result.error).toContain("Connection failed");
   });
+
+  it("should map typed errors to distinct exit codes", async () => {
+    vi.mocked(DocsieSync).mockImplementation(
+      () =>
+        ({
+          syncAll: vi
+            .fn()
+            .mockRejectedValue(
+              new AuthError("Docsie API error: 401 Unauthorized for /workspaces/", {
+                status: 401,
+              })
+            ),
+        }) as any
+    );
+
+    const result = await runSync(testConfig, "kb-1");
+
+    expect(result.success).toBe(false);
+    expect(result.exitCode).toBe(3);
+    expect(result.errorCategory).toBe("auth");
+  });
+
+  it("should record run and document metrics", async () => {
+    const mockSyncAll = vi
+      .fn()
+      .mockResolvedValueOnce({
+        workspaces: 1,
+        articles: 8,
+        uploaded: 5,
+        failed: 1,
+        skipped: 2,
+        unchanged: 2,
+        deleted: 1,
+        errors: [],
+        durationMs: 1000,
+        dryRun: false,
+        plan: [],
+      })
+      .mockRejectedValueOnce(new Error("Connection failed"));
+    vi.mocked(DocsieSync).mockImplementation(() => ({ syncAll: mockSyncAll }) as any);
+    const metrics = createSyncMetrics();
+
+    await runSync(testConfig, "kb-1", { metrics });
+    await runSync(testConfig, "kb-1", { metrics });
+
+    const output = metrics.registry.render();
+    for (const line of [
+      'docsie_connector_articles_fetched_total{knowledge_base="kb-1"} 10',
+      'docsie_connector_articles_skipped_total{knowledge_base="kb-1"} 2',
+      'docsie_connector_articles_unchanged_total{knowledge_base="kb-1"} 2',
+      'docsie_connector_documents_uploaded_total{knowledge_base="kb-1"} 5',
+      'docsie_connector_documents_deleted_total{knowledge_base="kb-1"} 1',
+      'docsie_connector_documents_failed_total{knowledge_base="kb-1"} 1',
+      'docsie_connector_sync_runs_total{knowledge_base="kb-1",result="success"} 1',
+      'docsie_connector_sync_runs_total{knowledge_base="kb-1",result="failure"} 1',
+      'docsie_connector_sync_duration_seconds_count{knowledge_base="kb-1"} 2',
+    ]) {
+      expect(output).toContain(line);
+    }
+    expect(output).toMatch(/docsie_connector_last_success_timestamp_seconds\{knowledge_base="kb-1"\} \d+/);
+  });
+
+  it("should fail with the sync result when some writes failed", async () => {
+    const failedEntry = {
+      articleId: "art_2",
+      referenceId: "art_2",
+      action: "update" as const,
+      title: "Pricing",
+      contentLength: 10,
+      status: "failed" as const,
+      attempts: 4,
+      durationMs: 80,
+      error: "Maven 503",
+      errorCategory: "server" as const,
+    };
+    const mockSyncAll = vi.fn().mockResolvedValue({
+      workspaces: 1,
+      articles: 2,
+      uploaded: 1,
+      failed: 1,
+      skipped: 0,
+      unchanged: 0,
+      deleted: 0,
+      errors: [{ docId: "art_2", error: "Maven 503", category: "server" }],
+      durationMs: 100,
+      dryRun: false,
+      plan: [failedEntry],
+      versionDiscarded: true,
+    });
+    vi.mocked(DocsieSync).mockImplementation(() => ({ syncAll: mockSyncAll }) as any);
+    const metrics = createSyncMetrics();
+
+    const result = await runSync(testConfig, "kb-1", { metrics });
+
+    expect(result).toMatchObject({
+      success: false,
+      exitCode: 6,
+      errorCategory: "server",
+      error: expect.stringContaining("1 document write(s) failed (art_2)"),
+    });
+    const report = buildReport(result);
+    expect(report.summary.failed).toBe(1);
+    expect(report.entries).toEqual([failedEntry]);
+
+    const output = metrics.registry.render();
+    expect(output).toContain('docsie_connector_documents_failed_total{knowledge_base="kb-1"} 1');
+    expect(output).toContain(
+      'docsie_connector_sync_runs_total{knowledge_base="kb-1",result="failure"} 1'
+    );
+    expect(output).not.toContain("docsie_connector_last_success_timestamp_seconds{");
+  });
+
+  it("should succeed and count documents Maven rejected as invalid", async () => {
+    const mockSyncAll = vi.fn().mockResolvedValue({
+      workspaces: 1,
+      articles: 2,
+      uploaded: 1,
+      failed: 1,
+      skipped: 0,
+      unchanged: 0,
+      deleted: 0,
+      errors: [{ docId: "art_2", error: "Too many metadata keys", category: "validation" }],
+      durationMs: 100,
+      dryRun: false,
+      plan: [],
+      rejected: 1,
+    });
+    vi.mocked(DocsieSync).mockImplementation(() => ({ syncAll: mockSyncAll }) as any);
+    const metrics = createSyncMetrics();
+
+    const result = await runSync(testConfig, "kb-1", { metrics });
+
+    expect(result).toMatchObject({ success: true, exitCode: 0 });
+    const output = metrics.registry.render();
+    expect(output).toContain('docsie_connector_documents_failed_total{knowledge_base="kb-1"} 1');
+    expect(output).toContain(
+      'docsie_connector_sync_runs_total{knowledge_base="kb-1",result="success"} 1'
+    );
+  });
 });
 
 describe("runValidate", () => {
@@ -120,7 +627,24 @@ describe("runValidate", () => {
       organizationId: "org-123",
       agentId: "agent-456",
       apiKey: "maven-key",
+      knowledgeBaseId: "kb-1",
+      knowledgeBaseName: "Docs",
+    },
+    sync: {
+      stateFile: ".docsie-sync-state.json",
+      checkpointFile: ".docsie-sync-checkpoint.json",
+      maxDeletePercent: 20,
+      scope: {},
+      chunking: {},
+      urls: {},
+      languages: { enabled: false, knowledgeBases: {} },
+      versions: { policy: "primary" as const },
+      upload: {},
     },
+    retry: {},
+    logging: { level: "info" as const, format: "text" as const },
+    serve: { port: 8080, host: "0.0.0.0", webhookDebounceMs: 5000 },
+    profiles: {},
   };
 
   it("should return success when validation passes", async () => {
@@ -7,61 +7,241 @@
 import { MavenAGIClient } from "mavenagi";
 import { DocsieClient } from "../docsie/client.js";
 import { MavenUploader } from "../maven/uploader.js";
-import { DocsieSync, type SyncResult } from "../sync/sync.js";
+import { DocsieSync, type ArticleChange, type SyncResult } from "../sync/sync.js";
+import { SyncStateStore } from "../sync/state.js";
+import { languageStateFile, languageTargets } from "../sync/languages.js";
+import { CheckpointStore } from "../maven/checkpoint.js";
+import { ensureKnowledgeBase } from "../maven/knowledge.js";
 import {
   runValidation,
   type ValidationResult,
 } from "../sync/validate.js";
+import { categorize, EXIT_CODES, exitCodeFor, type ErrorCategory } from "../utils/errors.js";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import type { SyncMetrics } from "../utils/metrics.js";
 import type { Config } from "./env.js";
+import { formatPlan, writePlanFile } from "./plan.js";
+import type { ProfileRunResult } from "./profiles.js";
 
 export interface RunResult {
   success: boolean;
+  /** 0 on success; otherwise distinct per error category (see EXIT_CODES) */
   exitCode: number;
   error?: string;
+  errorCategory?: ErrorCategory;
   syncResult?: SyncResult;
   validationResult?: ValidationResult;
+  /** Result of each profile when several were run */
+  profiles?: ProfileRunResult[];
+}
+
+export interface RunSyncOptions {
+  /** Plan only: fetch and transform, but never write to Maven */
+  dryRun?: boolean;
+  /** Write the per-article plan as JSON to this path */
+  planFile?: string;
+  /** Continue an interrupted upload from its checkpoint */
+  resume?: boolean;
+  /** Upload every article, even those unchanged since the last sync */
+  force?: boolean;
+  /** Only sync these articles (see DocsieSync.syncArticles) */
+  articles?: ArticleChange[];
+  logger?: Logger;
+  /** Records run, document and API call metrics (see utils/metrics.ts) */
+  metrics?: SyncMetrics;
+  /** Interrupts the sync (e.g. on shutdown); see DocsieSync */
+  signal?: AbortSignal;
+  /** Maven client to write with (default: one for the configured organization and agent) */
+  mavenClient?: MavenAGIClient;
+}
+
+export interface RunValidateOptions {
+  /** Article count Docsie should report (a mismatch is warned about) */
+  expectedArticleCount?: number;
+  logger?: Logger;
 }
 
 /**
  * Run the full sync operation
+ *
+ * Languages mapped to their own knowledge base are synced one target after
+ * another; the result sums up all targets. Each knowledge base is created
+ * (or renamed) before it is written to, so it need not exist in Maven yet.
  */
 export async function runSync(
   config: Config,
-  knowledgeBaseId: string
+  knowledgeBaseId: string,
+  options: RunSyncOptions = {}
 ): Promise<RunResult> {
+  const logger = options.logger ?? defaultLogger;
+  const metrics = options.metrics;
+  const endTimer = metrics?.syncDuration.startTimer({ knowledge_base: knowledgeBaseId });
   try {
-    console.log("=== Docsie to Maven Sync ===\n");
+    const articles = options.articles
+      ? ` (${options.articles.length} article${options.articles.length === 1 ? "" : "s"})`
+      : "";
+    logger.info(
+      options.dryRun
+        ? `=== Docsie to Maven Sync${articles} (dry run) ===\n`
+        : `=== Docsie to Maven Sync${articles} ===\n`
+    );
 
     const docsieClient = new DocsieClient({
       apiKey: config.docsie.apiKey,
       baseUrl: config.docsie.baseUrl,
+      retryConfig: config.retry,
+      logger,
+      metrics,
+      signal: options.signal,
     });
 
-    const mavenClient = new MavenAGIClient({
-      organizationId: config.maven.organizationId,
-      agentId: config.maven.agentId,
-    });
+    const mavenClient =
+      options.mavenClient ??
+      new MavenAGIClient({
+        organizationId: config.maven.organizationId,
+        agentId: config.maven.agentId,
+        appId: config.maven.appId,
+        appSecret: config.maven.appSecret,
+      });
+
+    const targets = languageTargets(
+      config.sync.languages,
+      config.sync.scope,
+      knowledgeBaseId,
+      config.sync.stateFile
+    );
+    const results: SyncResult[] = [];
+
+    for (const target of targets) {
+      options.signal?.throwIfAborted();
+      if (targets.length > 1) {
+        const languages = target.language ?? "other languages";
+        logger.info(`\n--- ${languages} → knowledge base ${target.knowledgeBaseId} ---`, {
+          language: target.language,
+        });
+      }
+
+      if (!options.dryRun) {
+        const name = config.maven.knowledgeBaseName;
+        await ensureKnowledgeBase(
+          mavenClient,
+          target.knowledgeBaseId,
+          target.language ? `${name} (${target.language})` : name,
+          logger
+        );
+      }
+
+      const checkpointFile = target.language
+        ? languageStateFile(config.sync.checkpointFile, target.language)
+        : config.sync.checkpointFile;
+      // Targeted syncs are small and leave an interrupted full sync's checkpoint alone
+      const uploader = new MavenUploader(mavenClient, target.knowledgeBaseId, {
+        ...config.sync.upload,
+        checkpointStore: options.articles ? undefined : new CheckpointStore(checkpointFile),
+        retryConfig: config.retry,
+        logger,
+        metrics,
+      });
+
+      const sync = new DocsieSync(docsieClient, uploader, {
+        stateStore: new SyncStateStore(target.stateFile),
+        maxDeletePercent: config.sync.maxDeletePercent,
+        chunking: config.sync.chunking,
+        urls: config.sync.urls,
+        allLanguages: config.sync.languages.enabled,
+        versions: config.sync.versions,
+        logger,
+      });
+      const syncConfig = {
+        ...target.scope,
+        dryRun: options.dryRun ?? false,
+        resume: options.resume ?? false,
+        ...(options.force && { force: true }),
+        signal: options.signal,
+      };
+      const targetResult = options.articles
+        ? await sync.syncArticles(options.articles, syncConfig)
+        : await sync.syncAll(syncConfig);
+
+      if (targets.length > 1) {
+        targetResult.plan = targetResult.plan.map((entry) => ({
+          ...entry,
+          knowledgeBaseId: target.knowledgeBaseId,
+        }));
+      }
+      if (metrics) {
+        recordSyncMetrics(metrics, target.knowledgeBaseId, targetResult);
+      }
+      results.push(targetResult);
+    }
+
+    const result = results.length === 1 ? results[0] : mergeSyncResults(results);
 
-    const uploader = new MavenUploader(mavenClient, knowledgeBaseId);
+    if (result.dryRun) {
+      logger.info("\n=== Sync Plan ===");
+      for (const line of formatPlan(result.plan)) {
+        logger.info(line);
+      }
+    }
 
-    const sync = new DocsieSync(docsieClient, uploader);
-    const result = await sync.syncAll();
+    if (options.planFile) {
+      await writePlanFile(options.planFile, result, knowledgeBaseId);
+      logger.info(`\nPlan written to ${options.planFile}`);
+    }
 
-    console.log("\n=== Sync Complete ===");
-    console.log(`Workspaces: ${result.workspaces}`);
-    console.log(`Articles: ${result.articles}`);
-    console.log(`Uploaded: ${result.uploaded}`);
-    console.log(`Failed: ${result.failed}`);
-    console.log(`Skipped: ${result.skipped}`);
-    console.log(`Duration: ${result.durationMs}ms`);
+    logger.info(result.dryRun ? "\n=== Dry Run Complete ===" : "\n=== Sync Complete ===");
+    logger.info(`Workspaces: ${result.workspaces}`);
+    logger.info(`Articles: ${result.articles}`);
+    logger.info(`Uploaded: ${result.uploaded}`);
+    logger.info(`Unchanged: ${result.unchanged}`);
+    logger.info(`Deleted: ${result.deleted}`);
+    logger.info(`Failed: ${result.failed}`);
+    logger.info(`Skipped: ${result.skipped}`);
+    logger.info(`Duration: ${result.durationMs}ms`);
 
     if (result.errors.length > 0) {
-      console.log("\nErrors:");
+      logger.info("\nErrors:");
       for (const err of result.errors) {
-        console.log(`  - ${err.docId}: ${err.error}`);
+        logger.info(`  - ${err.docId}: ${err.error}`, {
+          docId: err.docId,
+          errorCategory: err.category,
+          error: err.error,
+        });
       }
     }
 
+    endTimer?.();
+
+    if (result.rejected && !result.versionDiscarded) {
+      logger.warn(
+        `\n${result.rejected} document(s) rejected by Maven as invalid; ` +
+          "the other changes were written and the rejected ones are retried next run",
+        { rejected: result.rejected }
+      );
+    }
+
+    if (result.versionDiscarded) {
+      const docIds = result.errors.map((e) => e.docId).join(", ");
+      const message =
+        `${result.failed} document write(s) failed (${docIds}); ` +
+        "knowledge base version discarded, the previous one stays active";
+      const errorCategory =
+        result.errors.find((e) => e.category !== "validation")?.category ?? "unknown";
+      logger.error(`\nSync failed: ${message}`, { errorCategory, error: message });
+      metrics?.syncRuns.inc({ knowledge_base: knowledgeBaseId, result: "failure" });
+
+      return {
+        success: false,
+        exitCode: EXIT_CODES[errorCategory],
+        error: message,
+        errorCategory,
+        syncResult: result,
+      };
+    }
+
+    metrics?.syncRuns.inc({ knowledge_base: knowledgeBaseId, result: "success" });
+    metrics?.lastSuccess.set({ knowledge_base: knowledgeBaseId }, Date.now() / 1000);
+
     return {
       success: true,
       exitCode: 0,
@@ -69,38 +249,84 @@ export async function runSync(
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    console.error(`\nSync failed: ${message}`);
+    logger.error(`\nSync failed: ${message}`, { errorCategory: categorize(error), error: message });
+    endTimer?.();
+    metrics?.syncRuns.inc({ knowledge_base: knowledgeBaseId, result: "failure" });
 
     return {
       success: false,
-      exitCode: 1,
+      exitCode: exitCodeFor(error),
       error: message,
+      errorCategory: categorize(error),
     };
   }
 }
 
+/**
+ * Add the counts of one knowledge base's sync to the metrics
+ */
+function recordSyncMetrics(metrics: SyncMetrics, knowledgeBaseId: string, result: SyncResult): void {
+  const labels = { knowledge_base: knowledgeBaseId };
+  metrics.articlesFetched.inc(labels, result.articles + result.skipped);
+  metrics.articlesSkipped.inc(labels, result.skipped);
+  metrics.articlesUnchanged.inc(labels, result.unchanged);
+  metrics.documentsUploaded.inc(labels, result.uploaded);
+  metrics.documentsDeleted.inc(labels, result.deleted);
+  metrics.documentsFailed.inc(labels, result.failed);
+}
+
+/**
+ * Sum up the results of several syncs (per-language targets or profiles)
+ */
+export function mergeSyncResults(results: SyncResult[]): SyncResult {
+  const sum = (
+    field: "articles" | "uploaded" | "failed" | "skipped" | "unchanged" | "deleted" | "durationMs"
+  ) => results.reduce((total, result) => total + result[field], 0);
+
+  return {
+    workspaces: Math.max(...results.map((r) => r.workspaces)),
+    articles: sum("articles"),
+    uploaded: sum("uploaded"),
+    failed: sum("failed"),
+    skipped: sum("skipped"),
+    unchanged: sum("unchanged"),
+    deleted: sum("deleted"),
+    errors: results.flatMap((r) => r.errors),
+    durationMs: sum("durationMs"),
+    dryRun: results.every((r) => r.dryRun),
+    plan: results.flatMap((r) => r.plan),
+    ...(results.some((r) => r.versionDiscarded) && { versionDiscarded: true }),
+    ...(results.some((r) => r.rejected) && {
+      rejected: results.reduce((total, r) => total + (r.rejected ?? 0), 0),
+    }),
+  };
+}
+
 /**
  * Run validation only (no sync)
  */
 export async function runValidate(
   config: Config,
   knowledgeBaseId: string,
-  expectedArticleCount?: number
+  options: RunValidateOptions = {}
 ): Promise<RunResult> {
+  const logger = options.logger ?? defaultLogger;
   try {
     const docsieClient = new DocsieClient({
       apiKey: config.docsie.apiKey,
       baseUrl: config.docsie.baseUrl,
+      retryConfig: config.retry,
+      logger,
     });
 
     const mavenClient = new MavenAGIClient({
       organizationId: config.maven.organizationId,
       agentId: config.maven.agentId,
+      appId: config.maven.appId,
+      appSecret: config.maven.appSecret,
     });
 
-    const result = await runValidation(docsieClient, mavenClient, knowledgeBaseId, {
-      expectedArticleCount,
-    });
+    const result = await runValidation(docsieClient, mavenClient, knowledgeBaseId, options);
 
     return {
       success: result.ready,
@@ -109,12 +335,16 @@ export async function runValidate(
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    console.error(`\nValidation failed: ${message}`);
+    logger.error(`\nValidation failed: ${message}`, {
+      errorCategory: categorize(error),
+      error: message,
+    });
 
     return {
       success: false,
-      exitCode: 1,
+      exitCode: exitCodeFor(error),
       error: message,
+      errorCategory: categorize(error),
     };
   }
 }
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { DocsieClient } from "./client.js";
+import { DocsieClient, endpointLabel, parseRetryAfter } from "./client.js";
+import { AuthError, NetworkError } from "../utils/errors.js";
+import { createSyncMetrics } from "../utils/metrics.js";
 
 describe("DocsieClient", () => {
   const mockFetch = vi.fn();
@@ -14,6 +16,18 @@ describe("DocsieClient", () => {
     global.fetch = originalFetch;
   });
 
+  /** Successful JSON response */
+  const ok = (body: unknown) =>
+    new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } });
+
+  /** Error response, optionally with a Retry-After header */
+  const failure = (status: number, statusText: string, retryAfter?: string) =>
+    new Response(null, {
+      status,
+      statusText,
+      headers: retryAfter ? { "Retry-After": retryAfter } : {},
+    });
+
   /** Helper to create paginated response */
   function paginated<T>(results: T[], hasNext: boolean = false): object {
     return {
@@ -50,10 +64,7 @@ describe("DocsieClient", () => {
 
   describe("authentication", () => {
     it("should include Bearer token in Authorization header", async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve({ data: [] }),
-      });
+      mockFetch.mockResolvedValueOnce(ok({ data: [] }));
 
       const client = new DocsieClient({ apiKey: "test-api-key" });
       await client.get("/test-endpoint");
@@ -72,10 +83,7 @@ describe("DocsieClient", () => {
   describe("request handling", () => {
     it("should return parsed JSON on successful response", async () => {
       const mockData = paginated([{ id: "ws-1", name: "Test" }]);
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockData),
-      });
+      mockFetch.mockResolvedValueOnce(ok(mockData));
 
       const client = new DocsieClient({ apiKey: "test-key" });
       const result = await client.get("/workspaces/");
@@ -84,11 +92,7 @@ describe("DocsieClient", () => {
     });
 
     it("should throw on 401 Unauthorized response", async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 401,
-        statusText: "Unauthorized",
-      });
+      mockFetch.mockResolvedValueOnce(failure(401, "Unauthorized"));
 
       const client = new DocsieClient({ apiKey: "invalid-key" });
 
@@ -97,22 +101,147 @@ describe("DocsieClient", () => {
       );
     });
 
-    it("should throw on network failure", async () => {
-      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+    it("should throw on network failure once retries are exhausted", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockFetch.mockRejectedValue(new Error("Network error"));
 
-      const client = new DocsieClient({ apiKey: "test-key" });
+      const client = new DocsieClient({
+        apiKey: "test-key",
+        retryConfig: { maxRetries: 2, initialDelayMs: 1 },
+      });
+
+      await expect(client.get("/workspaces/")).rejects.toThrow(NetworkError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("retries", () => {
+    beforeEach(() => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    const createClient = () =>
+      new DocsieClient({
+        apiKey: "test-key",
+        minTime: 0,
+        retryConfig: { maxRetries: 3, initialDelayMs: 1, maxDelayMs: 50 },
+      });
+
+    it("should retry 5xx responses", async () => {
+      mockFetch
+        .mockResolvedValueOnce(failure(502, "Bad Gateway"))
+        .mockResolvedValueOnce(ok({ id: "ws-1" }));
+
+      const result = await createClient().get("/workspaces/ws-1/");
+
+      expect(result).toEqual({ id: "ws-1" });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should wait for Retry-After on 429", async () => {
+      mockFetch
+        .mockResolvedValueOnce(failure(429, "Too Many Requests", "0.04"))
+        .mockResolvedValueOnce(ok({ id: "ws-1" }));
+
+      const start = Date.now();
+      await createClient().get("/workspaces/ws-1/");
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining("slowing requests")
+      );
+    });
+
+    it("should raise typed errors carrying status, endpoint and body", async () => {
+      mockFetch.mockResolvedValue(
+        new Response('{"detail":"Invalid token"}', { status: 401, statusText: "Unauthorized" })
+      );
+
+      const error = await createClient()
+        .get("/workspaces/")
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error).toMatchObject({
+        category: "auth",
+        status: 401,
+        endpoint: "/workspaces/",
+        responseBody: '{"detail":"Invalid token"}',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry client errors", async () => {
+      mockFetch.mockResolvedValue(failure(404, "Not Found"));
+
+      await expect(createClient().get("/articles/missing/")).rejects.toThrow(
+        "Docsie API error: 404 Not Found for /articles/missing/"
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should resume pagination after a transient failure", async () => {
+      const page1 = Array.from({ length: 100 }, (_, i) => ({ id: `${i}` }));
+      mockFetch
+        .mockResolvedValueOnce(ok(paginated(page1, true)))
+        .mockResolvedValueOnce(failure(503, "Service Unavailable"))
+        .mockResolvedValueOnce(ok(paginated([{ id: "100" }], false)));
+
+      const result = await createClient().fetchAllPaginated<{ id: string }>("/items/");
+
+      expect(result).toHaveLength(101);
+      expect(mockFetch.mock.calls[2][0]).toContain("offset=100");
+    });
+
+    it("should record request latency by endpoint and outcome, and retries", async () => {
+      mockFetch
+        .mockResolvedValueOnce(failure(502, "Bad Gateway"))
+        .mockResolvedValueOnce(ok({ id: "art_1" }));
+      const metrics = createSyncMetrics();
+
+      const client = new DocsieClient({
+        apiKey: "test-key",
+        minTime: 0,
+        retryConfig: { initialDelayMs: 1 },
+        metrics,
+      });
+      await client.get("/articles/art_1/?expand[]=book");
+
+      const output = metrics.registry.render();
+      expect(output).toContain(
+        'docsie_connector_docsie_request_duration_seconds_count{endpoint="/articles/:id/",outcome="server"} 1'
+      );
+      expect(output).toContain(
+        'docsie_connector_docsie_request_duration_seconds_count{endpoint="/articles/:id/",outcome="success"} 1'
+      );
+      expect(output).toContain('docsie_connector_retries_total{client="docsie"} 1');
+    });
+  });
+
+  describe("endpointLabel", () => {
+    it("should drop the query and replace IDs", () => {
+      expect(endpointLabel("/workspaces/?limit=100&offset=0")).toBe("/workspaces/");
+      expect(endpointLabel("/articles/art_1/?expand[]=book")).toBe("/articles/:id/");
+      expect(endpointLabel("/books/")).toBe("/books/");
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse seconds and HTTP dates", () => {
+      expect(parseRetryAfter("2")).toBe(2000);
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
 
-      await expect(client.get("/workspaces/")).rejects.toThrow("Network error");
+      const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+      expect(parseRetryAfter(inFiveSeconds)).toBeGreaterThan(3000);
     });
   });
 
   describe("pagination", () => {
     it("should fetch single page when next is null", async () => {
       const items = Array.from({ length: 50 }, (_, i) => ({ id: `${i}` }));
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(paginated(items, false)),
-      });
+      mockFetch.mockResolvedValueOnce(ok(paginated(items, false)));
 
       const client = new DocsieClient({ apiKey: "test-key" });
       const result = await client.fetchAllPaginated<{ id: string }>("/items/", 100);
@@ -126,14 +255,8 @@ describe("DocsieClient", () => {
       const page2 = Array.from({ length: 50 }, (_, i) => ({ id: `${i + 100}` }));
 
       mockFetch
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(paginated(page1, true)),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(paginated(page2, false)),
-        });
+        .mockResolvedValueOnce(ok(paginated(page1, true)))
+        .mockResolvedValueOnce(ok(paginated(page2, false)));
 
       const client = new DocsieClient({ apiKey: "test-key" });
       const result = await client.fetchAllPaginated<{ id: string }>("/items/", 100);
@@ -143,10 +266,7 @@ describe("DocsieClient", () => {
     });
 
     it("should pass offset and limit query params", async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(paginated([], false)),
-      });
+      mockFetch.mockResolvedValueOnce(ok(paginated([], false)));
 
       const client = new DocsieClient({ apiKey: "test-key" });
       await client.fetchAllPaginated("/items/", 50);
@@ -162,10 +282,7 @@ describe("DocsieClient", () => {
     });
 
     it("should return empty array when no results", async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(paginated([], false)),
-      });
+      mockFetch.mockResolvedValueOnce(ok(paginated([], false)));
 
       const client = new DocsieClient({ apiKey: "test-key" });
       const result = await client.fetchAllPaginated("/items/", 100);
@@ -180,10 +297,7 @@ describe("DocsieClient", () => {
       const mockWorkspaces = [
         { id: "workspace_abc", name: "Workspace 1", shelves_count: 5 },
       ];
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(paginated(mockWorkspaces)),
-      });
+      mockFetch.mockResolvedValueOnce(ok(paginated(mockWorkspaces)));
 
       const client = new DocsieClient({ apiKey: "test-key" });
       const result = await client.getWorkspaces();
@@ -199,10 +313,7 @@ describe("DocsieClient", () => {
       const mockDocs = [
         { id: "doc_abc", name: "Getting Started", active_books_count: 3 },
       ];
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(paginated(mockDocs)),
-      });
+      mockFetch.mockResolvedValueOnce(ok(paginated(mockDocs)));
 
       const client = new DocsieClient({ apiKey: "test-key" });
       const result = await client.getDocumentation();
@@ -216,10 +327,7 @@ describe("DocsieClient", () => {
 
     it("should fetch books excluding deleted by default", async () => {
       const mockBooks = [{ id: "boo_abc", name: "Book 1", deleted: false }];
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(paginated(mockBooks)),
-      });
+      mockFetch.mockResolvedValueOnce(ok(paginated(mockBooks)));
 
       const client = new DocsieClient({ apiKey: "test-key" });
       const result = await client.getBooks();
@@ -231,12 +339,73 @@ describe("DocsieClient", () => {
       );
     });
 
+    it("should fetch documentation filtered by workspace", async () => {
+      mockFetch.mockResolvedValueOnce(ok(paginated([])));
+
+      const client = new DocsieClient({ apiKey: "test-key" });
+      await client.getDocumentation("workspace_abc");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining("/documentation/?workspace=workspace_abc&limit="),
+        expect.any(Object)
+      );
+    });
+
+    it("should fetch books filtered by documentation", async () => {
+      mockFetch.mockResolvedValueOnce(ok(paginated([])));
+
+      const client = new DocsieClient({ apiKey: "test-key" });
+      await client.getBooks(false, "doc_abc");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining("/books/?deleted=false&documentation=doc_abc"),
+        expect.any(Object)
+      );
+    });
+
+    it("should fetch deployments filtered by workspace", async () => {
+      const mockDeployments = [{ target_object_id: "boo_abc", domain: "docs.example.com" }];
+      mockFetch.mockResolvedValueOnce(ok(paginated(mockDeployments)));
+
+      const client = new DocsieClient({ apiKey: "test-key" });
+      const result = await client.getDeployments("ws_abc");
+
+      expect(result).toEqual(mockDeployments);
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining("/deployments/?workspace=ws_abc"),
+        expect.any(Object)
+      );
+    });
+
+    it("should fetch a book's languages and articles per language", async () => {
+      mockFetch.mockImplementation(async () => ok(paginated([])));
+
+      const client = new DocsieClient({ apiKey: "test-key" });
+      await client.getLanguages("boo_abc");
+      await client.getArticles("boo_abc", { languageId: "lan_fr" });
+
+      expect(mockFetch.mock.calls[0][0]).toContain("/languages/?book=boo_abc");
+      expect(mockFetch.mock.calls[1][0]).toContain("/articles/?book=boo_abc&language=lan_fr");
+    });
+
+    it("should fetch active versions and articles per version", async () => {
+      mockFetch.mockImplementation(async () => ok(paginated([])));
+
+      const client = new DocsieClient({ apiKey: "test-key" });
+      await client.getVersions("boo_abc", true);
+      await client.getLanguages("boo_abc", "ver_2");
+      await client.getArticles("boo_abc", { versionId: "ver_2", languageId: "lan_fr" });
+
+      expect(mockFetch.mock.calls[0][0]).toContain("/versions/?book=boo_abc&active=true");
+      expect(mockFetch.mock.calls[1][0]).toContain("/languages/?book=boo_abc&version=ver_2");
+      expect(mockFetch.mock.calls[2][0]).toContain(
+        "/articles/?book=boo_abc&version=ver_2&language=lan_fr"
+      );
+    });
+
     it("should fetch articles filtered by book", async () => {
       const mockArticles = [{ id: "art_abc", name: "Article 1" }];
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(paginated(mockArticles)),
-      });
+      mockFetch.mockResolvedValueOnce(ok(paginated(mockArticles)));
 
       const client = new DocsieClient({ apiKey: "test-key" });
       const result = await client.getArticles("boo_abc");
@@ -248,16 +417,25 @@ describe("DocsieClient", () => {
       );
     });
 
+    it("should expand article relations", async () => {
+      mockFetch.mockResolvedValueOnce(ok(paginated([])));
+
+      const client = new DocsieClient({ apiKey: "test-key" });
+      await client.getArticles();
+
+      const url = mockFetch.mock.calls[0][0] as string;
+      for (const field of ["book", "documentation", "version", "language"]) {
+        expect(url).toContain(`expand[]=${field}`);
+      }
+    });
+
     it("should fetch a single article", async () => {
       const mockArticle = {
         id: "art_abc",
         name: "Test Article",
         doc: { blocks: [{ type: "unstyled", text: "Hello" }] },
       };
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockArticle),
-      });
+      mockFetch.mockResolvedValueOnce(ok(mockArticle));
 
       const client = new DocsieClient({ apiKey: "test-key" });
       const result = await client.getArticle("art_abc");
@@ -268,6 +446,19 @@ describe("DocsieClient", () => {
         expect.any(Object)
       );
     });
+
+    it("should encode IDs in article URLs", async () => {
+      mockFetch
+        .mockResolvedValueOnce(ok({ id: "art_abc" }))
+        .mockResolvedValueOnce(ok({ count: 0, results: [] }));
+
+      const client = new DocsieClient({ apiKey: "test-key" });
+      await client.getArticle("../books/boo_abc");
+      await client.getArticles("boo_abc&version=ver_2");
+
+      expect(mockFetch.mock.calls[0][0]).toContain("/articles/..%2Fbooks%2Fboo_abc/?");
+      expect(mockFetch.mock.calls[1][0]).toContain("book=boo_abc%26version%3Dver_2&");
+    });
   });
 
   describe("rate limiting", () => {
@@ -276,10 +467,7 @@ describe("DocsieClient", () => {
 
       mockFetch.mockImplementation(async () => {
         timestamps.push(Date.now());
-        return {
-          ok: true,
-          json: () => Promise.resolve({ data: [] }),
-        };
+        return ok({ data: [] });
       });
 
       const client = new DocsieClient({ apiKey: "test-key" });
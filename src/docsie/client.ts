@@ -6,12 +6,24 @@
  */
 
 import Bottleneck from "bottleneck";
+import { withRetry, type RetryPolicy } from "../utils/retry.js";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import type { SyncMetrics } from "../utils/metrics.js";
+import {
+  NetworkError,
+  RateLimitedError,
+  categorize,
+  errorFromStatus,
+} from "../utils/errors.js";
 import type {
   PaginatedResponse,
   DocsieWorkspace,
   DocsieDocumentation,
   DocsieBook,
   DocsieArticle,
+  DocsieDeployment,
+  DocsieLanguage,
+  DocsieVersion,
 } from "./types.js";
 
 export interface DocsieClientConfig {
@@ -21,16 +33,44 @@ export interface DocsieClientConfig {
   maxConcurrent?: number;
   /** Min time between requests in ms (default: 200) */
   minTime?: number;
+  /** Retry settings for 429/5xx/network failures */
+  retryConfig?: RetryPolicy;
+  logger?: Logger;
+  /** Records request latency and retries (not recorded if omitted) */
+  metrics?: SyncMetrics;
+  /** Cancels requests and pending retries when aborted (e.g. on shutdown) */
+  signal?: AbortSignal;
 }
 
 const DEFAULT_BASE_URL = "https://app.docsie.io/api_v2/003";
 const DEFAULT_MAX_CONCURRENT = 5;
 const DEFAULT_MIN_TIME = 200;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_MAX_DELAY_MS = 60000;
+/** Upper bound for the limiter's min time while throttled */
+const MAX_THROTTLED_MIN_TIME = 5000;
+/** Consecutive successes before a throttled limiter speeds back up */
+const RECOVERY_SUCCESSES = 20;
+/** Filters for article listings besides the book */
+export interface ArticleFilters {
+  versionId?: string;
+  languageId?: string;
+}
+
+/** Article relations expanded into full objects on article requests */
+const ARTICLE_EXPANSIONS = ["book", "documentation", "version", "language"];
 
 export class DocsieClient {
   readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly limiter: Bottleneck;
+  private readonly retryConfig: DocsieClientConfig["retryConfig"];
+  private readonly logger: Logger;
+  private readonly metrics?: SyncMetrics;
+  private readonly signal?: AbortSignal;
+  private readonly baseMinTime: number;
+  private currentMinTime: number;
+  private successesSinceThrottle = 0;
 
   constructor(config: DocsieClientConfig) {
     if (!config.apiKey) {
@@ -40,42 +80,150 @@ export class DocsieClient {
     this.apiKey = config.apiKey;
     this.baseUrl = config.baseUrl ?? DEFAULT_BASE_URL;
 
+    this.retryConfig = config.retryConfig;
+    this.logger = config.logger ?? defaultLogger;
+    this.metrics = config.metrics;
+    this.signal = config.signal;
+    this.baseMinTime = config.minTime ?? DEFAULT_MIN_TIME;
+    this.currentMinTime = this.baseMinTime;
+
     this.limiter = new Bottleneck({
       maxConcurrent: config.maxConcurrent ?? DEFAULT_MAX_CONCURRENT,
-      minTime: config.minTime ?? DEFAULT_MIN_TIME,
+      minTime: this.baseMinTime,
     });
   }
 
   /**
    * Make a GET request to the Docsie API (rate limited)
+   *
+   * 429, 5xx and network failures are retried with backoff, waiting at least
+   * as long as the server's Retry-After. Each retry is scheduled through the
+   * limiter again, so a rate-limited client also slows down its other calls.
    */
   async get<T>(endpoint: string): Promise<T> {
-    return this.limiter.schedule(() => this.fetchWithAuth<T>(endpoint));
+    const logger = this.logger.child({ endpoint });
+    logger.debug(`GET ${endpoint}`);
+
+    return withRetry(
+      async () => {
+        try {
+          const result = await this.limiter.schedule(() =>
+            this.timed(endpoint, () => this.fetchWithAuth<T>(endpoint))
+          );
+          this.recordSuccess();
+          return result;
+        } catch (error) {
+          if (error instanceof RateLimitedError) {
+            this.throttle(logger, error.retryAfterMs);
+          }
+          throw error;
+        }
+      },
+      {
+        maxRetries: DEFAULT_MAX_RETRIES,
+        maxDelayMs: DEFAULT_MAX_DELAY_MS,
+        ...this.retryConfig,
+        context: `GET ${endpoint}`,
+        logger,
+        signal: this.signal,
+        retryAfterMs: (error) =>
+          error instanceof RateLimitedError ? error.retryAfterMs : undefined,
+        onRetry: () => this.metrics?.retries.inc({ client: "docsie" }),
+      }
+    );
+  }
+
+  /**
+   * Run a request, recording its latency by endpoint and outcome (the error
+   * category when it failed)
+   */
+  private async timed<T>(endpoint: string, request: () => Promise<T>): Promise<T> {
+    const done = this.metrics?.docsieRequestDuration.startTimer({
+      endpoint: endpointLabel(endpoint),
+    });
+    try {
+      const result = await request();
+      done?.({ outcome: "success" });
+      return result;
+    } catch (error) {
+      done?.({ outcome: categorize(error) });
+      throw error;
+    }
   }
 
   /**
    * Internal fetch with authentication
+   *
+   * @throws ConnectorError subclass matching the HTTP status, or NetworkError
    */
   private async fetchWithAuth<T>(endpoint: string): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
 
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json",
-      },
-    });
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        ...(this.signal && { signal: this.signal }),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(message, { endpoint, cause: error });
+    }
 
     if (!response.ok) {
-      throw new Error(
-        `Docsie API error: ${response.status} ${response.statusText} for ${endpoint}`
+      throw errorFromStatus(
+        response.status,
+        `Docsie API error: ${response.status} ${response.statusText} for ${endpoint}`,
+        {
+          endpoint,
+          responseBody: await readBody(response),
+          retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+        }
       );
     }
 
     return response.json() as Promise<T>;
   }
 
+  /**
+   * Slow the limiter down after a 429 (doubling min time, or spacing requests
+   * by Retry-After when that is longer)
+   */
+  private throttle(logger: Logger, retryAfterMs?: number): void {
+    const slower = Math.max(this.currentMinTime * 2, retryAfterMs ?? 0, 100);
+    const minTime = Math.min(slower, MAX_THROTTLED_MIN_TIME);
+    this.successesSinceThrottle = 0;
+
+    if (minTime !== this.currentMinTime) {
+      logger.warn(`Docsie rate limit hit - slowing requests to one per ${minTime}ms`, {
+        minTimeMs: minTime,
+        retryAfterMs,
+      });
+      this.currentMinTime = minTime;
+      this.limiter.updateSettings({ minTime });
+    }
+  }
+
+  /**
+   * Gradually restore the configured request rate after sustained success
+   */
+  private recordSuccess(): void {
+    if (this.currentMinTime <= this.baseMinTime) {
+      return;
+    }
+
+    this.successesSinceThrottle++;
+    if (this.successesSinceThrottle >= RECOVERY_SUCCESSES) {
+      this.successesSinceThrottle = 0;
+      this.currentMinTime = Math.max(Math.floor(this.currentMinTime / 2), this.baseMinTime);
+      this.limiter.updateSettings({ minTime: this.currentMinTime });
+    }
+  }
+
   /**
    * Fetch all items from a paginated endpoint using offset/limit
    *
@@ -115,32 +263,140 @@ export class DocsieClient {
   }
 
   /**
-   * Fetch all documentation (shelves)
+   * Fetch all documentation (shelves), optionally filtered by workspace
    */
-  async getDocumentation(): Promise<DocsieDocumentation[]> {
-    return this.fetchAllPaginated<DocsieDocumentation>("/documentation/");
+  async getDocumentation(workspaceId?: string): Promise<DocsieDocumentation[]> {
+    const endpoint = workspaceId
+      ? `/documentation/?workspace=${encodeURIComponent(workspaceId)}`
+      : "/documentation/";
+    return this.fetchAllPaginated<DocsieDocumentation>(endpoint);
   }
 
   /**
-   * Fetch all books, optionally filtering out deleted
+   * Fetch all books, optionally filtering out deleted and by documentation
    */
-  async getBooks(includeDeleted: boolean = false): Promise<DocsieBook[]> {
-    const endpoint = includeDeleted ? "/books/" : "/books/?deleted=false";
+  async getBooks(
+    includeDeleted: boolean = false,
+    documentationId?: string
+  ): Promise<DocsieBook[]> {
+    const params: string[] = [];
+    if (!includeDeleted) {
+      params.push("deleted=false");
+    }
+    if (documentationId) {
+      params.push(`documentation=${encodeURIComponent(documentationId)}`);
+    }
+    const endpoint = params.length > 0 ? `/books/?${params.join("&")}` : "/books/";
     return this.fetchAllPaginated<DocsieBook>(endpoint);
   }
 
   /**
-   * Fetch all articles, optionally filtered by book
+   * Fetch all deployments (published portals), optionally filtered by workspace
    */
-  async getArticles(bookId?: string): Promise<DocsieArticle[]> {
-    const endpoint = bookId ? `/articles/?book=${bookId}` : "/articles/";
-    return this.fetchAllPaginated<DocsieArticle>(endpoint);
+  async getDeployments(workspaceId?: string): Promise<DocsieDeployment[]> {
+    const endpoint = workspaceId
+      ? `/deployments/?workspace=${encodeURIComponent(workspaceId)}`
+      : "/deployments/";
+    return this.fetchAllPaginated<DocsieDeployment>(endpoint);
   }
 
   /**
-   * Fetch a single article by ID
+   * Fetch the versions of a book, optionally only active ones
+   */
+  async getVersions(bookId?: string, activeOnly: boolean = false): Promise<DocsieVersion[]> {
+    const params: string[] = [];
+    if (bookId) {
+      params.push(`book=${encodeURIComponent(bookId)}`);
+    }
+    if (activeOnly) {
+      params.push("active=true");
+    }
+    const endpoint = params.length > 0 ? `/versions/?${params.join("&")}` : "/versions/";
+    return this.fetchAllPaginated<DocsieVersion>(endpoint);
+  }
+
+  /**
+   * Fetch the languages of a book, optionally of one of its versions
+   * (all languages if no book is given)
+   */
+  async getLanguages(bookId?: string, versionId?: string): Promise<DocsieLanguage[]> {
+    const params: string[] = [];
+    if (bookId) {
+      params.push(`book=${encodeURIComponent(bookId)}`);
+    }
+    if (versionId) {
+      params.push(`version=${encodeURIComponent(versionId)}`);
+    }
+    const endpoint = params.length > 0 ? `/languages/?${params.join("&")}` : "/languages/";
+    return this.fetchAllPaginated<DocsieLanguage>(endpoint);
+  }
+
+  /**
+   * Fetch all articles, optionally filtered by book, version and language
+   *
+   * Book, documentation, version and language relations are expanded so
+   * each article carries its context (see ARTICLE_EXPANSIONS).
+   */
+  async getArticles(bookId?: string, filters: ArticleFilters = {}): Promise<DocsieArticle[]> {
+    const params = bookId ? [`book=${encodeURIComponent(bookId)}`] : [];
+    if (filters.versionId) {
+      params.push(`version=${encodeURIComponent(filters.versionId)}`);
+    }
+    if (filters.languageId) {
+      params.push(`language=${encodeURIComponent(filters.languageId)}`);
+    }
+    params.push(...ARTICLE_EXPANSIONS.map((field) => `expand[]=${field}`));
+    return this.fetchAllPaginated<DocsieArticle>(`/articles/?${params.join("&")}`);
+  }
+
+  /**
+   * Fetch a single article by ID (with expanded relations)
    */
   async getArticle(articleId: string): Promise<DocsieArticle> {
-    return this.get<DocsieArticle>(`/articles/${articleId}/`);
+    const expand = ARTICLE_EXPANSIONS.map((field) => `expand[]=${field}`).join("&");
+    return this.get<DocsieArticle>(`/articles/${encodeURIComponent(articleId)}/?${expand}`);
+  }
+}
+
+/**
+ * Response body for error reporting (undefined if it cannot be read)
+ */
+async function readBody(response: Response): Promise<string | undefined> {
+  try {
+    return await response.text();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into ms
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
   }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Endpoint as a metric label: without the query, and with IDs replaced so
+ * the number of label values stays bounded (/articles/art_1/?x → /articles/:id/)
+ */
+export function endpointLabel(endpoint: string): string {
+  const path = endpoint.split("?")[0];
+  return path
+    .split("/")
+    .map((segment, index) => (index > 1 && segment ? ":id" : segment))
+    .join("/");
 }
@@ -0,0 +1,243 @@
+import { describe, it, expect } from "vitest";
+import { docToMarkdown } from "./content.js";
+import type {
+  DocBlock,
+  DocContent,
+  EntityRange,
+  InlineStyleRange,
+  ProseMirrorNode,
+} from "./types.js";
+
+function block(
+  text: string,
+  inlineStyleRanges: InlineStyleRange[] = [],
+  entityRanges: EntityRange[] = [],
+  type = "unstyled"
+): DocBlock {
+  return { type, text, depth: 0, inlineStyleRanges, entityRanges };
+}
+
+function render(b: DocBlock, entityMap: DocContent["entityMap"] = {}): string {
+  return docToMarkdown({ blocks: [b], entityMap });
+}
+
+describe("docToMarkdown", () => {
+  describe("inline styles", () => {
+    it("should render each supported style", () => {
+      expect(render(block("bold", [{ offset: 0, length: 4, style: "BOLD" }]))).toBe("**bold**");
+      expect(render(block("it", [{ offset: 0, length: 2, style: "ITALIC" }]))).toBe("*it*");
+      expect(render(block("x()", [{ offset: 0, length: 3, style: "CODE" }]))).toBe("`x()`");
+      expect(render(block("u", [{ offset: 0, length: 1, style: "UNDERLINE" }]))).toBe("<u>u</u>");
+      expect(render(block("gone", [{ offset: 0, length: 4, style: "STRIKETHROUGH" }]))).toBe(
+        "~~gone~~"
+      );
+    });
+
+    it("should style only the range", () => {
+      const b = block("Click Save now", [{ offset: 6, length: 4, style: "BOLD" }]);
+      expect(render(b)).toBe("Click **Save** now");
+    });
+
+    it("should nest overlapping ranges correctly", () => {
+      // "one two three": BOLD over "one two", ITALIC over "two three"
+      const b = block("one two three", [
+        { offset: 0, length: 7, style: "BOLD" },
+        { offset: 4, length: 9, style: "ITALIC" },
+      ]);
+      expect(render(b)).toBe("**one *two*** *three*");
+    });
+
+    it("should keep the longer style outside a nested one", () => {
+      const b = block("all of this", [
+        { offset: 0, length: 11, style: "ITALIC" },
+        { offset: 0, length: 3, style: "BOLD" },
+      ]);
+      expect(render(b)).toBe("***all** of this*");
+    });
+
+    it("should move surrounding whitespace outside markers", () => {
+      const b = block("a bold b", [{ offset: 1, length: 6, style: "BOLD" }]);
+      expect(render(b)).toBe("a **bold** b");
+    });
+
+    it("should count offsets in code points", () => {
+      const b = block("🎉 party", [{ offset: 2, length: 5, style: "BOLD" }]);
+      expect(render(b)).toBe("🎉 **party**");
+    });
+
+    it("should use a longer fence for code containing backticks", () => {
+      const b = block("a`b", [{ offset: 0, length: 3, style: "CODE" }]);
+      expect(render(b)).toBe("`` a`b ``");
+    });
+
+    it("should not escape text inside code spans", () => {
+      const b = block("use *args", [{ offset: 4, length: 5, style: "CODE" }]);
+      expect(render(b)).toBe("use `*args`");
+    });
+
+    it("should ignore unknown styles", () => {
+      const b = block("plain", [{ offset: 0, length: 5, style: "HIGHLIGHT" }]);
+      expect(render(b)).toBe("plain");
+    });
+
+    it("should not double-bold step headers", () => {
+      const b = block("Step 1", [{ offset: 0, length: 6, style: "BOLD" }], [], "header-step");
+      expect(render(b)).toBe("**Step 1**");
+    });
+  });
+
+  describe("entities", () => {
+    it("should render links", () => {
+      const b = block("See the docs here", [], [{ offset: 8, length: 4, key: 0 }]);
+      const md = render(b, { "0": { type: "LINK", data: { url: "https://docs.example.com" } } });
+      expect(md).toBe("See the [docs](https://docs.example.com) here");
+    });
+
+    it("should keep styles inside link text", () => {
+      const b = block(
+        "the guide",
+        [{ offset: 4, length: 5, style: "BOLD" }],
+        [{ offset: 0, length: 9, key: "1" }]
+      );
+      const md = render(b, { "1": { type: "LINK", data: { href: "https://x.test/a b" } } });
+      expect(md).toBe("[the **guide**](https://x.test/a%20b)");
+    });
+
+    it("should render images", () => {
+      const b = block(" ", [], [{ offset: 0, length: 1, key: 0 }]);
+      const md = render(b, {
+        "0": { type: "IMAGE", data: { src: "https://img.test/a.png", alt: "Diagram" } },
+      });
+      expect(md).toBe("![Diagram](https://img.test/a.png)");
+    });
+
+    it("should fall back to plain text for unknown entities", () => {
+      const b = block("@jane", [], [{ offset: 0, length: 5, key: 0 }]);
+      expect(render(b, { "0": { type: "MENTION", data: {} } })).toBe("@jane");
+    });
+  });
+
+  describe("escaping", () => {
+    it("should escape inline Markdown characters", () => {
+      expect(render(block("2 * 3 [note] <tag>"))).toBe("2 \\* 3 \\[note\\] \\<tag>");
+    });
+
+    it("should keep intraword underscores", () => {
+      expect(render(block("set max_retries or _x_"))).toBe("set max_retries or \\_x\\_");
+    });
+
+    it("should escape block markers at the start of a paragraph", () => {
+      expect(render(block("# not a heading"))).toBe("\\# not a heading");
+      expect(render(block("- not a list"))).toBe("\\- not a list");
+      expect(render(block("1. not a list"))).toBe("1\\. not a list");
+    });
+  });
+
+  describe("tables", () => {
+    const text = (value: string) => ({ type: "text", text: value });
+    const cell = (
+      value: string,
+      type = "table_cell",
+      attrs?: Record<string, unknown>
+    ): ProseMirrorNode => ({
+      type,
+      attrs,
+      content: [{ type: "paragraph", content: value ? [text(value)] : [] }],
+    });
+    const table = (...rows: ProseMirrorNode[][]): ProseMirrorNode => ({
+      type: "table",
+      content: rows.map((cells) => ({ type: "table_row", content: cells })),
+    });
+    const contentBlock = (...content: ProseMirrorNode[]): DocBlock => ({
+      type: "content",
+      text: "",
+      content,
+    });
+
+    it("should render ProseMirror tables as GFM tables with their header row", () => {
+      const markdown = render(
+        contentBlock(
+          table(
+            [cell("Plan", "table_header"), cell("Price", "table_header")],
+            [cell("Basic"), cell("$10")],
+            [cell("Pro"), cell("$20")]
+          )
+        )
+      );
+
+      expect(markdown).toBe(
+        ["| Plan | Price |", "| --- | --- |", "| Basic | $10 |", "| Pro | $20 |"].join("\n")
+      );
+    });
+
+    it("should add an empty header row when the first row is not a header", () => {
+      const markdown = render(contentBlock(table([cell("Basic"), cell("$10")])));
+
+      expect(markdown).toBe(["|  |  |", "| --- | --- |", "| Basic | $10 |"].join("\n"));
+    });
+
+    it("should escape pipes and keep cell paragraphs on separate lines", () => {
+      const twoParagraphs: ProseMirrorNode = {
+        type: "table_cell",
+        content: [
+          { type: "paragraph", content: [text("Line one")] },
+          { type: "paragraph", content: [text("Line two")] },
+        ],
+      };
+      const markdown = render(
+        contentBlock(table([cell("Syntax", "tableHeader")], [cell("a | b")], [twoParagraphs]))
+      );
+
+      expect(markdown).toContain("| a \\| b |");
+      expect(markdown).toContain("| Line one<br>Line two |");
+    });
+
+    it("should pad short rows to the widest row", () => {
+      const markdown = render(
+        contentBlock(table([cell("A", "table_header"), cell("B", "table_header")], [cell("1")]))
+      );
+
+      expect(markdown).toContain("| 1 |  |");
+    });
+
+    it("should fall back to HTML for merged cells", () => {
+      const markdown = render(
+        contentBlock(
+          table(
+            [cell("Compatibility", "table_header", { colspan: 2 })],
+            [cell("v1 & v2"), cell("<yes>")]
+          )
+        )
+      );
+
+      expect(markdown).toBe(
+        [
+          "<table>",
+          '<tr><th colspan="2">Compatibility</th></tr>',
+          "<tr><td>v1 &amp; v2</td><td>&lt;yes&gt;</td></tr>",
+          "</table>",
+        ].join("\n")
+      );
+    });
+
+    it("should render table blocks with rows of cell texts", () => {
+      const tableBlock: DocBlock = {
+        type: "table",
+        text: "",
+        data: {
+          rows: [
+            ["OS", "Supported"],
+            ["Linux", "Yes"],
+          ],
+        },
+      };
+
+      expect(render(tableBlock)).toBe(
+        ["| OS | Supported |", "| --- | --- |", "| Linux | Yes |"].join("\n")
+      );
+      expect(render({ ...tableBlock, data: { ...tableBlock.data, header: false } })).toBe(
+        ["|  |  |", "| --- | --- |", "| OS | Supported |", "| Linux | Yes |"].join("\n")
+      );
+    });
+  });
+});
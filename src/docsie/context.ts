@@ -0,0 +1,93 @@
+/**
+ * Article Context
+ *
+ * Resolves which book, documentation shelf, version and language an article
+ * belongs to from its expanded relations, and builds the human-readable
+ * breadcrumb used in Maven metadata (e.g. "Admin Guide › v3 › Billing").
+ */
+
+import type { DocsieArticle, ExpandedRelation } from "./types.js";
+
+export const BREADCRUMB_SEPARATOR = " › ";
+
+export interface ContextItem {
+  id: string;
+  /** Display name, when the relation was expanded */
+  name?: string;
+}
+
+export interface ArticleContext {
+  book?: ContextItem;
+  documentation?: ContextItem;
+  version?: ContextItem & {
+    /** Version number, e.g. "3.0" */
+    number?: string;
+  };
+  language?: ContextItem & {
+    /** Language code, e.g. "en" */
+    code?: string;
+  };
+}
+
+/**
+ * Resolve an article's context from its relations (missing ones are omitted)
+ */
+export function resolveArticleContext(article: DocsieArticle): ArticleContext {
+  const context: ArticleContext = {};
+
+  const book = first(article.book);
+  if (book) {
+    context.book = item(book, (b) => b.name);
+  }
+
+  const documentation = first(article.documentation);
+  if (documentation) {
+    context.documentation = item(documentation, (d) => d.name);
+  }
+
+  const version = first(article.version);
+  if (version) {
+    context.version = {
+      ...item(version, (v) => v.name || v.number),
+      ...(typeof version !== "string" && version.number && { number: version.number }),
+    };
+  }
+
+  const language = first(article.language);
+  if (language) {
+    context.language = {
+      ...item(language, (l) => l.language),
+      ...(typeof language !== "string" &&
+        language.abbreviation && { code: language.abbreviation }),
+    };
+  }
+
+  return context;
+}
+
+/**
+ * Breadcrumb parts for an article: book › version › article
+ */
+export function articleBreadcrumb(
+  article: DocsieArticle,
+  context: ArticleContext = resolveArticleContext(article)
+): string[] {
+  return [context.book?.name, context.version?.name, article.name].filter(
+    (part): part is string => Boolean(part)
+  );
+}
+
+function first<T>(relation: ExpandedRelation<T> | undefined): T | string | undefined {
+  return relation?.results?.[0];
+}
+
+function item<T extends { id: string }>(
+  value: T | string,
+  getName: (value: T) => string | undefined
+): ContextItem {
+  if (typeof value === "string") {
+    return { id: value };
+  }
+  const name = getName(value);
+  return name ? { id: value.id, name } : { id: value.id };
+}
@@ -1,14 +1,29 @@
-export { DocsieClient } from "./client.js";
-export type { DocsieClientConfig } from "./client.js";
+export { DocsieClient, parseRetryAfter } from "./client.js";
+export type { DocsieClientConfig, ArticleFilters } from "./client.js";
 export { docToMarkdown } from "./content.js";
+export { renderInlineText, escapeMarkdown } from "./inline.js";
+export { renderTable } from "./table.js";
+export type { TableCell, TableRow } from "./table.js";
+export { resolveArticleContext, articleBreadcrumb } from "./context.js";
+export type { ArticleContext, ContextItem } from "./context.js";
+export {
+  ArticleUrlResolver,
+  createUrlResolver,
+  renderUrlTemplate,
+  DEFAULT_URL_TEMPLATE,
+} from "./urls.js";
+export type { UrlOptions } from "./urls.js";
 export type {
   PaginatedResponse,
   DocsieWorkspace,
   DocsieDocumentation,
   DocsieBook,
   DocsieArticle,
+  DocsieDeployment,
   DocsieVersion,
   DocsieLanguage,
   DocBlock,
   DocContent,
+  DraftEntity,
+  ExpandedRelation,
 } from "./types.js";
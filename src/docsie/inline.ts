@@ -0,0 +1,297 @@
+/**
+ * Draft.js Inline Markdown Rendering
+ *
+ * Renders a block's text with its inline style ranges (BOLD, ITALIC, CODE,
+ * UNDERLINE, STRIKETHROUGH) and entity ranges (LINK, IMAGE) as Markdown.
+ *
+ * Ranges may overlap arbitrarily. The text is split into runs that share the
+ * same styles and entity, and emphasis markers are opened/closed at run
+ * boundaries so the output is always properly nested. Draft.js offsets count
+ * Unicode code points, not UTF-16 units.
+ */
+
+import type { DocContent, DraftEntity, EntityRange, InlineStyleRange } from "./types.js";
+
+interface StyleMarker {
+  open: string;
+  close: string;
+}
+
+const STYLE_MARKERS: Record<string, StyleMarker> = {
+  BOLD: { open: "**", close: "**" },
+  ITALIC: { open: "*", close: "*" },
+  STRIKETHROUGH: { open: "~~", close: "~~" },
+  UNDERLINE: { open: "<u>", close: "</u>" },
+  // CODE is always innermost: Markdown renders nothing inside a code span
+  CODE: { open: "`", close: "`" },
+};
+
+export interface InlineBlock {
+  text: string;
+  inlineStyleRanges?: InlineStyleRange[];
+  entityRanges?: EntityRange[];
+}
+
+export interface InlineOptions {
+  /** Styles to ignore, e.g. BOLD inside an already-bold step header */
+  ignoreStyles?: string[];
+}
+
+interface Run {
+  text: string;
+  /** Supported styles applied to the run */
+  styles: Set<string>;
+}
+
+interface OpenStyle {
+  style: string;
+  close: string;
+}
+
+/**
+ * Render a Draft.js block's text as Markdown with inline formatting
+ */
+export function renderInlineText(
+  block: InlineBlock,
+  entityMap: DocContent["entityMap"] = {},
+  options: InlineOptions = {}
+): string {
+  const chars = Array.from(block.text ?? "");
+  if (chars.length === 0) {
+    return "";
+  }
+
+  const ignored = new Set(options.ignoreStyles ?? []);
+  const styles: Array<Set<string>> = chars.map(() => new Set<string>());
+  for (const range of block.inlineStyleRanges ?? []) {
+    const style = range.style?.toUpperCase();
+    if (!style || !(style in STYLE_MARKERS) || ignored.has(style)) {
+      continue;
+    }
+    for (let i = range.offset; i < range.offset + range.length && i < chars.length; i++) {
+      if (i >= 0) styles[i].add(style);
+    }
+  }
+
+  const entityKeys: Array<string | null> = chars.map(() => null);
+  for (const range of block.entityRanges ?? []) {
+    for (let i = range.offset; i < range.offset + range.length && i < chars.length; i++) {
+      if (i >= 0) entityKeys[i] = String(range.key);
+    }
+  }
+
+  // Split by entity first: links must wrap whole styled fragments
+  let output = "";
+  let segmentStart = 0;
+  for (let i = 1; i <= chars.length; i++) {
+    if (i < chars.length && entityKeys[i] === entityKeys[segmentStart]) {
+      continue;
+    }
+
+    const key = entityKeys[segmentStart];
+    const entity = key !== null ? entityMap?.[key] : undefined;
+    output += renderSegment(
+      chars.slice(segmentStart, i),
+      styles.slice(segmentStart, i),
+      entity
+    );
+    segmentStart = i;
+  }
+
+  return output;
+}
+
+/**
+ * Escape characters that would otherwise be read as inline Markdown
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*[\]<~]/g, "\\$&")
+    .replace(/(^|[^\p{L}\p{N}])_|_(?=[^\p{L}\p{N}]|$)/gu, (match) =>
+      match.replace("_", "\\_")
+    );
+}
+
+/**
+ * Escape a leading character that would turn a paragraph into a heading,
+ * blockquote or list item
+ */
+export function escapeBlockStart(markdown: string): string {
+  return markdown
+    .replace(/^(\s*)([#>])/, "$1\\$2")
+    .replace(/^(\s*)([-+])(?=\s)/, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])(?=\s)/, "$1\\$2");
+}
+
+function renderSegment(
+  chars: string[],
+  styles: Array<Set<string>>,
+  entity: DraftEntity | undefined
+): string {
+  const type = entity?.type?.toUpperCase();
+  const data = entity?.data ?? {};
+
+  if (type === "IMAGE") {
+    const src = stringValue(data.src) ?? stringValue(data.url);
+    if (src) {
+      const alt = stringValue(data.alt) ?? chars.join("").trim();
+      return `![${escapeMarkdown(alt)}](${escapeUrl(src)})`;
+    }
+  }
+
+  const inner = renderStyledRuns(buildRuns(chars, styles));
+
+  if (type === "LINK") {
+    const url = stringValue(data.url) ?? stringValue(data.href);
+    if (url && inner.trim()) {
+      return `[${inner}](${escapeUrl(url)})`;
+    }
+  }
+
+  return inner;
+}
+
+function buildRuns(chars: string[], styles: Array<Set<string>>): Run[] {
+  const runs: Run[] = [];
+
+  for (let i = 0; i < chars.length; i++) {
+    const last = runs[runs.length - 1];
+    if (last && sameStyles(last.styles, styles[i])) {
+      last.text += chars[i];
+    } else {
+      runs.push({ text: chars[i], styles: styles[i] });
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Emit runs, opening and closing markers so that spans nest properly
+ */
+function renderStyledRuns(runs: Run[]): string {
+  let output = "";
+  const stack: OpenStyle[] = [];
+
+  for (let r = 0; r < runs.length; r++) {
+    const run = runs[r];
+
+    // Whitespace-only runs never change styling; emphasis can't start or end on them
+    if (run.text.trim() === "") {
+      output += inCode(stack) ? run.text : escapeMarkdown(run.text);
+      continue;
+    }
+
+    // Keep the longest prefix of open styles that still applies
+    let keep = 0;
+    while (keep < stack.length && run.styles.has(stack[keep].style)) {
+      keep++;
+    }
+
+    const toOpen = orderForOpening(
+      [...run.styles].filter((s) => !stack.slice(0, keep).some((o) => o.style === s)),
+      runs,
+      r
+    );
+
+    // CODE must stay innermost, so close it before opening anything else
+    if (toOpen.length > 0 && keep > 0 && stack[keep - 1].style === "CODE") {
+      keep--;
+      toOpen.push("CODE");
+    }
+
+    if (keep < stack.length) {
+      output = closeStyles(output, stack.splice(keep));
+    }
+
+    const leading = run.text.match(/^\s*/)![0];
+    const body = run.text.slice(leading.length);
+    output += inCode(stack) ? leading : escapeMarkdown(leading);
+
+    for (const style of toOpen) {
+      const marker =
+        style === "CODE" ? codeFence(codeSpanText(runs, r)) : STYLE_MARKERS[style];
+      output += marker.open;
+      stack.push({ style, close: marker.close });
+    }
+
+    output += inCode(stack) ? body : escapeMarkdown(body);
+  }
+
+  return closeStyles(output, stack);
+}
+
+/**
+ * Open longer-lasting styles first so they close last; CODE always last
+ */
+function orderForOpening(styles: string[], runs: Run[], from: number): string[] {
+  const extent = (style: string): number => {
+    let end = from;
+    while (end + 1 < runs.length && runs[end + 1].styles.has(style)) {
+      end++;
+    }
+    return end;
+  };
+
+  return styles.sort((a, b) => {
+    if (a === "CODE") return 1;
+    if (b === "CODE") return -1;
+    return extent(b) - extent(a);
+  });
+}
+
+/**
+ * Close styles (innermost first), moving trailing whitespace outside the markers
+ */
+function closeStyles(output: string, styles: OpenStyle[]): string {
+  if (styles.length === 0) {
+    return output;
+  }
+
+  const trailing = output.match(/\s*$/)![0];
+  let result = output.slice(0, output.length - trailing.length);
+  for (let i = styles.length - 1; i >= 0; i--) {
+    result += styles[i].close;
+  }
+  styles.length = 0;
+  return result + trailing;
+}
+
+function inCode(stack: OpenStyle[]): boolean {
+  return stack.some((s) => s.style === "CODE");
+}
+
+/**
+ * Text of the code span starting at run r (until CODE ends)
+ */
+function codeSpanText(runs: Run[], r: number): string {
+  let text = runs[r].text.trimStart();
+  for (let i = r + 1; i < runs.length && runs[i].styles.has("CODE"); i++) {
+    text += runs[i].text;
+  }
+  return text;
+}
+
+/**
+ * Backtick fence longer than any backtick run inside the code
+ */
+function codeFence(code: string): StyleMarker {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((m) => m.length));
+  if (longest === 0) {
+    return STYLE_MARKERS.CODE;
+  }
+  const fence = "`".repeat(longest + 1);
+  return { open: `${fence} `, close: ` ${fence}` };
+}
+
+function sameStyles(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && [...a].every((s) => b.has(s));
+}
+
+function escapeUrl(url: string): string {
+  return url.trim().replace(/[\s()<>]/g, (c) => encodeURIComponent(c));
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
@@ -0,0 +1,77 @@
+/**
+ * Table Rendering
+ *
+ * Renders tables as GFM (GitHub Flavored Markdown) tables. GFM tables need a
+ * header row: the first row is the header when all its cells are header
+ * cells, otherwise an empty header row is added. Cells are single lines, so
+ * line breaks become <br> and pipes are escaped.
+ *
+ * GFM has no merged cells: a table with any cell spanning several columns or
+ * rows is rendered as an HTML table instead.
+ */
+
+export interface TableCell {
+  text: string;
+  /** Header cell (<th>) */
+  header?: boolean;
+  colspan?: number;
+  rowspan?: number;
+}
+
+export type TableRow = TableCell[];
+
+/**
+ * Render a table as Markdown (or HTML when cells are merged)
+ */
+export function renderTable(rows: TableRow[]): string {
+  const table = rows.filter((row) => row.length > 0);
+  if (table.length === 0) {
+    return "";
+  }
+
+  const merged = table.some((row) =>
+    row.some((cell) => (cell.colspan ?? 1) > 1 || (cell.rowspan ?? 1) > 1)
+  );
+  return merged ? renderHtmlTable(table) : renderGfmTable(table);
+}
+
+function renderGfmTable(rows: TableRow[]): string {
+  const columns = Math.max(...rows.map((row) => row.length));
+  const hasHeader = rows[0].every((cell) => cell.header);
+  const header = hasHeader ? rows[0].map((cell) => cell.text) : [];
+  const body = (hasHeader ? rows.slice(1) : rows).map((row) => row.map((cell) => cell.text));
+
+  const line = (texts: string[]) => {
+    const cells = Array.from({ length: columns }, (_, i) => escapeCell(texts[i] ?? ""));
+    return `| ${cells.join(" | ")} |`;
+  };
+
+  return [
+    line(header),
+    `|${" --- |".repeat(columns)}`,
+    ...body.map(line),
+  ].join("\n");
+}
+
+function renderHtmlTable(rows: TableRow[]): string {
+  const lines = ["<table>"];
+  for (const row of rows) {
+    const cells = row.map((cell) => {
+      const tag = cell.header ? "th" : "td";
+      const colspan = (cell.colspan ?? 1) > 1 ? ` colspan="${cell.colspan}"` : "";
+      const rowspan = (cell.rowspan ?? 1) > 1 ? ` rowspan="${cell.rowspan}"` : "";
+      return `<${tag}${colspan}${rowspan}>${escapeHtml(cell.text).replace(/\n/g, "<br>")}</${tag}>`;
+    });
+    lines.push(`<tr>${cells.join("")}</tr>`);
+  }
+  lines.push("</table>");
+  return lines.join("\n");
+}
+
+function escapeCell(text: string): string {
+  return text.trim().replace(/\|/g, "\\|").replace(/\n+/g, "<br>");
+}
+
+function escapeHtml(text: string): string {
+  return text.trim().replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -63,6 +63,7 @@ export interface DocsieDocumentation {
   administrators: number[];
   editors: number[];
   viewers: number[];
+  workspace?: ExpandedRelation<DocsieWorkspace>;
 }
 
 export interface DocsieBook {
@@ -134,10 +135,28 @@ export interface DocBlock {
   content?: ProseMirrorNode[];
 }
 
+/** Draft.js entity (LINK, IMAGE, ...) referenced by entity ranges */
+export interface DraftEntity {
+  type: string;
+  mutability?: string;
+  data?: Record<string, unknown>;
+}
+
 /** Article document content */
 export interface DocContent {
   blocks: DocBlock[];
-  entityMap?: Record<string, unknown>;
+  entityMap?: Record<string, DraftEntity>;
+}
+
+/**
+ * Related objects on a resource. Requested with `expand[]=<field>` the
+ * results are full objects; otherwise they may be bare IDs.
+ */
+export interface ExpandedRelation<T> {
+  count: number;
+  has_more: boolean;
+  url: string;
+  results: Array<T | string>;
 }
 
 export interface DocsieArticle {
@@ -152,6 +171,10 @@ export interface DocsieArticle {
   updated_by: number;
   updators: number[];
   revision: number;
+  book?: ExpandedRelation<DocsieBook>;
+  documentation?: ExpandedRelation<DocsieDocumentation>;
+  version?: ExpandedRelation<DocsieVersion>;
+  language?: ExpandedRelation<DocsieLanguage>;
 }
 
 export interface DocsieVersion {
@@ -175,6 +198,24 @@ export interface DocsieLanguage {
   active: boolean;
 }
 
+/** Published portal for a documentation shelf or book */
+export interface DocsieDeployment {
+  id: string;
+  created: string;
+  modified: string;
+  deleted: boolean;
+  /** ID of the deployed documentation or book */
+  target_object_id: string;
+  target_content_type: number;
+  /** Custom domain, if configured */
+  domain: string | null;
+  /** Portal URL */
+  host: string;
+  title: string | null;
+  workspace: string | null;
+  meta: Record<string, unknown> | null;
+}
+
 export interface DocsieJob {
   id: string;
   modified: string;
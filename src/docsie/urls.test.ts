@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from "vitest";
+import { ArticleUrlResolver, createUrlResolver, renderUrlTemplate } from "./urls.js";
+import type { DocsieArticle } from "./types.js";
+
+const relation = (results: unknown[]) => ({ count: results.length, has_more: false, url: "", results });
+
+const article = (overrides: Record<string, unknown> = {}): DocsieArticle =>
+  ({
+    id: "art_1",
+    name: "Billing",
+    slug: "billing",
+    doc: { blocks: [] },
+    book: relation([{ id: "boo_admin", slug: "admin-guide", url_path: "admin" }]),
+    documentation: relation([
+      { id: "doc_main", slug: "product", workspace: relation(["ws_1"]) },
+    ]),
+    version: relation([{ id: "ver_3", name: "v3" }]),
+    language: relation([{ id: "lan_en", language: "English", abbreviation: "en" }]),
+    ...overrides,
+  }) as unknown as DocsieArticle;
+
+describe("ArticleUrlResolver", () => {
+  it("should prefer the deployment of the article's book", () => {
+    const resolver = new ArticleUrlResolver({}, [
+      { target_object_id: "doc_main", domain: "docs.example.com", host: "", deleted: false } as any,
+      { target_object_id: "boo_admin", domain: null, host: "https://acme.docsie.io/", deleted: false } as any,
+    ]);
+
+    expect(resolver.resolve(article())).toBe("https://acme.docsie.io/admin/billing/");
+  });
+
+  it("should fall back to the workspace custom domain", () => {
+    const resolver = new ArticleUrlResolver({}, [], [
+      { id: "ws_1", domain_name: "help.example.com" } as any,
+    ]);
+
+    expect(resolver.resolve(article())).toBe("https://help.example.com/admin/billing/");
+  });
+
+  it("should use the configured base URL and template", () => {
+    const resolver = new ArticleUrlResolver({
+      baseUrl: "https://portal.internal/docs/",
+      template: "{baseUrl}/{language}/{bookSlug}/{version}/{articleSlug}",
+    });
+
+    expect(resolver.resolve(article())).toBe(
+      "https://portal.internal/docs/en/admin-guide/v3/billing"
+    );
+  });
+
+  it("should return undefined when the base URL is unknown", () => {
+    const resolver = new ArticleUrlResolver();
+
+    expect(resolver.resolve(article())).toBeUndefined();
+  });
+});
+
+describe("createUrlResolver", () => {
+  it("should continue without deployments when they cannot be listed", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const client = { getDeployments: vi.fn().mockRejectedValue(new Error("Forbidden")) };
+
+    const resolver = await createUrlResolver(client as any, [
+      { id: "ws_1", domain_name: "help.example.com" } as any,
+    ]);
+
+    expect(resolver.resolve(article())).toBe("https://help.example.com/admin/billing/");
+  });
+
+  it("should not list deployments when a base URL is configured", async () => {
+    const client = { getDeployments: vi.fn() };
+
+    await createUrlResolver(client as any, [], { baseUrl: "https://portal.internal" });
+
+    expect(client.getDeployments).not.toHaveBeenCalled();
+  });
+});
+
+describe("renderUrlTemplate", () => {
+  it("should encode path values and collapse duplicate slashes", () => {
+    expect(
+      renderUrlTemplate("{baseUrl}/{bookPath}/{articleSlug}", {
+        baseUrl: "https://x.test",
+        bookPath: "a b/",
+        articleSlug: "c",
+      })
+    ).toBe("https://x.test/a%20b/c");
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Public Article URLs
+ *
+ * Computes the published URL of each article from a URL template. The
+ * portal base URL comes from (in order): the configured override for
+ * self-hosted portals, the deployment of the article's book or
+ * documentation shelf, or the workspace's custom domain.
+ *
+ * Template placeholders:
+ *   {baseUrl} {bookPath} {bookSlug} {bookId} {documentationSlug}
+ *   {documentationId} {articleSlug} {articleId} {version} {language}
+ */
+
+import type { DocsieClient } from "./client.js";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import { resolveArticleContext } from "./context.js";
+import type {
+  DocsieArticle,
+  DocsieBook,
+  DocsieDeployment,
+  DocsieDocumentation,
+  DocsieWorkspace,
+} from "./types.js";
+
+export const DEFAULT_URL_TEMPLATE = "{baseUrl}/{bookPath}/{articleSlug}/";
+
+export interface UrlOptions {
+  /** URL template (default: DEFAULT_URL_TEMPLATE) */
+  template?: string;
+  /** Portal base URL, overriding deployments and workspace domains */
+  baseUrl?: string;
+}
+
+export class ArticleUrlResolver {
+  private readonly template: string;
+  private readonly baseUrl?: string;
+  /** Portal base URL by deployed book/documentation ID */
+  private readonly deploymentUrls = new Map<string, string>();
+  /** Custom domain base URL by workspace ID */
+  private readonly workspaceUrls = new Map<string, string>();
+
+  constructor(
+    options: UrlOptions = {},
+    deployments: DocsieDeployment[] = [],
+    workspaces: DocsieWorkspace[] = []
+  ) {
+    this.template = options.template || DEFAULT_URL_TEMPLATE;
+    this.baseUrl = options.baseUrl ? trimSlashes(options.baseUrl) : undefined;
+
+    for (const deployment of deployments) {
+      const url = deployment.domain ? `https://${deployment.domain}` : deployment.host;
+      if (!deployment.deleted && url) {
+        this.deploymentUrls.set(deployment.target_object_id, trimSlashes(url));
+      }
+    }
+
+    for (const workspace of workspaces) {
+      if (workspace.domain_name) {
+        this.workspaceUrls.set(workspace.id, `https://${trimSlashes(workspace.domain_name)}`);
+      }
+    }
+  }
+
+  /**
+   * Public URL of an article, or undefined when a placeholder the template
+   * needs cannot be resolved
+   */
+  resolve(article: DocsieArticle): string | undefined {
+    const book = expanded<DocsieBook>(article.book);
+    const documentation = expanded<DocsieDocumentation>(article.documentation);
+    const context = resolveArticleContext(article);
+
+    return renderUrlTemplate(this.template, {
+      baseUrl: this.resolveBaseUrl(book, documentation, context.book?.id, context.documentation?.id),
+      bookPath: book?.url_path ? trimSlashes(book.url_path) : book?.slug,
+      bookSlug: book?.slug,
+      bookId: context.book?.id,
+      documentationSlug: documentation?.slug,
+      documentationId: context.documentation?.id,
+      articleSlug: article.slug,
+      articleId: article.id,
+      version: context.version?.name,
+      language: context.language?.code,
+    });
+  }
+
+  private resolveBaseUrl(
+    book: DocsieBook | undefined,
+    documentation: DocsieDocumentation | undefined,
+    bookId: string | undefined,
+    documentationId: string | undefined
+  ): string | undefined {
+    if (this.baseUrl) {
+      return this.baseUrl;
+    }
+
+    for (const id of [book?.id ?? bookId, documentation?.id ?? documentationId]) {
+      const url = id ? this.deploymentUrls.get(id) : undefined;
+      if (url) {
+        return url;
+      }
+    }
+
+    const workspace = documentation?.workspace?.results?.[0];
+    const workspaceId = typeof workspace === "string" ? workspace : workspace?.id;
+    return workspaceId ? this.workspaceUrls.get(workspaceId) : undefined;
+  }
+}
+
+/**
+ * Build a resolver, loading deployments unless a base URL is configured.
+ * Failing to list deployments only disables that source of base URLs.
+ */
+export async function createUrlResolver(
+  client: DocsieClient,
+  workspaces: DocsieWorkspace[],
+  options: UrlOptions = {},
+  logger: Logger = defaultLogger
+): Promise<ArticleUrlResolver> {
+  let deployments: DocsieDeployment[] = [];
+
+  if (!options.baseUrl) {
+    try {
+      deployments = await client.getDeployments();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Could not list Docsie deployments, using workspace domains: ${message}`, {
+        error,
+      });
+    }
+  }
+
+  return new ArticleUrlResolver(options, deployments, workspaces);
+}
+
+/**
+ * Fill `{name}` placeholders; undefined if any used placeholder has no value
+ */
+export function renderUrlTemplate(
+  template: string,
+  values: Record<string, string | undefined>
+): string | undefined {
+  let missing = false;
+
+  const url = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = values[name];
+    if (!value) {
+      missing = true;
+      return "";
+    }
+    return name === "baseUrl" ? value : encodePath(value);
+  });
+
+  if (missing) {
+    return undefined;
+  }
+
+  // Collapse duplicate slashes left by path values, keeping the scheme's
+  return url.replace(/([^:/])\/{2,}/g, "$1/");
+}
+
+function expanded<T>(relation: { results?: Array<T | string> } | undefined): T | undefined {
+  const value = relation?.results?.[0];
+  return value !== undefined && typeof value !== "string" ? value : undefined;
+}
+
+function encodePath(value: string): string {
+  return value.split("/").map(encodeURIComponent).join("/");
+}
+
+function trimSlashes(value: string): string {
+  return value.replace(/^\/+|\/+$/g, "");
+}
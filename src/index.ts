@@ -5,23 +5,64 @@
  * Syncs Docsie documentation to Maven AGI knowledge base.
  *
  * Usage:
- *   pnpm start [sync|validate]
+ *   pnpm start [sync|validate|serve|config print] [options]
+ *   pnpm start sync --profile <name> | --all-profiles
  *
  * Commands:
- *   sync     - Run full sync (default)
- *   validate - Test credentials and count resources
+ *   sync         - Run full sync (default)
+ *   validate     - Test credentials and count resources
+ *   serve        - Run syncs on a schedule with /healthz, /status, /metrics, POST /sync
+ *                  and Docsie webhooks
+ *   config print - Show the effective config with secrets redacted
  */
 
 import "dotenv/config";
-import { validateEnv, getConfig, runSync, runValidate } from "./cli/index.js";
-
-const KNOWLEDGE_BASE_ID = process.env.MAVEN_KNOWLEDGE_BASE_ID ?? "docsie-kb";
+import { randomUUID } from "node:crypto";
+import {
+  validateEnv,
+  getConfig,
+  runSync,
+  runValidate,
+  parseCliArgs,
+  applyCliArgs,
+  USAGE,
+  loadConfigFile,
+  formatConfig,
+  selectProfiles,
+  applyProfile,
+  runProfiles,
+  writeReport,
+  type CliArgs,
+  type Config,
+  type LoadedConfigFile,
+  type RunResult,
+} from "./cli/index.js";
+import { suffixFile } from "./sync/index.js";
+import { serve, stopOnSignals } from "./server/index.js";
+import { exitCodeFor } from "./utils/errors.js";
+import { createLogger, type Logger } from "./utils/logger.js";
+import { createSyncMetrics, writeMetricsFile } from "./utils/metrics.js";
 
 async function main(): Promise<void> {
-  console.log("Docsie Connector v1.0.0\n");
+  let args: CliArgs;
+  try {
+    args = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    process.exit(1);
+  }
 
-  // Validate environment
-  const envResult = validateEnv();
+  let configFile: LoadedConfigFile | undefined;
+  try {
+    configFile = await loadConfigFile(args.configFile);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(exitCodeFor(error));
+  }
+
+  // Validate environment (required settings may also come from the config file)
+  const envResult = validateEnv(configFile?.config);
   if (!envResult.valid) {
     console.error("Missing required environment variables:");
     for (const missing of envResult.missing) {
@@ -31,23 +72,124 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  const config = getConfig();
-  const command = process.argv[2] ?? "sync";
+  // One config per selected profile (CLI flags still override each profile)
+  let configs: Config[];
+  try {
+    const base = getConfig(configFile?.config, configFile?.path);
+    const profiles = selectProfiles(base, args.profiles, args.allProfiles);
+    configs = (profiles.length > 0 ? profiles.map((name) => applyProfile(base, name)) : [base])
+      .map((config) => applyCliArgs(config, args));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(exitCodeFor(error));
+  }
+  const command = args.command;
+  const several = configs.length > 1;
+
+  // Every log record of this run carries its correlation ID
+  const logger = createLogger({
+    ...configs[0].logging,
+    fields: { correlationId: randomUUID(), command },
+  });
+  const metrics = createSyncMetrics();
+  const runEach = (run: (config: Config, logger: Logger) => Promise<RunResult>) =>
+    several ? runProfiles(configs, run, logger) : run(configs[0], logger);
+
+  // `config print` output stays machine-readable
+  if (command !== "config") {
+    logger.info("Docsie Connector v1.0.0\n");
+  }
 
   let result;
 
   switch (command) {
     case "validate":
-      result = await runValidate(config, KNOWLEDGE_BASE_ID);
+      result = await runEach((config, logger) =>
+        runValidate(config, config.maven.knowledgeBaseId, { logger })
+      );
       break;
 
     case "sync":
-      result = await runSync(config, KNOWLEDGE_BASE_ID);
+      result = await runEach((config, logger) =>
+        runSync(config, config.maven.knowledgeBaseId, {
+          dryRun: args.dryRun,
+          // One plan file per profile when several run
+          planFile:
+            args.planFile && several && config.profile
+              ? suffixFile(args.planFile, config.profile)
+              : args.planFile,
+          resume: args.resume,
+          force: args.force,
+          logger,
+          metrics,
+        })
+      );
+      if (args.report) {
+        await writeReport(args.report.filePath, args.report.format, result, {
+          ...(!several && {
+            knowledgeBaseId: configs[0].maven.knowledgeBaseId,
+            profile: configs[0].profile,
+          }),
+        });
+        logger.info(`\nReport written to ${args.report.filePath}`, {
+          reportFile: args.report.filePath,
+        });
+      }
+      if (args.metricsFile) {
+        await writeMetricsFile(args.metricsFile, metrics.registry);
+        logger.info(`Metrics written to ${args.metricsFile}`, { metricsFile: args.metricsFile });
+      }
+      break;
+
+    case "serve": {
+      // Daemon syncs always resume, so a sync interrupted by a restart continues
+      let running;
+      try {
+        running = await serve(
+          (signal, articles) =>
+            runEach((config, logger) =>
+              runSync(config, config.maven.knowledgeBaseId, {
+                resume: true,
+                logger,
+                metrics,
+                signal,
+                articles,
+              })
+            ),
+          configs[0].serve,
+          logger,
+          metrics
+        );
+      } catch (error) {
+        logger.error(error instanceof Error ? error.message : String(error));
+        process.exit(exitCodeFor(error));
+      }
+      await stopOnSignals(running, logger);
+      result = { success: true, exitCode: 0 };
+      break;
+    }
+
+    case "config":
+      if (args.subcommand !== "print") {
+        console.error(`Unknown config command: ${args.subcommand ?? "(none)"}`);
+        console.error(USAGE);
+        process.exit(1);
+      }
+      if (configFile) {
+        console.error(`Config file: ${configFile.path}`);
+      }
+      for (const config of configs) {
+        if (several) {
+          console.error(`Profile: ${config.profile}`);
+        }
+        console.log(formatConfig(config));
+      }
+      result = { success: true, exitCode: 0 };
       break;
 
     default:
       console.error(`Unknown command: ${command}`);
-      console.error("Usage: pnpm start [sync|validate]");
+      console.error(USAGE);
       process.exit(1);
   }
 
@@ -0,0 +1,119 @@
+/**
+ * Upload Checkpoints
+ *
+ * While uploading, the uploader records which documents are done in a
+ * local JSON file after every chunk. If the process dies mid-upload,
+ * `sync --resume` continues from the checkpoint and skips documents that
+ * were already uploaded with the same content.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { MavenAGI } from "mavenagi";
+import type { MavenKnowledgeDocument } from "./transform.js";
+
+const CHECKPOINT_FILE_VERSION = 1;
+
+export interface UploadCheckpoint {
+  version: number;
+  /** ID of the upload run that wrote the checkpoint */
+  runId: string;
+  knowledgeBaseId: string;
+  startedAt: string;
+  updatedAt: string;
+  /** Reference ID → hash of each document uploaded so far */
+  completed: Record<string, string>;
+  /** Reference IDs not uploaded yet */
+  pending: string[];
+  /** Knowledge base version being written, continued when resuming */
+  knowledgeBaseVersion?: MavenAGI.EntityIdWithoutAgent;
+}
+
+export class CheckpointStore {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    if (!filePath) {
+      throw new Error("Checkpoint file path is required");
+    }
+    this.filePath = filePath;
+  }
+
+  /**
+   * Read the checkpoint, or undefined when there is none
+   */
+  async load(): Promise<UploadCheckpoint | undefined> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let parsed: UploadCheckpoint;
+    try {
+      parsed = JSON.parse(raw) as UploadCheckpoint;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid checkpoint file ${this.filePath}: ${message}`);
+    }
+
+    if (parsed.version !== CHECKPOINT_FILE_VERSION || !parsed.completed) {
+      throw new Error(
+        `Unsupported checkpoint file ${this.filePath} (version ${parsed.version})`
+      );
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Write the checkpoint (via a temp file so a crash never leaves it half-written)
+   */
+  async save(checkpoint: UploadCheckpoint): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(checkpoint, null, 2) + "\n", "utf8");
+    await rename(tmpPath, this.filePath);
+  }
+
+  /**
+   * Remove the checkpoint once an upload ran to completion
+   */
+  async clear(): Promise<void> {
+    await rm(this.filePath, { force: true });
+  }
+}
+
+/**
+ * Empty checkpoint for a new upload run
+ */
+export function createCheckpoint(knowledgeBaseId: string): UploadCheckpoint {
+  const now = new Date().toISOString();
+  return {
+    version: CHECKPOINT_FILE_VERSION,
+    runId: randomUUID(),
+    knowledgeBaseId,
+    startedAt: now,
+    updatedAt: now,
+    completed: {},
+    pending: [],
+  };
+}
+
+/**
+ * Hash of everything sent to Maven for a document, so a resumed upload
+ * only skips documents that did not change since they were uploaded
+ */
+export function hashDocument(document: MavenKnowledgeDocument): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([document.title, document.content, document.metadata, document.url]),
+      "utf8"
+    )
+    .digest("hex");
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { chunkArticle, slugify } from "./chunk.js";
+import { MAX_METADATA_KEYS, MAX_METADATA_VALUE_CHARS } from "./transform.js";
+import type { DocBlock, DocsieArticle } from "../docsie/types.js";
+
+const b = (type: string, text: string): DocBlock => ({
+  type,
+  text,
+  depth: 0,
+  entityRanges: [],
+  inlineStyleRanges: [],
+});
+
+const article = (blocks: DocBlock[]): DocsieArticle => ({
+  id: "art_1",
+  name: "Guide",
+  description: "",
+  slug: "guide",
+  doc: { blocks },
+  order: 0,
+  tags: ["docs"],
+  template: "default",
+  updated_by: 1,
+  updators: [],
+  revision: 1,
+});
+
+describe("chunkArticle", () => {
+  const sectioned = article([
+    b("unstyled", "Welcome."),
+    b("header-two", "Install"),
+    b("unstyled", "Run the installer."),
+    b("header-three", "On Linux"),
+    b("unstyled", "Use the package."),
+    b("header-two", "Install"),
+    b("unstyled", "Again."),
+  ]);
+
+  it("should return the plain document when splitting is off", () => {
+    const docs = chunkArticle(sectioned);
+
+    expect(docs).toHaveLength(1);
+    expect(docs[0].knowledgeDocumentId.referenceId).toBe("art_1");
+  });
+
+  it("should split at header-two and header-three with stable IDs", () => {
+    const docs = chunkArticle(sectioned, { splitSections: true });
+
+    expect(docs.map((d) => d.knowledgeDocumentId.referenceId)).toEqual([
+      "art_1#intro",
+      "art_1#install",
+      "art_1#on-linux",
+      "art_1#install-2",
+    ]);
+  });
+
+  it("should add a heading breadcrumb to each chunk", () => {
+    const docs = chunkArticle(sectioned, { splitSections: true });
+    const linux = docs[2];
+
+    expect(linux.title).toBe("Guide › Install › On Linux");
+    expect(linux.content).toBe("Guide › Install › On Linux\n\n### On Linux\n\nUse the package.");
+    expect(linux.metadata).toMatchObject({
+      docsie_id: "art_1",
+      tags: "docs",
+      breadcrumb: "Guide › Install › On Linux",
+      chunk: "3/4",
+    });
+  });
+
+  it("should keep chunks of a fully expanded article within Maven's metadata limits", () => {
+    const relation = <T>(results: T[]) => ({ count: 1, has_more: false, url: "", results });
+    const long = "x".repeat(600);
+    const docs = chunkArticle(
+      {
+        ...sectioned,
+        doc: { blocks: [...sectioned.doc.blocks, b("header-two", long), b("unstyled", "Text.")] },
+        book: relation([{ id: "boo_admin", name: "Admin Guide" } as any]),
+        documentation: relation([{ id: "doc_main", name: "Product Docs" } as any]),
+        version: relation([{ id: "ver_3", name: "v3", number: "3.0" } as any]),
+        language: relation([{ id: "lan_en", language: "English", abbreviation: "en" } as any]),
+      },
+      { splitSections: true },
+      { url: "https://docs.example.com/admin/guide/" }
+    );
+
+    expect(docs).toHaveLength(5);
+    for (const doc of docs) {
+      const values = Object.values(doc.metadata ?? {});
+      expect(values.length).toBeLessThanOrEqual(MAX_METADATA_KEYS);
+      for (const value of values) {
+        expect(value.length).toBeLessThanOrEqual(MAX_METADATA_VALUE_CHARS);
+      }
+    }
+  });
+
+  it("should keep an article without headings as one document", () => {
+    const docs = chunkArticle(article([b("unstyled", "Short.")]), { splitSections: true });
+
+    expect(docs).toHaveLength(1);
+    expect(docs[0].knowledgeDocumentId.referenceId).toBe("art_1");
+  });
+
+  it("should split oversized chunks into parts", () => {
+    const long = article([
+      b("unstyled", "a".repeat(40)),
+      b("unstyled", "b".repeat(40)),
+      b("unstyled", "c".repeat(40)),
+    ]);
+
+    const docs = chunkArticle(long, { maxChunkChars: 60 });
+
+    expect(docs.map((d) => d.knowledgeDocumentId.referenceId)).toEqual([
+      "art_1",
+      "art_1#part-2",
+      "art_1#part-3",
+    ]);
+    expect(docs[1].title).toBe("Guide (part 2)");
+    for (const doc of docs) {
+      expect(doc.content.length).toBeLessThanOrEqual(60);
+    }
+  });
+});
+
+describe("slugify", () => {
+  it("should build URL-safe slugs", () => {
+    expect(slugify("Getting Started: Step 1!")).toBe("getting-started-step-1");
+    expect(slugify("Café Ünïcode")).toBe("cafe-unicode");
+  });
+});
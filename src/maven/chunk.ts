@@ -0,0 +1,225 @@
+/**
+ * Section-aware chunking of Docsie articles
+ *
+ * Splits a long article into several Maven documents at `header-two` /
+ * `header-three` boundaries so retrieval can match individual sections.
+ * Each chunk gets a stable reference ID (`articleId#section-slug`), a
+ * breadcrumb line and title naming its place in the article, and is
+ * further split into parts when it exceeds the size limit. Its position is
+ * a single `chunk` metadata field ("3/4"), keeping the metadata within
+ * Maven's limits.
+ */
+
+import type { DocBlock, DocsieArticle } from "../docsie/types.js";
+import { docToMarkdown } from "../docsie/content.js";
+import { escapeBlockStart, escapeMarkdown } from "../docsie/inline.js";
+import { BREADCRUMB_SEPARATOR, articleBreadcrumb } from "../docsie/context.js";
+import {
+  limitMetadata,
+  transformToMavenFormat,
+  type MavenKnowledgeDocument,
+  type TransformOptions,
+} from "./transform.js";
+
+export interface ChunkOptions {
+  /** Split articles at header-two/header-three boundaries */
+  splitSections?: boolean;
+  /** Split any chunk whose content exceeds this many characters (0 = no limit) */
+  maxChunkChars?: number;
+}
+
+const SECTION_HEADERS = new Set(["header-two", "header-three"]);
+const INTRO_SLUG = "intro";
+
+interface Section {
+  /** Slug used in the reference ID, or null for the unsplit article */
+  slug: string | null;
+  /** Heading path below the article title */
+  headings: string[];
+  blocks: DocBlock[];
+}
+
+/**
+ * Transform an article into one or more Maven documents
+ *
+ * Articles that need no splitting are returned exactly as
+ * `transformToMavenFormat` would produce them (reference ID = article ID).
+ */
+export function chunkArticle(
+  article: DocsieArticle,
+  options: ChunkOptions = {},
+  transformOptions: TransformOptions = {}
+): MavenKnowledgeDocument[] {
+  const base = transformToMavenFormat(article, transformOptions);
+  const maxChars = options.maxChunkChars ?? 0;
+  const blocks = article.doc?.blocks ?? [];
+
+  const sections = options.splitSections
+    ? splitSections(blocks)
+    : [{ slug: null, headings: [], blocks }];
+
+  const fitsWhole = maxChars <= 0 || base.content.length <= maxChars;
+  if (sections.length <= 1 && fitsWhole) {
+    return [base];
+  }
+
+  const baseId = base.knowledgeDocumentId.referenceId;
+  const documents: MavenKnowledgeDocument[] = [];
+
+  for (const section of sections) {
+    const markdown = docToMarkdown({
+      blocks: section.blocks,
+      entityMap: article.doc.entityMap,
+    });
+    if (!markdown) {
+      continue;
+    }
+
+    const path = [...articleBreadcrumb(article), ...section.headings];
+    const breadcrumb = escapeBlockStart(
+      path.map((part) => escapeMarkdown(part)).join(BREADCRUMB_SEPARATOR)
+    );
+    const title = [article.name, ...section.headings].join(BREADCRUMB_SEPARATOR);
+    const budget = maxChars > 0 ? maxChars - breadcrumb.length - 2 : 0;
+    const parts = budget > 0 ? splitBySize(markdown, budget) : [markdown];
+
+    parts.forEach((part, index) => {
+      const slug = section.slug ?? "";
+      const partSlug = index === 0 ? slug : `${slug ? `${slug}-` : ""}part-${index + 1}`;
+      const referenceId = partSlug ? `${baseId}#${partSlug}` : baseId;
+
+      documents.push({
+        ...base,
+        knowledgeDocumentId: { referenceId },
+        title: index === 0 ? title : `${title} (part ${index + 1})`,
+        content: `${breadcrumb}\n\n${part}`,
+        metadata: limitMetadata({
+          ...base.metadata,
+          breadcrumb: path.join(BREADCRUMB_SEPARATOR),
+        }),
+      });
+    });
+  }
+
+  if (documents.length === 0) {
+    return [base];
+  }
+
+  documents.forEach((doc, index) => {
+    doc.metadata = { ...doc.metadata, chunk: `${index + 1}/${documents.length}` };
+  });
+
+  return documents;
+}
+
+/**
+ * Turn heading text into a URL-safe slug
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Group blocks into sections, each starting at a header-two/header-three
+ */
+function splitSections(blocks: DocBlock[]): Section[] {
+  const sections: Section[] = [];
+  const usedSlugs = new Set<string>();
+  let current: Section = { slug: INTRO_SLUG, headings: [], blocks: [] };
+  let parentHeading: string | null = null;
+
+  const uniqueSlug = (base: string): string => {
+    let slug = base;
+    for (let n = 2; usedSlugs.has(slug); n++) {
+      slug = `${base}-${n}`;
+    }
+    usedSlugs.add(slug);
+    return slug;
+  };
+  usedSlugs.add(INTRO_SLUG);
+
+  for (const block of blocks) {
+    if (!SECTION_HEADERS.has(block.type)) {
+      current.blocks.push(block);
+      continue;
+    }
+
+    sections.push(current);
+
+    const heading = (block.text ?? "").trim();
+    let headings: string[];
+    if (block.type === "header-two") {
+      parentHeading = heading;
+      headings = [heading];
+    } else {
+      headings = parentHeading ? [parentHeading, heading] : [heading];
+    }
+
+    current = {
+      slug: uniqueSlug(slugify(heading) || `section-${sections.length}`),
+      headings,
+      blocks: [block],
+    };
+  }
+  sections.push(current);
+
+  return sections.filter((section) => section.blocks.length > 0);
+}
+
+/**
+ * Split Markdown into parts of at most `maxChars`, preferring paragraph,
+ * then line, then word boundaries
+ */
+function splitBySize(markdown: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let current = "";
+
+  for (const paragraph of markdown.split("\n\n")) {
+    const candidate = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      parts.push(current);
+    }
+
+    if (paragraph.length <= maxChars) {
+      current = paragraph;
+      continue;
+    }
+
+    const pieces = hardSplit(paragraph, maxChars);
+    current = pieces.pop() ?? "";
+    parts.push(...pieces);
+  }
+
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+function hardSplit(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = window.lastIndexOf("\n");
+    if (cut <= 0) cut = window.lastIndexOf(" ");
+    if (cut <= 0) cut = maxChars;
+
+    pieces.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+
+  pieces.push(rest);
+  return pieces;
+}
@@ -0,0 +1,39 @@
+/**
+ * Maven SDK error mapping
+ *
+ * The SDK throws MavenAGIError (with statusCode/body) for API failures and
+ * MavenAGITimeoutError when a request times out. They are matched by shape
+ * rather than imported so this module works with a mocked SDK.
+ */
+
+import {
+  ConnectorError,
+  NetworkError,
+  errorFromStatus,
+} from "../utils/errors.js";
+
+/**
+ * Convert anything thrown by a Maven SDK call into a ConnectorError
+ */
+export function toMavenError(error: unknown, endpoint: string): ConnectorError {
+  if (error instanceof ConnectorError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const sdkError = error as { name?: string; statusCode?: unknown; body?: unknown };
+
+  if (typeof sdkError?.statusCode === "number") {
+    return errorFromStatus(sdkError.statusCode, `Maven API error: ${message}`, {
+      endpoint,
+      responseBody: sdkError.body,
+      cause: error,
+    });
+  }
+
+  if (sdkError?.name === "MavenAGITimeoutError") {
+    return new NetworkError(message, { endpoint, cause: error });
+  }
+
+  return new ConnectorError(message, { endpoint, cause: error });
+}
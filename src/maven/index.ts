@@ -1,4 +1,16 @@
-export { transformToMavenFormat } from "./transform.js";
-export type { MavenKnowledgeDocument } from "./transform.js";
+export { canonicalHash, transformToMavenFormat } from "./transform.js";
+export type { MavenKnowledgeDocument, TransformOptions } from "./transform.js";
+export { chunkArticle, slugify } from "./chunk.js";
+export type { ChunkOptions } from "./chunk.js";
 export { MavenUploader } from "./uploader.js";
-export type { UploadResult, UploadError } from "./uploader.js";
+export type {
+  UploadResult,
+  UploadError,
+  UploadOptions,
+  UploadLimits,
+  DocumentOutcome,
+  KnowledgeBaseVersionType,
+} from "./uploader.js";
+export { ensureKnowledgeBase } from "./knowledge.js";
+export { CheckpointStore, createCheckpoint, hashDocument } from "./checkpoint.js";
+export type { UploadCheckpoint } from "./checkpoint.js";
@@ -0,0 +1,32 @@
+/**
+ * Maven Knowledge Bases
+ *
+ * Creates the knowledge base the connector syncs into, so a new install
+ * does not need it to be set up in Maven first.
+ */
+
+import type { MavenAGIClient } from "mavenagi";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import { toMavenError } from "./errors.js";
+
+/**
+ * Create the knowledge base, or update its name if it exists
+ *
+ * @throws ConnectorError if Maven rejects the request
+ */
+export async function ensureKnowledgeBase(
+  client: MavenAGIClient,
+  knowledgeBaseId: string,
+  name: string,
+  logger: Logger = defaultLogger
+): Promise<void> {
+  try {
+    await client.knowledge.createOrUpdateKnowledgeBase({
+      knowledgeBaseId: { referenceId: knowledgeBaseId },
+      name,
+    });
+  } catch (error) {
+    throw toMavenError(error, "createOrUpdateKnowledgeBase");
+  }
+  logger.info(`Knowledge base ${knowledgeBaseId} ready ("${name}")`, { knowledgeBaseId });
+}
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { transformToMavenFormat } from "./transform.js";
+import {
+  MAX_METADATA_KEYS,
+  MAX_METADATA_VALUE_CHARS,
+  canonicalHash,
+  transformToMavenFormat,
+} from "./transform.js";
 import type { DocsieArticle } from "../docsie/types.js";
 
 describe("transformToMavenFormat", () => {
@@ -82,6 +87,63 @@ describe("transformToMavenFormat", () => {
     });
   });
 
+  describe("article context", () => {
+    const relation = <T>(results: T[]) => ({ count: results.length, has_more: false, url: "", results });
+
+    it("should add book, documentation, version and language metadata", () => {
+      const result = transformToMavenFormat({
+        ...sampleArticle,
+        book: relation([{ id: "boo_admin", name: "Admin Guide" } as any]),
+        documentation: relation([{ id: "doc_main", name: "Product Docs" } as any]),
+        version: relation([{ id: "ver_3", name: "v3", number: "3.0" } as any]),
+        language: relation([{ id: "lan_en", language: "English", abbreviation: "en" } as any]),
+      });
+
+      expect(result.metadata).toEqual({
+        source: "docsie",
+        docsie_id: "art_abc123",
+        tags: "guide,beginner",
+        slug: "getting-started",
+        template: "default",
+        book: "Admin Guide",
+        documentation: "Product Docs",
+        version: "v3",
+        language: "en",
+        breadcrumb: "Admin Guide › v3 › Getting Started Guide",
+      });
+    });
+
+    it("should keep IDs of relations that were not expanded", () => {
+      const result = transformToMavenFormat({
+        ...sampleArticle,
+        book: relation(["boo_admin"]),
+      });
+
+      expect(result.metadata?.book).toBe("boo_admin");
+      expect(result.metadata?.breadcrumb).toBeUndefined();
+    });
+
+    it("should stay within Maven's metadata limits", () => {
+      const long = "x".repeat(600);
+      const result = transformToMavenFormat(
+        {
+          ...sampleArticle,
+          name: long,
+          tags: Array.from({ length: 100 }, (_, i) => `tag-${i}`),
+          book: relation([{ id: "boo_admin", name: long } as any]),
+          documentation: relation([{ id: "doc_main", name: "Product Docs" } as any]),
+          version: relation([{ id: "ver_3", name: "v3", number: "3.0" } as any]),
+          language: relation([{ id: "lan_en", language: "English", abbreviation: "en" } as any]),
+        },
+        { url: "https://docs.example.com/admin/getting-started/" }
+      );
+
+      const values = Object.values(result.metadata ?? {});
+      expect(values.length).toBeLessThanOrEqual(MAX_METADATA_KEYS);
+      expect(Math.max(...values.map((value) => value.length))).toBe(MAX_METADATA_VALUE_CHARS);
+    });
+  });
+
   describe("missing/optional fields", () => {
     it("should handle article with no content blocks", () => {
       const emptyArticle: DocsieArticle = {
@@ -137,3 +199,35 @@ describe("transformToMavenFormat", () => {
     });
   });
 });
+
+describe("canonicalHash", () => {
+  const document = {
+    knowledgeDocumentId: { referenceId: "art_1" },
+    contentType: "MARKDOWN" as const,
+    title: "Guide",
+    content: "## Guide\n\nStep one",
+    metadata: { source: "docsie", tags: "guide,beginner", slug: "guide" },
+  };
+
+  it("should ignore metadata order, tag order and whitespace", () => {
+    const reordered = {
+      ...document,
+      title: "Guide ",
+      content: "## Guide\r\n\r\n\r\nStep one\n",
+      metadata: { slug: "guide", tags: "beginner, guide", source: "docsie" },
+    };
+
+    expect(canonicalHash(reordered)).toBe(canonicalHash(document));
+  });
+
+  it("should change with the title, content, metadata or URL", () => {
+    const hash = canonicalHash(document);
+
+    expect(canonicalHash({ ...document, title: "Guide v2" })).not.toBe(hash);
+    expect(canonicalHash({ ...document, content: "## Guide\n\nStep two" })).not.toBe(hash);
+    expect(
+      canonicalHash({ ...document, metadata: { ...document.metadata, tags: "guide" } })
+    ).not.toBe(hash);
+    expect(canonicalHash({ ...document, url: "https://docs.example.com/guide" })).not.toBe(hash);
+  });
+});
@@ -2,8 +2,15 @@
  * Transform Docsie articles to Maven knowledge format
  */
 
+import { createHash } from "node:crypto";
 import type { DocsieArticle } from "../docsie/types.js";
 import { docToMarkdown } from "../docsie/content.js";
+import {
+  BREADCRUMB_SEPARATOR,
+  articleBreadcrumb,
+  resolveArticleContext,
+  type ArticleContext,
+} from "../docsie/context.js";
 
 /**
  * Maven Knowledge Document Request structure
@@ -17,16 +24,33 @@ export interface MavenKnowledgeDocument {
   title: string;
   content: string;
   metadata?: Record<string, string>;
+  /** Public URL of the source article */
+  url?: string;
+}
+
+/** Maven accepts at most 16 metadata pairs per document, with values up to 512 chars */
+export const MAX_METADATA_KEYS = 16;
+export const MAX_METADATA_VALUE_CHARS = 512;
+
+export interface TransformOptions {
+  /** Public URL of the article, sent as the document URL */
+  url?: string;
+  /** Reference ID of the document (default: the article ID) */
+  referenceId?: string;
 }
 
 /**
  * Transform a Docsie article to Maven knowledge format
  *
- * Uses the article ID as the referenceId for deduplication.
- * Converts Draft.js block content to Markdown.
+ * Uses the article ID as the referenceId for deduplication, unless another
+ * reference ID is given (e.g. `articleId@fr` for a translation).
+ * Converts Draft.js block content to Markdown. Book, documentation,
+ * version and language context is added to the metadata, one key each.
+ * Metadata values are cut to Maven's length limit.
  */
 export function transformToMavenFormat(
-  article: DocsieArticle
+  article: DocsieArticle,
+  options: TransformOptions = {}
 ): MavenKnowledgeDocument {
   const metadata: Record<string, string> = {
     source: "docsie",
@@ -43,15 +67,95 @@ export function transformToMavenFormat(
     metadata.template = article.template;
   }
 
+  const context = resolveArticleContext(article);
+  Object.assign(metadata, contextMetadata(context));
+  const breadcrumb = articleBreadcrumb(article, context);
+  if (breadcrumb.length > 1) {
+    metadata.breadcrumb = breadcrumb.join(BREADCRUMB_SEPARATOR);
+  }
+
   const content = docToMarkdown(article.doc);
 
   return {
     knowledgeDocumentId: {
-      referenceId: article.id,
+      referenceId: options.referenceId ?? article.id,
     },
     contentType: "MARKDOWN",
     title: article.name,
     content: content || article.name,
-    metadata,
+    metadata: limitMetadata(metadata),
+    ...(options.url && { url: options.url }),
   };
 }
+
+/**
+ * Cut metadata values to Maven's length limit
+ */
+export function limitMetadata(metadata: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(metadata).map(([key, value]) => [
+      key,
+      value.length > MAX_METADATA_VALUE_CHARS
+        ? `${value.slice(0, MAX_METADATA_VALUE_CHARS - 1)}…`
+        : value,
+    ])
+  );
+}
+
+/**
+ * Flatten article context into one metadata field per relation: its name,
+ * or its ID when the relation was not expanded (the language by its code)
+ */
+function contextMetadata(context: ArticleContext): Record<string, string> {
+  const metadata: Record<string, string> = {};
+
+  for (const key of ["book", "documentation", "version"] as const) {
+    const item = context[key];
+    if (item) {
+      metadata[key] = item.name || item.id;
+    }
+  }
+
+  if (context.language) {
+    metadata.language = context.language.code || context.language.id;
+  }
+
+  return metadata;
+}
+
+/**
+ * Hash of what a document says, for change detection
+ *
+ * Covers the title, content and metadata in a canonical form, so edits that
+ * leave the uploaded document the same (a new revision, reordered tags or
+ * metadata keys, surrounding whitespace, line endings) do not count as changes.
+ */
+export function canonicalHash(document: MavenKnowledgeDocument): string {
+  const metadata = Object.entries(document.metadata ?? {})
+    .map(([key, value]) => [key, key === "tags" ? canonicalTags(value) : value.trim()])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        document.title.trim(),
+        canonicalContent(document.content),
+        metadata,
+        document.url ?? "",
+      ]),
+      "utf8"
+    )
+    .digest("hex");
+}
+
+function canonicalContent(content: string): string {
+  return content
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function canonicalTags(tags: string): string {
+  const unique = new Set(tags.split(",").map((tag) => tag.trim()).filter(Boolean));
+  return [...unique].sort().join(",");
+}
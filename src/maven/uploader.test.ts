@@ -1,15 +1,35 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { MavenUploader } from "./uploader.js";
+import { CheckpointStore, createCheckpoint, hashDocument } from "./checkpoint.js";
 import type { MavenKnowledgeDocument } from "./transform.js";
+import { createLogger } from "../utils/logger.js";
+import { createSyncMetrics } from "../utils/metrics.js";
 
 // Mock Maven SDK
 const mockCreateKnowledgeDocument = vi.fn();
+const mockDeleteKnowledgeDocument = vi.fn();
+const mockCreateKnowledgeBaseVersion = vi.fn();
+const mockFinalizeKnowledgeBaseVersion = vi.fn();
 const mockMavenClient = {
   knowledge: {
     createKnowledgeDocument: mockCreateKnowledgeDocument,
+    deleteKnowledgeDocument: mockDeleteKnowledgeDocument,
+    createKnowledgeBaseVersion: mockCreateKnowledgeBaseVersion,
+    finalizeKnowledgeBaseVersion: mockFinalizeKnowledgeBaseVersion,
   },
 };
 
+const versionId = {
+  type: "KNOWLEDGE_BASE_VERSION",
+  appId: "docsie",
+  referenceId: "version-1",
+  organizationId: "org-123",
+  agentId: "agent-456",
+};
+
 // Fast retry config for tests (1ms delays)
 const fastRetryConfig = {
   retryConfig: {
@@ -21,6 +41,11 @@ const fastRetryConfig = {
 describe("MavenUploader", () => {
   beforeEach(() => {
     mockCreateKnowledgeDocument.mockReset();
+    mockDeleteKnowledgeDocument.mockReset();
+    mockCreateKnowledgeBaseVersion.mockReset();
+    mockFinalizeKnowledgeBaseVersion.mockReset();
+    mockCreateKnowledgeBaseVersion.mockResolvedValue({ versionId, type: "PARTIAL" });
+    mockFinalizeKnowledgeBaseVersion.mockResolvedValue({ versionId });
     vi.spyOn(console, "log").mockImplementation(() => {});
     vi.spyOn(console, "warn").mockImplementation(() => {});
     vi.spyOn(console, "error").mockImplementation(() => {});
@@ -75,13 +100,13 @@ describe("MavenUploader", () => {
     });
 
     it("should return failure count for failed uploads", async () => {
-      // With retry enabled (3 attempts), doc-2 must fail 3 times to be marked failed
-      mockCreateKnowledgeDocument
-        .mockResolvedValueOnce({ success: true }) // doc-1 succeeds
-        .mockRejectedValueOnce(new Error("Upload failed")) // doc-2 attempt 1
-        .mockRejectedValueOnce(new Error("Upload failed")) // doc-2 attempt 2
-        .mockRejectedValueOnce(new Error("Upload failed")) // doc-2 attempt 3 - permanently fails
-        .mockResolvedValueOnce({ success: true }); // doc-3 succeeds
+      // With retry enabled (3 attempts), doc-2 fails every attempt and is marked failed
+      mockCreateKnowledgeDocument.mockImplementation(async (_kb: string, request: any) => {
+        if (request.knowledgeDocumentId.referenceId === "doc-2") {
+          throw new Error("Upload failed");
+        }
+        return { success: true };
+      });
 
       const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
       const docs = [
@@ -99,13 +124,13 @@ describe("MavenUploader", () => {
     });
 
     it("should continue processing after individual doc failure", async () => {
-      // With retry enabled (3 attempts), doc-1 must fail 3 times
-      mockCreateKnowledgeDocument
-        .mockRejectedValueOnce(new Error("First failed")) // doc-1 attempt 1
-        .mockRejectedValueOnce(new Error("First failed")) // doc-1 attempt 2
-        .mockRejectedValueOnce(new Error("First failed")) // doc-1 attempt 3 - permanently fails
-        .mockResolvedValueOnce({ success: true }) // doc-2 succeeds
-        .mockResolvedValueOnce({ success: true }); // doc-3 succeeds
+      // With retry enabled (3 attempts), doc-1 fails every attempt
+      mockCreateKnowledgeDocument.mockImplementation(async (_kb: string, request: any) => {
+        if (request.knowledgeDocumentId.referenceId === "doc-1") {
+          throw new Error("First failed");
+        }
+        return { success: true };
+      });
 
       const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
       const docs = [
@@ -192,6 +217,196 @@ describe("MavenUploader", () => {
       expect(result.failed).toBe(0);
       expect(mockCreateKnowledgeDocument).toHaveBeenCalledTimes(3);
     });
+
+    it("should log to the injected logger with chunk and document context", async () => {
+      mockCreateKnowledgeDocument.mockRejectedValue(new Error("Upload failed"));
+      const sink = vi.fn();
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        logger: createLogger({ level: "error", sink }),
+      });
+      await uploader.upload([createTestDoc("doc-1")]);
+
+      expect(sink).toHaveBeenCalledTimes(1);
+      expect(sink.mock.calls[0][0]).toMatchObject({
+        level: "error",
+        msg: "[upload doc-1] permanently failed: Upload failed",
+        fields: {
+          knowledgeBaseId: "kb-1",
+          chunk: 1,
+          docId: "doc-1",
+          action: "upload",
+          attempts: 3,
+          errorCategory: "unknown",
+        },
+      });
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it("should record the outcome and attempts of each document", async () => {
+      mockCreateKnowledgeDocument.mockImplementation(async (_kb: string, request: any) => {
+        if (request.knowledgeDocumentId.referenceId === "doc-2") {
+          throw new Error("Upload failed");
+        }
+        return { success: true };
+      });
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+      const result = await uploader.upload([createTestDoc("doc-1"), createTestDoc("doc-2")]);
+
+      expect(result.outcomes).toEqual([
+        { docId: "doc-1", success: true, attempts: 1, durationMs: expect.any(Number) },
+        { docId: "doc-2", success: false, attempts: 3, durationMs: expect.any(Number) },
+      ]);
+    });
+  });
+
+  describe("concurrency", () => {
+    it("should upload a chunk concurrently up to maxConcurrent", async () => {
+      // Hold uploads open until released
+      const pending: Array<() => void> = [];
+      mockCreateKnowledgeDocument.mockImplementation(
+        () => new Promise((resolve) => pending.push(() => resolve({ success: true })))
+      );
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        maxConcurrent: 3,
+      });
+      const docs = Array.from({ length: 10 }, (_, i) => createTestDoc(`doc-${i}`));
+      const upload = uploader.upload(docs);
+
+      await vi.waitFor(() => expect(pending).toHaveLength(3));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(pending).toHaveLength(3);
+
+      mockCreateKnowledgeDocument.mockResolvedValue({ success: true });
+      pending.forEach((release) => release());
+      const result = await upload;
+
+      expect(result.success).toBe(10);
+      expect(mockCreateKnowledgeDocument).toHaveBeenCalledTimes(10);
+    });
+
+    it("should report failures in document order regardless of completion order", async () => {
+      mockCreateKnowledgeDocument.mockImplementation(async (_kb: string, request: any) => {
+        const id = request.knowledgeDocumentId.referenceId;
+        // Later documents fail first
+        await new Promise((resolve) => setTimeout(resolve, id === "doc-1" ? 10 : 1));
+        if (id !== "doc-2") {
+          throw Object.assign(new Error(`Bad ${id}`), { statusCode: 400 });
+        }
+        return { success: true };
+      });
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+      const result = await uploader.upload([
+        createTestDoc("doc-1"),
+        createTestDoc("doc-2"),
+        createTestDoc("doc-3"),
+      ]);
+
+      expect(result.success).toBe(1);
+      expect(result.errors.map((error) => error.docId)).toEqual(["doc-1", "doc-3"]);
+    });
+
+    it("should finish each chunk before starting the next", async () => {
+      const finished: string[] = [];
+      let finishedBeforeC: string[] = [];
+      mockCreateKnowledgeDocument.mockImplementation(async (_kb: string, request: any) => {
+        const id = request.knowledgeDocumentId.referenceId;
+        if (id === "c") {
+          finishedBeforeC = [...finished];
+        }
+        await new Promise((resolve) => setTimeout(resolve, id === "a" ? 10 : 1));
+        finished.push(id);
+        return { success: true };
+      });
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        chunkSize: 2,
+      });
+      await uploader.upload(["a", "b", "c"].map(createTestDoc));
+
+      expect(finishedBeforeC).toEqual(["b", "a"]);
+      expect(console.log).toHaveBeenCalledWith("Chunk 1 complete: 2 success, 0 failed");
+    });
+  });
+
+  describe("error classification", () => {
+    it("should not retry permanent Maven errors", async () => {
+      const unauthorized = Object.assign(new Error("Unauthorized"), {
+        statusCode: 401,
+        body: { message: "bad key" },
+      });
+      mockCreateKnowledgeDocument.mockRejectedValue(unauthorized);
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+      const result = await uploader.upload([createTestDoc("doc-1")]);
+
+      expect(mockCreateKnowledgeDocument).toHaveBeenCalledTimes(1);
+      expect(result.errors).toEqual([
+        { docId: "doc-1", error: "Maven API error: Unauthorized", category: "auth" },
+      ]);
+    });
+
+    it("should retry Maven server errors", async () => {
+      const unavailable = Object.assign(new Error("Service Unavailable"), {
+        statusCode: 503,
+      });
+      mockCreateKnowledgeDocument
+        .mockRejectedValueOnce(unavailable)
+        .mockResolvedValueOnce({ success: true });
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+      const result = await uploader.upload([createTestDoc("doc-1")]);
+
+      expect(result.success).toBe(1);
+      expect(mockCreateKnowledgeDocument).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report Maven SDK timeouts as network errors", async () => {
+      const timeout = Object.assign(new Error("Timeout exceeded when calling POST"), {
+        name: "MavenAGITimeoutError",
+      });
+      mockCreateKnowledgeDocument.mockRejectedValue(timeout);
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+      const result = await uploader.upload([createTestDoc("doc-1")]);
+
+      expect(result.errors).toEqual([
+        { docId: "doc-1", error: "Timeout exceeded when calling POST", category: "network" },
+      ]);
+    });
+  });
+
+  describe("metrics", () => {
+    it("should record Maven call latency by operation and outcome, and retries", async () => {
+      const unavailable = Object.assign(new Error("Service Unavailable"), {
+        statusCode: 503,
+      });
+      mockCreateKnowledgeDocument
+        .mockRejectedValueOnce(unavailable)
+        .mockResolvedValueOnce({ success: true });
+      const metrics = createSyncMetrics();
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        metrics,
+      });
+      await uploader.upload([createTestDoc("doc-1")]);
+
+      const output = metrics.registry.render();
+      expect(output).toContain(
+        'docsie_connector_maven_write_duration_seconds_count{operation="createKnowledgeDocument",outcome="server"} 1'
+      );
+      expect(output).toContain(
+        'docsie_connector_maven_write_duration_seconds_count{operation="createKnowledgeDocument",outcome="success"} 1'
+      );
+      expect(output).toContain('docsie_connector_retries_total{client="maven"} 1');
+    });
   });
 
   describe("uploadResult", () => {
@@ -209,4 +424,304 @@ describe("MavenUploader", () => {
       expect(result.success + result.failed).toBe(result.total);
     });
   });
+
+  describe("checkpoints", () => {
+    let dir: string;
+    let checkpointStore: CheckpointStore;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "maven-checkpoint-"));
+      checkpointStore = new CheckpointStore(join(dir, "checkpoint.json"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should write a checkpoint after each chunk and clear it when done", async () => {
+      const saves: any[] = [];
+      const save = checkpointStore.save.bind(checkpointStore);
+      vi.spyOn(checkpointStore, "save").mockImplementation(async (checkpoint) => {
+        saves.push(structuredClone(checkpoint));
+        await save(checkpoint);
+      });
+      mockCreateKnowledgeDocument.mockResolvedValue({ success: true });
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        chunkSize: 2,
+        checkpointStore,
+      });
+      await uploader.upload(["a", "b", "c"].map(createTestDoc));
+
+      expect(saves).toHaveLength(2);
+      expect(Object.keys(saves[0].completed)).toEqual(["a", "b"]);
+      expect(saves[0].pending).toEqual(["c"]);
+      expect(saves[0].knowledgeBaseId).toBe("kb-1");
+      expect(saves[1].pending).toEqual([]);
+      expect(saves[1].runId).toBe(saves[0].runId);
+      expect(await checkpointStore.load()).toBeUndefined();
+    });
+
+    it("should skip documents already uploaded when resuming", async () => {
+      const docs = ["a", "b", "c"].map(createTestDoc);
+      await checkpointStore.save({
+        ...createCheckpoint("kb-1"),
+        completed: {
+          a: hashDocument(docs[0]),
+          // Changed since it was uploaded: sent again
+          b: hashDocument({ ...docs[1], content: "old" }),
+        },
+        pending: ["c"],
+      });
+      mockCreateKnowledgeDocument.mockResolvedValue({ success: true });
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        checkpointStore,
+      });
+      const result = await uploader.upload(docs, { resume: true });
+
+      expect(result.success).toBe(3);
+      const uploaded = mockCreateKnowledgeDocument.mock.calls.map(
+        (call) => call[1].knowledgeDocumentId.referenceId
+      );
+      expect(uploaded).toEqual(["b", "c"]);
+    });
+
+    it("should stop between chunks when aborted and keep the checkpoint", async () => {
+      const controller = new AbortController();
+      mockCreateKnowledgeDocument.mockImplementation(async () => {
+        controller.abort(new Error("Sync interrupted by shutdown"));
+        return { success: true };
+      });
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        chunkSize: 1,
+        checkpointStore,
+      });
+      await expect(
+        uploader.upload(["a", "b"].map(createTestDoc), { signal: controller.signal })
+      ).rejects.toThrow("Sync interrupted by shutdown");
+
+      expect(mockCreateKnowledgeDocument).toHaveBeenCalledTimes(1);
+      const checkpoint = await checkpointStore.load();
+      expect(Object.keys(checkpoint!.completed)).toEqual(["a"]);
+      expect(checkpoint!.pending).toEqual(["b"]);
+    });
+
+    it("should start over without --resume", async () => {
+      const docs = ["a", "b"].map(createTestDoc);
+      await checkpointStore.save({
+        ...createCheckpoint("kb-1"),
+        completed: { a: hashDocument(docs[0]) },
+      });
+      mockCreateKnowledgeDocument.mockResolvedValue({ success: true });
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        checkpointStore,
+      });
+      await uploader.upload(docs);
+
+      expect(mockCreateKnowledgeDocument).toHaveBeenCalledTimes(2);
+    });
+
+    it("should ignore a checkpoint written for another knowledge base", async () => {
+      const docs = [createTestDoc("a")];
+      await checkpointStore.save({
+        ...createCheckpoint("kb-other"),
+        completed: { a: hashDocument(docs[0]) },
+      });
+      mockCreateKnowledgeDocument.mockResolvedValue({ success: true });
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        checkpointStore,
+      });
+      await uploader.upload(docs, { resume: true });
+
+      expect(mockCreateKnowledgeDocument).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("knowledge base versions", () => {
+    let dir: string;
+    let checkpointStore: CheckpointStore;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "maven-version-"));
+      checkpointStore = new CheckpointStore(join(dir, "checkpoint.json"));
+      mockCreateKnowledgeDocument.mockResolvedValue({ success: true });
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should write uploads and deletes into the open version and finalize it", async () => {
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+
+      await uploader.beginVersion("FULL");
+      await uploader.upload([createTestDoc("a")]);
+      await uploader.delete(["b"]);
+      await uploader.finishVersion(true);
+
+      expect(mockCreateKnowledgeBaseVersion).toHaveBeenCalledTimes(1);
+      expect(mockCreateKnowledgeBaseVersion).toHaveBeenCalledWith("kb-1", { type: "FULL" });
+      expect(mockCreateKnowledgeDocument).toHaveBeenCalledWith(
+        "kb-1",
+        expect.objectContaining({ versionId })
+      );
+      expect(mockDeleteKnowledgeDocument).toHaveBeenCalledWith("kb-1", "b", { versionId });
+      expect(mockFinalizeKnowledgeBaseVersion).toHaveBeenCalledTimes(1);
+      expect(mockFinalizeKnowledgeBaseVersion).toHaveBeenCalledWith("kb-1", {
+        versionId,
+        status: "SUCCEEDED",
+      });
+    });
+
+    it("should finalize a failed version with its error message", async () => {
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+
+      await uploader.beginVersion("PARTIAL");
+      await uploader.finishVersion(false, "1 document write(s) failed");
+
+      expect(mockFinalizeKnowledgeBaseVersion).toHaveBeenCalledWith("kb-1", {
+        versionId,
+        status: "FAILED",
+        errorMessage: "1 document write(s) failed",
+      });
+    });
+
+    it("should keep an interrupted version open in the checkpoint and continue it", async () => {
+      const controller = new AbortController();
+      mockCreateKnowledgeDocument.mockImplementation(async () => {
+        controller.abort(new Error("Sync interrupted by shutdown"));
+        return { success: true };
+      });
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        chunkSize: 1,
+        checkpointStore,
+      });
+
+      await uploader.beginVersion("FULL");
+      const error = await uploader
+        .upload(["a", "b"].map(createTestDoc), { signal: controller.signal })
+        .catch((e: unknown) => e);
+      await uploader.abandonVersion(error, true);
+
+      expect(mockFinalizeKnowledgeBaseVersion).not.toHaveBeenCalled();
+      expect((await checkpointStore.load())?.knowledgeBaseVersion).toEqual(versionId);
+
+      const resumed = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        checkpointStore,
+      });
+      await resumed.beginVersion("FULL", { resume: true });
+
+      expect(mockCreateKnowledgeBaseVersion).toHaveBeenCalledTimes(1);
+    });
+
+    it("should cancel an interrupted version when starting over", async () => {
+      await checkpointStore.save({
+        ...createCheckpoint("kb-1"),
+        knowledgeBaseVersion: { ...versionId, referenceId: "version-old" },
+      });
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", {
+        ...fastRetryConfig,
+        checkpointStore,
+      });
+
+      await uploader.beginVersion("PARTIAL");
+
+      expect(mockFinalizeKnowledgeBaseVersion).toHaveBeenCalledWith("kb-1", {
+        versionId: { ...versionId, referenceId: "version-old" },
+        status: "CANCELED",
+        errorMessage: "Replaced by a new sync",
+      });
+      expect(mockCreateKnowledgeBaseVersion).toHaveBeenCalledTimes(1);
+      expect(await checkpointStore.load()).toBeUndefined();
+    });
+
+    it("should cancel an interrupted version without a checkpoint", async () => {
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+
+      await uploader.beginVersion("PARTIAL");
+      await uploader.abandonVersion(new Error("Sync interrupted by shutdown"), true);
+
+      expect(mockFinalizeKnowledgeBaseVersion).toHaveBeenCalledWith("kb-1", {
+        versionId,
+        status: "CANCELED",
+        errorMessage: "Sync interrupted by shutdown",
+      });
+    });
+
+    it("should not throw when a version cannot be closed", async () => {
+      mockFinalizeKnowledgeBaseVersion.mockRejectedValue(
+        Object.assign(new Error("Bad request"), { statusCode: 400 })
+      );
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+
+      await uploader.beginVersion("PARTIAL");
+      await expect(
+        uploader.abandonVersion(new Error("Maven unavailable"))
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("delete", () => {
+    it("should delete documents inside a partial knowledge base version", async () => {
+      mockDeleteKnowledgeDocument.mockResolvedValue(undefined);
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+      const result = await uploader.delete(["doc-1", "doc-2"]);
+
+      expect(result.success).toBe(2);
+      expect(result.failed).toBe(0);
+      expect(mockCreateKnowledgeBaseVersion).toHaveBeenCalledWith("kb-1", {
+        type: "PARTIAL",
+      });
+      expect(mockDeleteKnowledgeDocument).toHaveBeenCalledWith("kb-1", "doc-1", {
+        versionId,
+      });
+      expect(mockDeleteKnowledgeDocument).toHaveBeenCalledWith("kb-1", "doc-2", {
+        versionId,
+      });
+      expect(mockFinalizeKnowledgeBaseVersion).toHaveBeenCalledWith("kb-1", {
+        versionId,
+        status: "SUCCEEDED",
+      });
+    });
+
+    it("should not open a version when there is nothing to delete", async () => {
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+      const result = await uploader.delete([]);
+
+      expect(result.total).toBe(0);
+      expect(mockCreateKnowledgeBaseVersion).not.toHaveBeenCalled();
+    });
+
+    it("should report documents that fail to delete after retries", async () => {
+      mockDeleteKnowledgeDocument.mockImplementation(async (_kb: string, id: string) => {
+        if (id === "doc-2") {
+          throw new Error("Delete failed");
+        }
+      });
+
+      const uploader = new MavenUploader(mockMavenClient as any, "kb-1", fastRetryConfig);
+      const result = await uploader.delete(["doc-1", "doc-2"]);
+
+      expect(result.success).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(result.errors).toEqual([{ docId: "doc-2", error: "Delete failed" }]);
+      expect(mockFinalizeKnowledgeBaseVersion).toHaveBeenCalledWith("kb-1", {
+        versionId,
+        status: "FAILED",
+        errorMessage: "1 delete(s) failed",
+      });
+    });
+  });
 });
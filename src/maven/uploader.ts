@@ -1,19 +1,53 @@
 /**
  * Maven Knowledge Document Uploader
  *
- * Uploads documents to Maven in chunks with progress logging.
+ * Uploads documents to Maven in chunks with progress logging. Writes within
+ * a chunk run concurrently through a rate limiter (like DocsieClient's).
  * Includes retry logic with exponential backoff for transient failures.
+ * Also deletes documents that no longer exist in Docsie.
+ *
+ * With a checkpoint store, progress is written after every chunk so an
+ * interrupted upload can be resumed without re-sending finished documents.
+ *
+ * A sync writes into a knowledge base version (beginVersion) that only
+ * becomes active once finalized as succeeded (finishVersion), so a failed
+ * run leaves the previous version in place.
  */
 
-import type { MavenAGIClient } from "mavenagi";
+import Bottleneck from "bottleneck";
+import type { MavenAGI, MavenAGIClient } from "mavenagi";
 import type { MavenKnowledgeDocument } from "./transform.js";
 import { withRetry, type RetryConfig } from "../utils/retry.js";
+import { categorize, type ErrorCategory } from "../utils/errors.js";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import type { SyncMetrics } from "../utils/metrics.js";
+import { toMavenError } from "./errors.js";
+import {
+  createCheckpoint,
+  hashDocument,
+  type CheckpointStore,
+  type UploadCheckpoint,
+} from "./checkpoint.js";
 
 const DEFAULT_CHUNK_SIZE = 50;
+const DEFAULT_MAX_CONCURRENT = 5;
+const DEFAULT_MIN_TIME = 0;
 
 export interface UploadError {
   docId: string;
   error: string;
+  /** Failure category when known; auth/not_found/validation errors are not retried */
+  category?: ErrorCategory;
+}
+
+/** What happened to one document during an upload or delete */
+export interface DocumentOutcome {
+  docId: string;
+  success: boolean;
+  /** Maven calls made (more than 1 when retried; 0 when skipped on resume) */
+  attempts: number;
+  /** Time from scheduling the first call to the last one finishing */
+  durationMs: number;
 }
 
 export interface UploadResult {
@@ -21,12 +55,50 @@ export interface UploadResult {
   success: number;
   failed: number;
   errors: UploadError[];
+  /** Per-document outcomes, in document order */
+  outcomes?: DocumentOutcome[];
+}
+
+/**
+ * FULL versions replace every document (documents not written into them are
+ * removed); PARTIAL versions change only the documents written or deleted
+ */
+export type KnowledgeBaseVersionType = "FULL" | "PARTIAL";
+
+/** Outcome of one document write, with its error if it permanently failed */
+interface WriteOutcome {
+  outcome: DocumentOutcome;
+  error?: UploadError;
+}
+
+export interface UploadOptions {
+  /** Continue from the last checkpoint, skipping documents already uploaded */
+  resume?: boolean;
+  /**
+   * Stops the upload when aborted: pending retries are given up and no
+   * further chunk starts. The checkpoint is kept so the upload can be resumed.
+   */
+  signal?: AbortSignal;
 }
 
-export interface UploaderConfig {
+/** Batching and rate limiting of Maven writes */
+export interface UploadLimits {
+  /** Documents per chunk; progress is logged and checkpointed per chunk (default: 50) */
   chunkSize?: number;
+  /** Max concurrent Maven writes (default: 5) */
+  maxConcurrent?: number;
+  /** Min time between Maven writes in ms (default: 0) */
+  minTime?: number;
+}
+
+export interface UploaderConfig extends UploadLimits {
+  /** Where upload progress is checkpointed (no checkpoints if omitted) */
+  checkpointStore?: CheckpointStore;
   /** Override retry config for testing */
   retryConfig?: Partial<Omit<RetryConfig, "context">>;
+  logger?: Logger;
+  /** Records Maven call latency and retries (not recorded if omitted) */
+  metrics?: SyncMetrics;
 }
 
 export class MavenUploader {
@@ -34,6 +106,12 @@ export class MavenUploader {
   private readonly knowledgeBaseId: string;
   private readonly chunkSize: number;
   private readonly retryConfig: Partial<Omit<RetryConfig, "context">>;
+  private readonly checkpointStore?: CheckpointStore;
+  private readonly limiter: Bottleneck;
+  private readonly logger: Logger;
+  private readonly metrics?: SyncMetrics;
+  /** Version opened by beginVersion that uploads and deletes write into */
+  private version?: MavenAGI.EntityIdWithoutAgent;
 
   constructor(
     client: MavenAGIClient,
@@ -44,79 +122,450 @@ export class MavenUploader {
     this.knowledgeBaseId = knowledgeBaseId;
     this.chunkSize = config.chunkSize ?? DEFAULT_CHUNK_SIZE;
     this.retryConfig = config.retryConfig ?? {};
+    this.checkpointStore = config.checkpointStore;
+    this.logger = (config.logger ?? defaultLogger).child({ knowledgeBaseId });
+    this.metrics = config.metrics;
+    this.limiter = new Bottleneck({
+      maxConcurrent: config.maxConcurrent ?? DEFAULT_MAX_CONCURRENT,
+      minTime: config.minTime ?? DEFAULT_MIN_TIME,
+    });
   }
 
   /**
    * Upload documents to Maven knowledge base in chunks
+   *
+   * A checkpoint is written after each chunk and removed once every
+   * document was attempted. When resuming, documents the checkpoint lists
+   * as uploaded with the same content are counted as successes and skipped.
    */
-  async upload(documents: MavenKnowledgeDocument[]): Promise<UploadResult> {
+  async upload(
+    documents: MavenKnowledgeDocument[],
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
     const result: UploadResult = {
       total: documents.length,
       success: 0,
       failed: 0,
       errors: [],
+      outcomes: [],
     };
 
     if (documents.length === 0) {
       return result;
     }
 
+    const checkpoint = await this.startCheckpoint(options.resume ?? false);
+    if (checkpoint && this.version) {
+      checkpoint.knowledgeBaseVersion = this.version;
+    }
+    const remaining = documents.filter((doc) => {
+      const referenceId = doc.knowledgeDocumentId.referenceId;
+      return checkpoint?.completed[referenceId] !== hashDocument(doc);
+    });
+
+    const skipped = documents.length - remaining.length;
+    if (skipped > 0) {
+      result.success += skipped;
+      const remainingIds = new Set(remaining);
+      for (const doc of documents.filter((doc) => !remainingIds.has(doc))) {
+        result.outcomes!.push({
+          docId: doc.knowledgeDocumentId.referenceId,
+          success: true,
+          attempts: 0,
+          durationMs: 0,
+        });
+      }
+      this.logger.info(
+        `Resuming run ${checkpoint!.runId}: skipping ${skipped} documents already uploaded`,
+        { checkpointRunId: checkpoint!.runId, skipped }
+      );
+    }
+
     // Split into chunks
-    const chunks = this.chunkArray(documents, this.chunkSize);
+    const chunks = this.chunkArray(remaining, this.chunkSize);
 
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i];
       const chunkNum = i + 1;
 
-      console.log(
-        `Chunk ${chunkNum}/${chunks.length}: Uploading ${chunk.length} documents...`
+      if (options.signal?.aborted) {
+        this.logger.warn(
+          `Upload interrupted before chunk ${chunkNum}/${chunks.length}; resume to upload the rest`,
+          { chunk: chunkNum, chunks: chunks.length }
+        );
+        options.signal.throwIfAborted();
+      }
+      const logger = this.logger.child({ chunk: chunkNum, chunks: chunks.length });
+
+      logger.info(`Chunk ${chunkNum}/${chunks.length}: Uploading ${chunk.length} documents...`, {
+        documents: chunk.length,
+      });
+
+      // Upload the chunk concurrently; outcomes are tallied in document order
+      const outcomes = await Promise.all(
+        chunk.map((doc) => this.uploadDocument(doc, logger, options.signal))
       );
+      tally(result, outcomes);
+      if (checkpoint) {
+        chunk.forEach((doc, index) => {
+          if (outcomes[index].outcome.success) {
+            checkpoint.completed[doc.knowledgeDocumentId.referenceId] = hashDocument(doc);
+          }
+        });
+      }
 
-      // Process each document in the chunk with retry
-      for (const doc of chunk) {
-        try {
-          await withRetry(
-            () =>
-              this.client.knowledge.createKnowledgeDocument(
-                this.knowledgeBaseId,
-                {
-                  knowledgeDocumentId: doc.knowledgeDocumentId,
-                  contentType: doc.contentType,
-                  title: doc.title,
-                  content: doc.content,
-                  metadata: doc.metadata,
-                }
-              ),
-            {
-              context: `upload ${doc.knowledgeDocumentId.referenceId}`,
-              maxRetries: this.retryConfig.maxRetries ?? 3,
-              initialDelayMs: this.retryConfig.initialDelayMs ?? 1000,
-              backoffMultiplier: this.retryConfig.backoffMultiplier ?? 2,
-            }
-          );
-          result.success++;
-        } catch (error) {
-          // Failed after all retries
-          result.failed++;
-          result.errors.push({
-            docId: doc.knowledgeDocumentId.referenceId,
-            error: error instanceof Error ? error.message : String(error),
-          });
-          console.error(
-            `[upload ${doc.knowledgeDocumentId.referenceId}] permanently failed:`,
-            error instanceof Error ? error.message : String(error)
-          );
-        }
+      logger.info(`Chunk ${chunkNum} complete: ${result.success} success, ${result.failed} failed`, {
+        success: result.success,
+        failed: result.failed,
+      });
+
+      if (checkpoint) {
+        checkpoint.pending = chunks
+          .slice(i + 1)
+          .flat()
+          .map((doc) => doc.knowledgeDocumentId.referenceId);
+        checkpoint.updatedAt = new Date().toISOString();
+        await this.checkpointStore!.save(checkpoint);
       }
+    }
 
-      console.log(
-        `Chunk ${chunkNum} complete: ${result.success} success, ${result.failed} failed`
+    await this.checkpointStore?.clear();
+
+    return result;
+  }
+
+  /**
+   * Upload one document with retries
+   */
+  private uploadDocument(
+    doc: MavenKnowledgeDocument,
+    logger: Logger,
+    signal?: AbortSignal
+  ): Promise<WriteOutcome> {
+    return this.writeDocument("upload", doc.knowledgeDocumentId.referenceId, logger, signal, () =>
+      this.schedule("createKnowledgeDocument", () =>
+        this.client.knowledge.createKnowledgeDocument(this.knowledgeBaseId, {
+          knowledgeDocumentId: doc.knowledgeDocumentId,
+          ...(this.version && { versionId: this.version }),
+          contentType: doc.contentType,
+          title: doc.title,
+          content: doc.content,
+          metadata: doc.metadata,
+          ...(doc.url && { url: doc.url }),
+        })
+      )
+    );
+  }
+
+  /**
+   * Run a document write with retries, counting attempts and timing it
+   */
+  private async writeDocument(
+    action: "upload" | "delete",
+    referenceId: string,
+    parentLogger: Logger,
+    signal: AbortSignal | undefined,
+    write: () => Promise<unknown>
+  ): Promise<WriteOutcome> {
+    const logger = parentLogger.child({ docId: referenceId, action });
+    const startTime = Date.now();
+    let attempts = 0;
+    const outcome = (success: boolean): DocumentOutcome => ({
+      docId: referenceId,
+      success,
+      attempts,
+      durationMs: Date.now() - startTime,
+    });
+
+    try {
+      await withRetry(
+        () => {
+          attempts++;
+          return write();
+        },
+        { context: `${action} ${referenceId}`, ...this.retryOptions(), logger, signal }
+      );
+      const succeeded = outcome(true);
+      logger.debug(`[${action} ${referenceId}] done`, {
+        attempts: succeeded.attempts,
+        durationMs: succeeded.durationMs,
+      });
+      return { outcome: succeeded };
+    } catch (error) {
+      // Failed after all retries
+      const message = error instanceof Error ? error.message : String(error);
+      const failed = outcome(false);
+      logger.error(`[${action} ${referenceId}] permanently failed: ${message}`, {
+        attempts: failed.attempts,
+        durationMs: failed.durationMs,
+        errorCategory: categorize(error),
+        error: message,
+      });
+      return { outcome: failed, error: toUploadError(referenceId, error) };
+    }
+  }
+
+  /**
+   * Checkpoint for this upload: the previous one when resuming it, else a
+   * new run (undefined without a checkpoint store)
+   */
+  private async startCheckpoint(resume: boolean): Promise<UploadCheckpoint | undefined> {
+    if (!this.checkpointStore) {
+      return undefined;
+    }
+
+    const previous = await this.checkpointStore.load();
+    if (previous && previous.knowledgeBaseId !== this.knowledgeBaseId) {
+      this.logger.warn(
+        `Ignoring checkpoint of run ${previous.runId} for knowledge base ${previous.knowledgeBaseId}`,
+        { checkpointRunId: previous.runId }
+      );
+    } else if (previous && resume) {
+      return previous;
+    } else if (previous) {
+      this.logger.warn(
+        `Starting over: checkpoint of interrupted run ${previous.runId} is replaced (use --resume to continue it)`,
+        { checkpointRunId: previous.runId }
       );
+    } else if (resume) {
+      this.logger.info("No checkpoint found, uploading all documents");
+    }
+
+    return createCheckpoint(this.knowledgeBaseId);
+  }
+
+  /**
+   * Delete documents from the Maven knowledge base
+   *
+   * Maven only allows deletes inside a partial knowledge base version. They
+   * go into the version opened by beginVersion; without one, a version is
+   * opened for the batch and finalized once all deletes are attempted, as
+   * failed (so the previous version stays active) if any delete failed.
+   * Deletes run concurrently through the same rate limiter as uploads.
+   */
+  async delete(referenceIds: string[]): Promise<UploadResult> {
+    const result: UploadResult = {
+      total: referenceIds.length,
+      success: 0,
+      failed: 0,
+      errors: [],
+      outcomes: [],
+    };
+
+    if (referenceIds.length === 0) {
+      return result;
     }
 
+    const ownVersion = !this.version;
+    const versionId = this.version ?? (await this.createVersion("PARTIAL"));
+
+    const outcomes = await Promise.all(
+      referenceIds.map((referenceId) =>
+        this.writeDocument("delete", referenceId, this.logger, undefined, () =>
+          this.schedule("deleteKnowledgeDocument", () =>
+            this.client.knowledge.deleteKnowledgeDocument(this.knowledgeBaseId, referenceId, {
+              versionId,
+            })
+          )
+        )
+      )
+    );
+    tally(result, outcomes);
+
+    if (ownVersion) {
+      if (result.failed > 0) {
+        await this.finalizeVersion(versionId, "FAILED", `${result.failed} delete(s) failed`);
+      } else {
+        await this.finalizeVersion(versionId, "SUCCEEDED");
+      }
+    }
+
+    this.logger.info(`Delete complete: ${result.success} deleted, ${result.failed} failed`, {
+      deleted: result.success,
+      failed: result.failed,
+    });
+
     return result;
   }
 
+  /**
+   * Open a knowledge base version for the following uploads and deletes
+   *
+   * When resuming, the version recorded in the checkpoint is continued.
+   * Otherwise a version the checkpoint recorded is canceled, as its run is
+   * not going to finish it, and the checkpoint is removed.
+   */
+  async beginVersion(type: KnowledgeBaseVersionType, options: UploadOptions = {}): Promise<void> {
+    const checkpoint = await this.checkpointStore?.load();
+    const previous =
+      checkpoint?.knowledgeBaseId === this.knowledgeBaseId
+        ? checkpoint.knowledgeBaseVersion
+        : undefined;
+    if (previous && options.resume) {
+      this.version = previous;
+      this.logger.info(`Continuing knowledge base version ${previous.referenceId}`, {
+        versionId: previous.referenceId,
+      });
+      return;
+    }
+    if (previous) {
+      await this.cancelInterruptedVersion(previous, checkpoint!.runId);
+    }
+
+    this.version = await this.createVersion(type);
+    const versionId = this.version.referenceId;
+    this.logger.info(`Writing into new ${type} knowledge base version ${versionId}`, {
+      versionId,
+      versionType: type,
+    });
+  }
+
+  /**
+   * Finalize the open version: once succeeded it becomes the active one;
+   * a failed version is discarded and the previous one stays active
+   */
+  async finishVersion(succeeded: boolean, errorMessage?: string): Promise<void> {
+    const version = this.version;
+    if (!version) {
+      return;
+    }
+    this.version = undefined;
+
+    await this.finalizeVersion(version, succeeded ? "SUCCEEDED" : "FAILED", errorMessage);
+    if (succeeded) {
+      this.logger.info(`Knowledge base version ${version.referenceId} finalized`, {
+        versionId: version.referenceId,
+      });
+    } else {
+      this.logger.warn(
+        `Knowledge base version ${version.referenceId} discarded: ${errorMessage}`,
+        { versionId: version.referenceId }
+      );
+    }
+  }
+
+  /**
+   * Close the open version after the sync was interrupted (aborted) or failed. An
+   * interrupted upload whose checkpoint records the version keeps it open, so
+   * resuming continues it; otherwise the version is canceled (or failed).
+   * Errors are logged rather than thrown, so the original error is reported.
+   */
+  async abandonVersion(error: unknown, interrupted: boolean = false): Promise<void> {
+    const version = this.version;
+    if (!version) {
+      return;
+    }
+    this.version = undefined;
+
+    const checkpoint = interrupted ? await this.checkpointStore?.load() : undefined;
+    if (checkpoint?.knowledgeBaseVersion?.referenceId === version.referenceId) {
+      this.logger.info(`Knowledge base version ${version.referenceId} left open for --resume`, {
+        versionId: version.referenceId,
+      });
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      await this.finalizeVersion(version, interrupted ? "CANCELED" : "FAILED", message);
+    } catch (finalizeError) {
+      this.logger.warn(`Could not close knowledge base version ${version.referenceId}`, {
+        versionId: version.referenceId,
+        error: finalizeError instanceof Error ? finalizeError.message : String(finalizeError),
+      });
+    }
+  }
+
+  /**
+   * Cancel the version an interrupted run left open for --resume (errors are
+   * logged: the version then stays open, but never becomes active)
+   */
+  private async cancelInterruptedVersion(
+    version: MavenAGI.EntityIdWithoutAgent,
+    runId: string
+  ): Promise<void> {
+    this.logger.warn(
+      `Starting over: canceling knowledge base version ${version.referenceId} of interrupted run ${runId} (use --resume to continue it)`,
+      { versionId: version.referenceId, checkpointRunId: runId }
+    );
+    try {
+      await this.finalizeVersion(version, "CANCELED", "Replaced by a new sync");
+    } catch (error) {
+      this.logger.warn(`Could not close knowledge base version ${version.referenceId}`, {
+        versionId: version.referenceId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    await this.checkpointStore?.clear();
+  }
+
+  private async createVersion(
+    type: KnowledgeBaseVersionType
+  ): Promise<MavenAGI.EntityIdWithoutAgent> {
+    const version = await withRetry(
+      () =>
+        this.schedule("createKnowledgeBaseVersion", () =>
+          this.client.knowledge.createKnowledgeBaseVersion(this.knowledgeBaseId, { type })
+        ),
+      { context: "create version", ...this.retryOptions(), logger: this.logger }
+    );
+    return version.versionId;
+  }
+
+  private async finalizeVersion(
+    versionId: MavenAGI.EntityIdWithoutAgent,
+    status: "SUCCEEDED" | "FAILED" | "CANCELED",
+    errorMessage?: string
+  ): Promise<void> {
+    await withRetry(
+      () =>
+        this.schedule("finalizeKnowledgeBaseVersion", () =>
+          this.client.knowledge.finalizeKnowledgeBaseVersion(this.knowledgeBaseId, {
+            versionId,
+            status,
+            ...(errorMessage && { errorMessage }),
+          })
+        ),
+      { context: "finalize version", ...this.retryOptions(), logger: this.logger }
+    );
+  }
+
+  /**
+   * Run a Maven SDK call, converting its errors to typed connector errors
+   * so withRetry can tell permanent failures from transient ones. Its
+   * latency is recorded by operation and outcome.
+   */
+  private async call<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    const done = this.metrics?.mavenWriteDuration.startTimer({ operation });
+    try {
+      const result = await fn();
+      done?.({ outcome: "success" });
+      return result;
+    } catch (error) {
+      const mavenError = toMavenError(error, operation);
+      done?.({ outcome: categorize(mavenError) });
+      throw mavenError;
+    }
+  }
+
+  /**
+   * Run a Maven SDK call through the rate limiter. Each retry attempt is
+   * scheduled again, so retries also respect the concurrency limit.
+   */
+  private schedule<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    return this.limiter.schedule(() => this.call(operation, fn));
+  }
+
+  private retryOptions(): Omit<RetryConfig, "context"> {
+    return {
+      maxRetries: this.retryConfig.maxRetries ?? 3,
+      initialDelayMs: this.retryConfig.initialDelayMs ?? 1000,
+      backoffMultiplier: this.retryConfig.backoffMultiplier ?? 2,
+      maxDelayMs: this.retryConfig.maxDelayMs,
+      onRetry: () => this.metrics?.retries.inc({ client: "maven" }),
+    };
+  }
+
   /**
    * Split array into chunks of specified size
    */
@@ -128,3 +577,28 @@ export class MavenUploader {
     return chunks;
   }
 }
+
+/**
+ * Add document outcomes to a result (in the given order, so errors are
+ * reported deterministically however the concurrent writes finished)
+ */
+function tally(result: UploadResult, outcomes: WriteOutcome[]): void {
+  for (const { outcome, error } of outcomes) {
+    result.outcomes!.push(outcome);
+    if (error) {
+      result.failed++;
+      result.errors.push(error);
+    } else {
+      result.success++;
+    }
+  }
+}
+
+function toUploadError(docId: string, error: unknown): UploadError {
+  const category = categorize(error);
+  return {
+    docId,
+    error: error instanceof Error ? error.message : String(error),
+    ...(category !== "unknown" && { category }),
+  };
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { SyncDaemon } from "./daemon.js";
+import { parseSchedule } from "./schedule.js";
+import { createLogger } from "../utils/logger.js";
+import type { RunResult } from "../cli/run.js";
+import type { ArticleChange } from "../sync/sync.js";
+
+const logger = createLogger({ level: "silent" });
+const ok: RunResult = { success: true, exitCode: 0 };
+
+/** A run that finishes when released, or rejects once aborted */
+function controllableRun() {
+  const releases: Array<() => void> = [];
+  const run = vi.fn(
+    (signal: AbortSignal, _articles?: ArticleChange[]) =>
+      new Promise<RunResult>((resolve, reject) => {
+        releases.push(() => resolve(ok));
+        signal.addEventListener("abort", () => reject(signal.reason));
+      })
+  );
+  return { run, release: () => releases.shift()?.() };
+}
+
+describe("SyncDaemon", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should not start a sync while one is running", async () => {
+    const { run, release } = controllableRun();
+    const daemon = new SyncDaemon(run, { logger });
+
+    expect(daemon.trigger("manual")).toBe(true);
+    expect(daemon.trigger("manual")).toBe(false);
+    expect(daemon.status()).toMatchObject({ state: "running", currentRun: { trigger: "manual" } });
+
+    release();
+    await vi.waitFor(() => expect(daemon.status().state).toBe("idle"));
+    expect(daemon.trigger("manual")).toBe(true);
+    expect(run).toHaveBeenCalledTimes(2);
+    await daemon.stop();
+  });
+
+  it("should report the last run's result", async () => {
+    const run = vi.fn().mockResolvedValueOnce(ok).mockRejectedValueOnce(new Error("boom"));
+    const daemon = new SyncDaemon(run, { logger });
+
+    daemon.trigger("manual");
+    await vi.waitFor(() => expect(daemon.status().lastRun?.result).toEqual(ok));
+
+    daemon.trigger("schedule");
+    await vi.waitFor(() =>
+      expect(daemon.status().lastRun).toMatchObject({
+        trigger: "schedule",
+        result: { success: false, exitCode: 1, error: "boom" },
+      })
+    );
+    expect(daemon.status()).toMatchObject({ state: "idle", runs: 2 });
+    expect(daemon.status().lastRun?.finishedAt).toBeDefined();
+  });
+
+  it("should abort the running sync on stop and wait for it", async () => {
+    const { run } = controllableRun();
+    const daemon = new SyncDaemon(run, { logger });
+    daemon.trigger("manual");
+
+    await daemon.stop();
+
+    expect(run.mock.calls[0][0].aborted).toBe(true);
+    expect(daemon.status()).toMatchObject({
+      state: "stopping",
+      lastRun: { result: { success: false, error: "Sync interrupted by shutdown" } },
+    });
+    expect(daemon.trigger("manual")).toBe(false);
+  });
+
+  it("should queue changed articles until the running sync finishes", async () => {
+    const { run, release } = controllableRun();
+    const daemon = new SyncDaemon(run, { logger });
+    daemon.trigger("schedule");
+
+    daemon.syncArticles([{ articleId: "art_1", deleted: false }]);
+    daemon.syncArticles([
+      { articleId: "art_2", deleted: false },
+      { articleId: "art_1", deleted: true },
+    ]);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(daemon.status().queuedArticles).toEqual(["art_1", "art_2"]);
+
+    release();
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(2));
+    expect(run.mock.calls[1][1]).toEqual([
+      { articleId: "art_1", deleted: true },
+      { articleId: "art_2", deleted: false },
+    ]);
+    expect(daemon.status()).toMatchObject({
+      state: "running",
+      currentRun: { trigger: "webhook", articles: ["art_1", "art_2"] },
+    });
+    expect(daemon.status().queuedArticles).toBeUndefined();
+    await daemon.stop();
+  });
+
+  it("should drop queued articles on stop", async () => {
+    const { run } = controllableRun();
+    const daemon = new SyncDaemon(run, { logger });
+    daemon.trigger("manual");
+    daemon.syncArticles([{ articleId: "art_1", deleted: false }]);
+
+    await daemon.stop();
+    daemon.syncArticles([{ articleId: "art_2", deleted: false }]);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(daemon.status().queuedArticles).toBeUndefined();
+  });
+
+  it("should run interval schedules right away and then on each interval", async () => {
+    vi.useFakeTimers();
+    const run = vi.fn().mockResolvedValue(ok);
+    const daemon = new SyncDaemon(run, { schedule: parseSchedule("10m"), logger });
+
+    daemon.start();
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(daemon.status().nextRunAt).toBe(new Date(Date.now() + 10 * 60 * 1000).toISOString());
+
+    await daemon.stop();
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("should skip scheduled runs while a sync is still running", async () => {
+    vi.useFakeTimers();
+    const { run, release } = controllableRun();
+    const daemon = new SyncDaemon(run, { schedule: parseSchedule("1m"), logger });
+
+    daemon.start();
+    await vi.advanceTimersByTimeAsync(3 * 60 * 1000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    release();
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(run).toHaveBeenCalledTimes(2);
+    await daemon.stop();
+  });
+
+  it("should wait for the first cron match", async () => {
+    vi.useFakeTimers({ now: new Date("2024-01-01T10:20:00Z") });
+    const run = vi.fn().mockResolvedValue(ok);
+    const daemon = new SyncDaemon(run, { schedule: parseSchedule("30 * * * *"), logger });
+
+    daemon.start();
+    expect(daemon.status().nextRunAt).toBe("2024-01-01T10:30:00.000Z");
+    await vi.advanceTimersByTimeAsync(9 * 60 * 1000);
+    expect(run).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(daemon.status().nextRunAt).toBe("2024-01-01T11:30:00.000Z");
+    await daemon.stop();
+  });
+});
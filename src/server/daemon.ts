@@ -0,0 +1,232 @@
+/**
+ * Sync Daemon
+ *
+ * Runs syncs on a schedule and on demand for `serve`. Only one sync runs at
+ * a time: a scheduled run that comes due while another is in progress is
+ * skipped, and on-demand triggers are refused until it finishes. Changed
+ * articles (from webhooks) are queued instead and synced together as soon as
+ * no sync is running.
+ *
+ * Stopping aborts the current run through its AbortSignal (the uploader
+ * stops after the chunk in flight, keeping its checkpoint) and waits for it.
+ */
+
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import type { RunResult } from "../cli/run.js";
+import type { ArticleChange } from "../sync/sync.js";
+import { nextRunAt, type Schedule } from "./schedule.js";
+
+export type SyncTrigger = "schedule" | "manual" | "webhook";
+
+/** Runs a full sync, or a targeted sync of the given articles */
+export type DaemonSync = (signal: AbortSignal, articles?: ArticleChange[]) => Promise<RunResult>;
+
+export interface DaemonRun {
+  trigger: SyncTrigger;
+  /** Articles synced by a targeted run */
+  articles?: string[];
+  startedAt: string;
+  finishedAt?: string;
+  result?: RunResult;
+}
+
+export interface DaemonStatus {
+  state: "idle" | "running" | "stopping";
+  /** Schedule as configured (manual runs only if unset) */
+  schedule?: string;
+  nextRunAt?: string;
+  currentRun?: DaemonRun;
+  lastRun?: DaemonRun;
+  /** Changed articles waiting for the current sync to finish */
+  queuedArticles?: string[];
+  /** Runs started since the daemon started */
+  runs: number;
+}
+
+export interface SyncDaemonOptions {
+  /** When to run syncs (only on demand if omitted) */
+  schedule?: Schedule;
+  logger?: Logger;
+}
+
+/** Longest delay setTimeout supports; longer waits are re-armed */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+export class SyncDaemon {
+  private readonly run: DaemonSync;
+  private readonly schedule?: Schedule;
+  private readonly logger: Logger;
+  private timer?: NodeJS.Timeout;
+  private nextRun?: Date;
+  private current?: { run: DaemonRun; controller: AbortController; done: Promise<void> };
+  private lastRun?: DaemonRun;
+  private readonly queue = new Map<string, ArticleChange>();
+  private runs = 0;
+  private stopping = false;
+
+  constructor(run: DaemonSync, options: SyncDaemonOptions = {}) {
+    this.run = run;
+    this.schedule = options.schedule;
+    this.logger = options.logger ?? defaultLogger;
+  }
+
+  /**
+   * Start the schedule; an interval schedule runs a first sync right away
+   */
+  start(): void {
+    if (!this.schedule) {
+      this.logger.info("No schedule configured: syncs only run on POST /sync");
+      return;
+    }
+
+    if (this.schedule.kind === "interval") {
+      this.trigger("schedule");
+    }
+    this.scheduleNext(new Date());
+  }
+
+  /**
+   * Start a full sync unless one is running or the daemon is stopping
+   *
+   * @returns whether a sync was started
+   */
+  trigger(trigger: Exclude<SyncTrigger, "webhook">): boolean {
+    if (this.stopping || this.current) {
+      return false;
+    }
+
+    this.begin(trigger);
+    return true;
+  }
+
+  /**
+   * Queue changed articles for a targeted sync, which starts right away when
+   * no sync is running. A later change of a queued article replaces it.
+   */
+  syncArticles(changes: ArticleChange[]): void {
+    if (this.stopping) {
+      return;
+    }
+    for (const change of changes) {
+      this.queue.set(change.articleId, change);
+    }
+    this.drain();
+  }
+
+  status(): DaemonStatus {
+    return {
+      state: this.stopping ? "stopping" : this.current ? "running" : "idle",
+      ...(this.schedule && { schedule: this.schedule.source }),
+      ...(this.nextRun && !this.stopping && { nextRunAt: this.nextRun.toISOString() }),
+      ...(this.current && { currentRun: this.current.run }),
+      ...(this.lastRun && { lastRun: this.lastRun }),
+      ...(this.queue.size > 0 && { queuedArticles: [...this.queue.keys()] }),
+      runs: this.runs,
+    };
+  }
+
+  /**
+   * Stop scheduling, abort the current sync and wait for it to wind down
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    clearTimeout(this.timer);
+    if (this.queue.size > 0) {
+      this.logger.warn(
+        `Dropping ${this.queue.size} queued article change(s); the next full sync picks them up`
+      );
+      this.queue.clear();
+    }
+
+    if (this.current) {
+      this.logger.info("Stopping: interrupting the running sync");
+      this.current.controller.abort(new Error("Sync interrupted by shutdown"));
+      await this.current.done;
+    }
+  }
+
+  private begin(trigger: SyncTrigger, articles?: ArticleChange[]): void {
+    const run: DaemonRun = {
+      trigger,
+      ...(articles && { articles: articles.map((change) => change.articleId) }),
+      startedAt: new Date().toISOString(),
+    };
+    const controller = new AbortController();
+    this.runs++;
+    this.logger.info(`Starting ${trigger} sync`, { trigger, articles: run.articles?.join(",") });
+
+    const done = this.execute(run, controller.signal, articles).finally(() => {
+      this.current = undefined;
+      this.drain();
+    });
+    this.current = { run, controller, done };
+  }
+
+  /**
+   * Start a targeted sync of the queued articles if no sync is running
+   */
+  private drain(): void {
+    if (this.stopping || this.current || this.queue.size === 0) {
+      return;
+    }
+
+    const articles = [...this.queue.values()];
+    this.queue.clear();
+    this.begin("webhook", articles);
+  }
+
+  private async execute(
+    run: DaemonRun,
+    signal: AbortSignal,
+    articles?: ArticleChange[]
+  ): Promise<void> {
+    let result: RunResult;
+    try {
+      result = await this.run(signal, articles);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result = { success: false, exitCode: 1, error: message };
+    }
+
+    run.finishedAt = new Date().toISOString();
+    run.result = result;
+    this.lastRun = run;
+
+    const fields = { trigger: run.trigger, exitCode: result.exitCode, error: result.error };
+    if (result.success) {
+      this.logger.info(`Finished ${run.trigger} sync`, fields);
+    } else {
+      this.logger.error(`${run.trigger} sync failed: ${result.error ?? "see above"}`, fields);
+    }
+  }
+
+  /**
+   * Arm the timer for the next scheduled run after `after`
+   */
+  private scheduleNext(after: Date): void {
+    if (!this.schedule || this.stopping) {
+      return;
+    }
+
+    this.nextRun = nextRunAt(this.schedule, after);
+    this.logger.debug(`Next sync at ${this.nextRun.toISOString()}`);
+    this.armTimer();
+  }
+
+  private armTimer(): void {
+    const delay = Math.min(Math.max(this.nextRun!.getTime() - Date.now(), 0), MAX_TIMER_DELAY_MS);
+
+    this.timer = setTimeout(() => {
+      if (Date.now() < this.nextRun!.getTime()) {
+        this.armTimer();
+        return;
+      }
+
+      if (!this.trigger("schedule") && !this.stopping) {
+        this.logger.warn("Skipping scheduled sync: the previous sync is still running");
+      }
+      // Missed runs (e.g. after the host slept) are not caught up
+      this.scheduleNext(new Date());
+    }, delay);
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import {
+  close,
+  createRouter,
+  daemonRoutes,
+  listen,
+  metricsRoutes,
+  type Routes,
+} from "./http.js";
+import { SyncDaemon } from "./daemon.js";
+import { createLogger } from "../utils/logger.js";
+import { createSyncMetrics } from "../utils/metrics.js";
+
+const logger = createLogger({ level: "silent" });
+
+describe("daemon HTTP endpoints", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server?.listening) {
+      await close(server);
+    }
+  });
+
+  async function start(routes: Routes): Promise<string> {
+    server = createRouter(routes, logger);
+    await listen(server, 0, "127.0.0.1");
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  it("should report health, status and trigger syncs", async () => {
+    let finish!: () => void;
+    const run = vi.fn(
+      () => new Promise<any>((resolve) => (finish = () => resolve({ success: true, exitCode: 0 })))
+    );
+    const daemon = new SyncDaemon(run, { logger });
+    const url = await start(daemonRoutes(daemon));
+
+    expect(await (await fetch(`${url}/healthz`)).json()).toEqual({ status: "ok" });
+
+    const started = await fetch(`${url}/sync`, { method: "POST" });
+    expect(started.status).toBe(202);
+    const conflict = await fetch(`${url}/sync`, { method: "POST" });
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toEqual({ started: false, error: "A sync is already running" });
+
+    finish();
+    await vi.waitFor(() => expect(daemon.status().state).toBe("idle"));
+    const status = await (await fetch(`${url}/status`)).json();
+    expect(status).toMatchObject({
+      state: "idle",
+      runs: 1,
+      lastRun: { trigger: "manual", result: { success: true, exitCode: 0 } },
+    });
+
+    await daemon.stop();
+    expect((await fetch(`${url}/healthz`)).status).toBe(503);
+    expect((await fetch(`${url}/sync`, { method: "POST" })).status).toBe(503);
+  });
+
+  it("should serve metrics in the Prometheus text format", async () => {
+    const metrics = createSyncMetrics();
+    metrics.retries.inc({ client: "maven" });
+    const url = await start(metricsRoutes(metrics.registry));
+
+    const response = await fetch(`${url}/metrics`);
+    expect(response.headers.get("content-type")).toBe("text/plain; version=0.0.4; charset=utf-8");
+    expect(await response.text()).toContain('docsie_connector_retries_total{client="maven"} 1');
+  });
+
+  it("should answer unknown paths with 404 and other methods with 405", async () => {
+    const url = await start({ "/thing": { GET: () => {} } });
+
+    expect((await fetch(`${url}/nope`)).status).toBe(404);
+    const response = await fetch(`${url}/thing`, { method: "DELETE" });
+    expect(response.status).toBe(405);
+    expect(response.headers.get("allow")).toBe("GET");
+  });
+
+  it("should answer handler errors with 500", async () => {
+    const url = await start({
+      "/fail": {
+        GET: async () => {
+          throw new Error("boom");
+        },
+      },
+    });
+
+    const response = await fetch(`${url}/fail`);
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Internal error" });
+  });
+});
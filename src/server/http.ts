@@ -0,0 +1,121 @@
+/**
+ * Daemon HTTP Endpoints
+ *
+ *   GET  /healthz  200 while serving, 503 once shutting down
+ *   GET  /status   Daemon state, next scheduled run and the last run's result
+ *   POST /sync     Start a sync now (202; 409 if one is already running)
+ *   GET  /metrics  Prometheus metrics (see utils/metrics.ts)
+ *   POST /webhooks/docsie  Docsie change events (see webhook.ts)
+ *
+ * Responses are JSON, except for /metrics.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import { PROMETHEUS_CONTENT_TYPE, type MetricsRegistry } from "../utils/metrics.js";
+import type { SyncDaemon } from "./daemon.js";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void | Promise<void>;
+
+/** Path → method → handler */
+export type Routes = Record<string, Partial<Record<string, Handler>>>;
+
+/**
+ * Routes of the daemon endpoints
+ */
+export function daemonRoutes(daemon: SyncDaemon): Routes {
+  return {
+    "/healthz": {
+      GET: (_req, res) => {
+        const stopping = daemon.status().state === "stopping";
+        sendJson(res, stopping ? 503 : 200, { status: stopping ? "stopping" : "ok" });
+      },
+    },
+    "/status": {
+      GET: (_req, res) => sendJson(res, 200, daemon.status()),
+    },
+    "/sync": {
+      POST: (_req, res) => {
+        if (daemon.trigger("manual")) {
+          sendJson(res, 202, { started: true });
+        } else if (daemon.status().state === "stopping") {
+          sendJson(res, 503, { started: false, error: "Shutting down" });
+        } else {
+          sendJson(res, 409, { started: false, error: "A sync is already running" });
+        }
+      },
+    },
+  };
+}
+
+/**
+ * Route exposing the metrics in the Prometheus text format
+ */
+export function metricsRoutes(registry: MetricsRegistry): Routes {
+  return {
+    "/metrics": {
+      GET: (_req, res) => {
+        res.writeHead(200, { "Content-Type": PROMETHEUS_CONTENT_TYPE });
+        res.end(registry.render());
+      },
+    },
+  };
+}
+
+/**
+ * HTTP server dispatching requests to routes (404/405 otherwise)
+ */
+export function createRouter(routes: Routes, logger: Logger = defaultLogger): Server {
+  return createServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    const methods = routes[path];
+    const handler = methods?.[req.method ?? "GET"];
+
+    logger.debug(`${req.method} ${path}`, { method: req.method, path });
+
+    if (!methods) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    if (!handler) {
+      res.setHeader("Allow", Object.keys(methods).join(", "));
+      sendJson(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    Promise.resolve(handler(req, res)).catch((error: unknown) => {
+      logger.error(`${req.method} ${path} failed`, { path, error });
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal error" });
+      }
+    });
+  });
+}
+
+/**
+ * Start listening; resolves once the port is bound
+ */
+export function listen(server: Server, port: number, host: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Stop accepting connections and wait for open requests to finish
+ */
+export function close(server: Server): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.close((error) => (error ? reject(error) : resolve()));
+    server.closeIdleConnections();
+  });
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,24 @@
+export { serve, stopOnSignals } from "./serve.js";
+export type { RunningServer } from "./serve.js";
+export { SyncDaemon } from "./daemon.js";
+export type {
+  DaemonRun,
+  DaemonStatus,
+  DaemonSync,
+  SyncDaemonOptions,
+  SyncTrigger,
+} from "./daemon.js";
+export { createRouter, daemonRoutes, metricsRoutes, listen, close, sendJson } from "./http.js";
+export type { Routes } from "./http.js";
+export {
+  ChangeDebouncer,
+  parseWebhookEvent,
+  signPayload,
+  verifySignature,
+  webhookRoutes,
+  SIGNATURE_HEADER,
+  WEBHOOK_PATH,
+} from "./webhook.js";
+export type { WebhookOptions } from "./webhook.js";
+export { parseSchedule, nextRunAt } from "./schedule.js";
+export type { Schedule } from "./schedule.js";
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { parseSchedule, nextRunAt } from "./schedule.js";
+import { ValidationError } from "../utils/errors.js";
+
+const at = (iso: string) => new Date(iso);
+
+describe("parseSchedule", () => {
+  it("should parse intervals", () => {
+    expect(parseSchedule("15m")).toEqual({ kind: "interval", source: "15m", intervalMs: 900_000 });
+    expect(parseSchedule(" 2h ")).toMatchObject({ intervalMs: 7_200_000 });
+    expect(parseSchedule("90s")).toMatchObject({ intervalMs: 90_000 });
+    expect(parseSchedule("1.5d")).toMatchObject({ intervalMs: 129_600_000 });
+  });
+
+  it("should reject intervals shorter than a second", () => {
+    expect(() => parseSchedule("500ms")).toThrow("interval must be at least 1s");
+  });
+
+  it("should parse cron expressions", () => {
+    const schedule = parseSchedule("*/15 9-17 * * 1-5");
+
+    expect(schedule.kind).toBe("cron");
+    if (schedule.kind === "cron") {
+      expect([...schedule.fields.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.fields.hours]).toHaveLength(9);
+      expect([...schedule.fields.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    }
+  });
+
+  it("should treat 7 as Sunday", () => {
+    const schedule = parseSchedule("0 0 * * 7");
+
+    expect(schedule.kind === "cron" && [...schedule.fields.daysOfWeek]).toEqual([0]);
+  });
+
+  it("should reject invalid schedules", () => {
+    for (const raw of ["", "often", "* * * *", "60 * * * *", "* * 0 * *", "5-1 * * * *", "*/0 * * * *"]) {
+      expect(() => parseSchedule(raw), raw).toThrow(ValidationError);
+    }
+  });
+});
+
+describe("nextRunAt", () => {
+  it("should add the interval", () => {
+    expect(nextRunAt(parseSchedule("15m"), at("2024-01-01T10:00:30Z"))).toEqual(
+      at("2024-01-01T10:15:30Z")
+    );
+  });
+
+  it("should find the next matching minute in UTC", () => {
+    const hourly = parseSchedule("0 * * * *");
+
+    expect(nextRunAt(hourly, at("2024-01-01T10:00:00Z"))).toEqual(at("2024-01-01T11:00:00Z"));
+    expect(nextRunAt(hourly, at("2024-01-01T10:59:59Z"))).toEqual(at("2024-01-01T11:00:00Z"));
+    expect(nextRunAt(parseSchedule("30 2 * * *"), at("2024-01-31T03:00:00Z"))).toEqual(
+      at("2024-02-01T02:30:00Z")
+    );
+  });
+
+  it("should skip to matching weekdays and months", () => {
+    // 2024-01-06 is a Saturday
+    expect(nextRunAt(parseSchedule("0 9 * * 1-5"), at("2024-01-06T12:00:00Z"))).toEqual(
+      at("2024-01-08T09:00:00Z")
+    );
+    expect(nextRunAt(parseSchedule("0 0 29 2 *"), at("2024-03-01T00:00:00Z"))).toEqual(
+      at("2028-02-29T00:00:00Z")
+    );
+  });
+
+  it("should run on either day field when both are restricted", () => {
+    // The 15th or any Monday: Monday 2024-01-08 comes first
+    expect(nextRunAt(parseSchedule("0 0 15 * 1"), at("2024-01-06T00:00:00Z"))).toEqual(
+      at("2024-01-08T00:00:00Z")
+    );
+  });
+
+  it("should throw for schedules that never run", () => {
+    expect(() => nextRunAt(parseSchedule("0 0 31 2 *"), at("2024-01-01T00:00:00Z"))).toThrow(
+      "never runs"
+    );
+  });
+});
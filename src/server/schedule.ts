@@ -0,0 +1,170 @@
+/**
+ * Sync Schedules
+ *
+ * When `serve` runs syncs: either a fixed interval ("15m", "1h", "90s") or a
+ * five-field cron expression ("0 * * * *"). Cron expressions are evaluated
+ * in UTC.
+ *
+ * Cron fields: minute (0-59), hour (0-23), day of month (1-31), month (1-12)
+ * and day of week (0-6, Sunday is 0 or 7). Each field is `*`, a value, a
+ * range `a-b`, a step `*\/n` or `a-b/n`, or a comma-separated list of these.
+ * As in cron, when both day fields are restricted a day matching either runs.
+ */
+
+import { ValidationError } from "../utils/errors.js";
+
+export type Schedule =
+  | { kind: "interval"; source: string; intervalMs: number }
+  | { kind: "cron"; source: string; fields: CronFields };
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month / day-of-week fields are restricted */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const INTERVAL_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/** Cron field bounds, in field order */
+const CRON_RANGES: Array<[min: number, max: number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+/** Give up searching for a cron match after this many years (e.g. "0 0 31 2 *") */
+const MAX_CRON_SEARCH_YEARS = 5;
+
+/**
+ * Parse an interval ("30s", "15m", "2h", "1d") or a cron expression
+ *
+ * @throws ValidationError if the schedule is neither
+ */
+export function parseSchedule(raw: string): Schedule {
+  const source = raw.trim();
+  const interval = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/i.exec(source);
+  if (interval) {
+    const intervalMs = Number(interval[1]) * INTERVAL_UNITS[interval[2].toLowerCase()];
+    if (intervalMs < 1000) {
+      throw new ValidationError(`Invalid schedule "${source}": interval must be at least 1s`);
+    }
+    return { kind: "interval", source, intervalMs };
+  }
+
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new ValidationError(
+      `Invalid schedule "${source}" (expected an interval like 15m or a cron expression like "0 * * * *")`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseCronField(part, CRON_RANGES[index], source)
+  );
+  // Sunday may be written as 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    kind: "cron",
+    source,
+    fields: {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      anyDayOfMonth: parts[2] === "*",
+      anyDayOfWeek: parts[4] === "*",
+    },
+  };
+}
+
+/**
+ * Next time a schedule runs after the given time
+ *
+ * Intervals run `intervalMs` after `after`; cron schedules at the next
+ * matching minute.
+ */
+export function nextRunAt(schedule: Schedule, after: Date): Date {
+  if (schedule.kind === "interval") {
+    return new Date(after.getTime() + schedule.intervalMs);
+  }
+
+  const { fields } = schedule;
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_CRON_SEARCH_YEARS * 366 * INTERVAL_UNITS.d;
+
+  // Advance by the largest unit that does not match
+  while (next.getTime() <= limit) {
+    if (!fields.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+    } else if (!matchesDay(fields, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+    } else if (!fields.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+    } else if (!fields.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+    } else {
+      return next;
+    }
+  }
+
+  throw new ValidationError(`Schedule "${schedule.source}" never runs`);
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const dayOfMonth = fields.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = fields.daysOfWeek.has(date.getUTCDay());
+
+  if (fields.anyDayOfMonth || fields.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+function parseCronField(field: string, [min, max]: [number, number], source: string): Set<number> {
+  const values = new Set<number>();
+  const invalid = () =>
+    new ValidationError(`Invalid schedule "${source}": bad cron field "${field}"`);
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw invalid();
+    }
+
+    const [, range, start, end, step] = match;
+    const from = range === "*" ? min : Number(start);
+    // A step on a single value runs from it to the end of the range (e.g. 5/15)
+    const to = range === "*" || (step && end === undefined) ? max : Number(end ?? start);
+    const increment = step ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw invalid();
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
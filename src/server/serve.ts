@@ -0,0 +1,110 @@
+/**
+ * `serve` Command
+ *
+ * Runs the sync daemon with its HTTP endpoints until SIGTERM or SIGINT.
+ * Shutdown stops the schedule, interrupts a running sync after its current
+ * upload chunk (its checkpoint is kept, and daemon syncs resume from it),
+ * then closes the HTTP server. Pressing Ctrl+C (SIGINT) again exits
+ * immediately.
+ *
+ * With a webhook secret configured, Docsie webhooks trigger targeted syncs
+ * of the changed articles (see webhook.ts).
+ */
+
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import type { SyncMetrics } from "../utils/metrics.js";
+import type { ServeConfig } from "../cli/env.js";
+import { SyncDaemon, type DaemonSync } from "./daemon.js";
+import { close, createRouter, daemonRoutes, listen, metricsRoutes } from "./http.js";
+import { parseSchedule } from "./schedule.js";
+import { ChangeDebouncer, WEBHOOK_PATH, webhookRoutes } from "./webhook.js";
+
+export interface RunningServer {
+  daemon: SyncDaemon;
+  server: Server;
+  /** Bound port (differs from the configured one when that is 0) */
+  port: number;
+  /** Stop the daemon, waiting for a running sync, then close the server */
+  stop(): Promise<void>;
+}
+
+/**
+ * Start the daemon and its HTTP server (with /metrics when given metrics, and
+ * the webhook endpoint when a webhook secret is configured)
+ *
+ * @throws ValidationError if the schedule is invalid
+ */
+export async function serve(
+  run: DaemonSync,
+  config: ServeConfig,
+  logger: Logger = defaultLogger,
+  metrics?: SyncMetrics
+): Promise<RunningServer> {
+  const schedule = config.schedule ? parseSchedule(config.schedule) : undefined;
+  const daemon = new SyncDaemon(run, { schedule, logger });
+  const debouncer = config.webhookSecret
+    ? new ChangeDebouncer((changes) => daemon.syncArticles(changes), config.webhookDebounceMs)
+    : undefined;
+  const server = createRouter(
+    {
+      ...daemonRoutes(daemon),
+      ...(metrics && metricsRoutes(metrics.registry)),
+      ...(debouncer && webhookRoutes({ secret: config.webhookSecret!, debouncer, logger })),
+    },
+    logger
+  );
+
+  await listen(server, config.port, config.host);
+  const { port } = server.address() as AddressInfo;
+  logger.info(`Listening on http://${config.host}:${port}`, { host: config.host, port });
+  if (debouncer) {
+    logger.info(`Receiving Docsie webhooks on ${WEBHOOK_PATH}`);
+  } else {
+    logger.debug("Docsie webhooks disabled (no WEBHOOK_SECRET set)");
+  }
+
+  daemon.start();
+
+  return {
+    daemon,
+    server,
+    port,
+    stop: async () => {
+      debouncer?.stop();
+      await daemon.stop();
+      await close(server);
+    },
+  };
+}
+
+/**
+ * Resolve once the server was stopped on SIGTERM or SIGINT
+ */
+export function stopOnSignals(running: RunningServer, logger: Logger = defaultLogger): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let stopping = false;
+
+    const onSignal = (signal: NodeJS.Signals) => {
+      // Process managers may deliver SIGTERM more than once; only Ctrl+C forces exit
+      if (stopping) {
+        if (signal === "SIGINT") {
+          logger.warn("Received SIGINT again, exiting immediately");
+          process.exit(1);
+        }
+        return;
+      }
+      stopping = true;
+      logger.info(`Received ${signal}, shutting down`, { signal });
+      running.stop().then(() => {
+        process.off("SIGTERM", onSignal);
+        process.off("SIGINT", onSignal);
+        resolve();
+      }, reject);
+    };
+
+    process.on("SIGTERM", onSignal);
+    process.on("SIGINT", onSignal);
+  });
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import {
+  ChangeDebouncer,
+  parseWebhookEvent,
+  signPayload,
+  verifySignature,
+  webhookRoutes,
+} from "./webhook.js";
+import { close, createRouter, listen } from "./http.js";
+import { createLogger } from "../utils/logger.js";
+
+const logger = createLogger({ level: "silent" });
+const secret = "s3cret";
+
+describe("verifySignature", () => {
+  const body = Buffer.from('{"event":"article.updated"}');
+
+  it("should accept the HMAC of the body, with or without the sha256= prefix", () => {
+    const signature = signPayload(body, secret);
+    expect(verifySignature(body, signature, secret)).toBe(true);
+    expect(verifySignature(body, `sha256=${signature}`, secret)).toBe(true);
+  });
+
+  it("should reject missing, malformed and mismatching signatures", () => {
+    expect(verifySignature(body, undefined, secret)).toBe(false);
+    expect(verifySignature(body, "not-hex", secret)).toBe(false);
+    expect(verifySignature(body, signPayload(body, "other"), secret)).toBe(false);
+    expect(verifySignature(Buffer.from("{}"), signPayload(body, secret), secret)).toBe(false);
+  });
+});
+
+describe("parseWebhookEvent", () => {
+  const parse = (payload: unknown) => parseWebhookEvent(Buffer.from(JSON.stringify(payload)));
+
+  it("should read article changes", () => {
+    expect(parse({ event: "article.updated", article: { id: "art_1" } })).toEqual({
+      articleId: "art_1",
+      deleted: false,
+    });
+    expect(parse({ event: "article.published", article_id: "art_2" })).toEqual({
+      articleId: "art_2",
+      deleted: false,
+    });
+    expect(parse({ event: "article.deleted", article: { id: "art_3" } })).toEqual({
+      articleId: "art_3",
+      deleted: true,
+    });
+  });
+
+  it("should ignore other events", () => {
+    expect(parse({ event: "book.updated", book: { id: "boo_1" } })).toBeUndefined();
+    expect(parse({})).toBeUndefined();
+  });
+
+  it("should reject invalid payloads", () => {
+    expect(() => parseWebhookEvent(Buffer.from("{"))).toThrow("Webhook payload is not valid JSON");
+    expect(() => parse({ event: "article.updated", article: {} })).toThrow(
+      "Webhook event article.updated has no article ID"
+    );
+    expect(() => parse({ event: "article.updated", article: { id: "../books/boo_1" } })).toThrow(
+      "Webhook event article.updated has an invalid article ID"
+    );
+  });
+});
+
+describe("ChangeDebouncer", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should flush once no change came in for the delay", async () => {
+    vi.useFakeTimers();
+    const flush = vi.fn();
+    const debouncer = new ChangeDebouncer(flush, 1000);
+
+    debouncer.add({ articleId: "art_1", deleted: false });
+    await vi.advanceTimersByTimeAsync(800);
+    debouncer.add({ articleId: "art_2", deleted: false });
+    debouncer.add({ articleId: "art_1", deleted: true });
+    await vi.advanceTimersByTimeAsync(800);
+    expect(flush).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(flush).toHaveBeenCalledWith([
+      { articleId: "art_1", deleted: true },
+      { articleId: "art_2", deleted: false },
+    ]);
+  });
+
+  it("should not hold changes back for more than a minute", async () => {
+    vi.useFakeTimers();
+    const flush = vi.fn();
+    const debouncer = new ChangeDebouncer(flush, 5000);
+
+    for (let i = 0; i < 20; i++) {
+      debouncer.add({ articleId: "art_1", deleted: false });
+      await vi.advanceTimersByTimeAsync(4000);
+    }
+
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(flush.mock.calls[0][0]).toEqual([{ articleId: "art_1", deleted: false }]);
+  });
+
+  it("should drop pending changes when stopped", async () => {
+    vi.useFakeTimers();
+    const flush = vi.fn();
+    const debouncer = new ChangeDebouncer(flush, 1000);
+
+    debouncer.add({ articleId: "art_1", deleted: false });
+    debouncer.stop();
+    debouncer.add({ articleId: "art_2", deleted: false });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(flush).not.toHaveBeenCalled();
+  });
+});
+
+describe("webhook endpoint", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server?.listening) {
+      await close(server);
+    }
+  });
+
+  async function start(debouncer: ChangeDebouncer): Promise<string> {
+    server = createRouter(webhookRoutes({ secret, debouncer, logger }), logger);
+    await listen(server, 0, "127.0.0.1");
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/docsie`;
+  }
+
+  const post = (url: string, body: string, signature = signPayload(body, secret)) =>
+    fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Docsie-Signature": signature },
+      body,
+    });
+
+  it("should queue article changes from signed requests", async () => {
+    const debouncer = { add: vi.fn() };
+    const url = await start(debouncer as any);
+
+    const response = await post(url, '{"event":"article.updated","article":{"id":"art_1"}}');
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ accepted: true, articleId: "art_1" });
+    expect(debouncer.add).toHaveBeenCalledWith({ articleId: "art_1", deleted: false });
+  });
+
+  it("should reject unsigned requests and invalid payloads", async () => {
+    const debouncer = { add: vi.fn() };
+    const url = await start(debouncer as any);
+
+    const body = '{"event":"article.deleted","article":{"id":"art_1"}}';
+    expect((await post(url, body, "sha256=00")).status).toBe(401);
+    expect((await post(url, '{"event":"article.deleted"}')).status).toBe(400);
+    expect((await post(url, "x".repeat(2 * 1024 * 1024))).status).toBe(413);
+    expect(debouncer.add).not.toHaveBeenCalled();
+  });
+
+  it("should acknowledge and ignore other events", async () => {
+    const debouncer = { add: vi.fn() };
+    const url = await start(debouncer as any);
+
+    const response = await post(url, '{"event":"book.updated","book":{"id":"boo_1"}}');
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ accepted: false, reason: "Event ignored" });
+    expect(debouncer.add).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Docsie Webhooks
+ *
+ *   POST /webhooks/docsie  Queue a targeted sync of the changed article (202)
+ *
+ * Requests must be signed with the shared webhook secret: the
+ * X-Docsie-Signature header carries the hex HMAC-SHA256 of the raw body,
+ * optionally prefixed with "sha256=". Payloads look like
+ *
+ *   {"event": "article.updated", "article": {"id": "art_..."}}
+ *
+ * with the event article.published, article.updated or article.deleted
+ * (`article_id` is accepted instead of `article.id`). Other events are
+ * acknowledged and ignored.
+ *
+ * Bursts of edits are debounced: changes are collected until no event came in
+ * for the debounce delay (or a minute after the first one at most), then
+ * synced together.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import { ValidationError } from "../utils/errors.js";
+import type { ArticleChange } from "../sync/sync.js";
+import { sendJson, type Routes } from "./http.js";
+
+export const WEBHOOK_PATH = "/webhooks/docsie";
+export const SIGNATURE_HEADER = "x-docsie-signature";
+
+/** Events that change an article, and whether they delete it */
+const ARTICLE_EVENTS: Record<string, boolean> = {
+  "article.published": false,
+  "article.updated": false,
+  "article.deleted": true,
+};
+
+/** Docsie IDs are letters, digits, underscores and hyphens (e.g. art_abc123) */
+const ARTICLE_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+/** Longest a change waits while events keep coming in */
+const MAX_DEBOUNCE_WAIT_MS = 60_000;
+
+/**
+ * Hex HMAC-SHA256 signature of a payload
+ */
+export function signPayload(body: Buffer | string, secret: string): string {
+  return createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/**
+ * Whether a signature header matches the payload (compared in constant time)
+ */
+export function verifySignature(
+  body: Buffer,
+  signature: string | undefined,
+  secret: string
+): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(body, secret), "hex");
+  const actual = Buffer.from(signature.trim().replace(/^sha256=/i, ""), "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * The article change a webhook payload reports (undefined for other events)
+ *
+ * @throws ValidationError if the payload is not JSON or lacks a valid article ID
+ */
+export function parseWebhookEvent(body: Buffer): ArticleChange | undefined {
+  let payload: { event?: unknown; article?: { id?: unknown }; article_id?: unknown };
+  try {
+    payload = JSON.parse(body.toString("utf8"));
+  } catch {
+    throw new ValidationError("Webhook payload is not valid JSON");
+  }
+
+  const event = typeof payload?.event === "string" ? payload.event : undefined;
+  if (!event || !(event in ARTICLE_EVENTS)) {
+    return undefined;
+  }
+
+  const articleId = payload.article?.id ?? payload.article_id;
+  if (typeof articleId !== "string" || !articleId) {
+    throw new ValidationError(`Webhook event ${event} has no article ID`);
+  }
+  if (!ARTICLE_ID_PATTERN.test(articleId)) {
+    throw new ValidationError(`Webhook event ${event} has an invalid article ID`);
+  }
+  return { articleId, deleted: ARTICLE_EVENTS[event] };
+}
+
+/**
+ * Collects article changes and hands them over once events stop coming in
+ */
+export class ChangeDebouncer {
+  private readonly flush: (changes: ArticleChange[]) => void;
+  private readonly delayMs: number;
+  private readonly maxWaitMs: number;
+  private readonly pending = new Map<string, ArticleChange>();
+  private timer?: NodeJS.Timeout;
+  private firstChangeAt = 0;
+  private stopped = false;
+
+  constructor(flush: (changes: ArticleChange[]) => void, delayMs: number) {
+    this.flush = flush;
+    this.delayMs = delayMs;
+    this.maxWaitMs = Math.max(MAX_DEBOUNCE_WAIT_MS, delayMs);
+  }
+
+  /**
+   * Add a change; a later change of the same article replaces it
+   */
+  add(change: ArticleChange): void {
+    if (this.stopped) {
+      return;
+    }
+    if (this.pending.size === 0) {
+      this.firstChangeAt = Date.now();
+    }
+    this.pending.set(change.articleId, change);
+
+    clearTimeout(this.timer);
+    const waited = Date.now() - this.firstChangeAt;
+    const delay = Math.min(this.delayMs, this.maxWaitMs - waited);
+    this.timer = setTimeout(() => this.flushPending(), delay);
+  }
+
+  /**
+   * Drop pending changes and ignore further ones
+   */
+  stop(): void {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.pending.clear();
+  }
+
+  private flushPending(): void {
+    const changes = [...this.pending.values()];
+    this.pending.clear();
+    if (changes.length > 0) {
+      this.flush(changes);
+    }
+  }
+}
+
+export interface WebhookOptions {
+  /** Shared secret the payload signatures are checked with */
+  secret: string;
+  debouncer: ChangeDebouncer;
+  logger?: Logger;
+}
+
+/**
+ * Route receiving Docsie webhooks
+ */
+export function webhookRoutes(options: WebhookOptions): Routes {
+  const logger = options.logger ?? defaultLogger;
+
+  return {
+    [WEBHOOK_PATH]: {
+      POST: async (req, res) => {
+        const body = await readBody(req);
+        if (!body) {
+          sendJson(res, 413, { error: "Payload too large" });
+          return;
+        }
+
+        const header = req.headers[SIGNATURE_HEADER];
+        const signature = Array.isArray(header) ? header[0] : header;
+        if (!verifySignature(body, signature, options.secret)) {
+          logger.warn("Rejected webhook with a missing or invalid signature");
+          sendJson(res, 401, { error: "Invalid signature" });
+          return;
+        }
+
+        let change: ArticleChange | undefined;
+        try {
+          change = parseWebhookEvent(body);
+        } catch (error) {
+          sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) });
+          return;
+        }
+
+        if (!change) {
+          sendJson(res, 202, { accepted: false, reason: "Event ignored" });
+          return;
+        }
+
+        const what = change.deleted ? "deleted" : "changed";
+        logger.info(`Webhook: article ${change.articleId} ${what}`, {
+          articleId: change.articleId,
+          deleted: change.deleted,
+        });
+        options.debouncer.add(change);
+        sendJson(res, 202, { accepted: true, articleId: change.articleId });
+      },
+    },
+  };
+}
+
+/**
+ * Read a request body (undefined if it exceeds MAX_BODY_BYTES; the rest is
+ * still read so the response can be sent)
+ */
+async function readBody(req: IncomingMessage): Promise<Buffer | undefined> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  return size <= MAX_BODY_BYTES ? Buffer.concat(chunks) : undefined;
+}
@@ -1,5 +1,39 @@
 export { DocsieSync } from "./sync.js";
-export type { SyncConfig, SyncResult } from "./sync.js";
+export type {
+  SyncConfig,
+  SyncResult,
+  SyncAction,
+  SyncPlanEntry,
+  DocsieSyncOptions,
+  ArticleChange,
+} from "./sync.js";
+
+export {
+  fetchScopedArticles,
+  resolveBooks,
+  filterWorkspaces,
+  matchesFilter,
+  matchesTags,
+  matchesLanguage,
+} from "./scope.js";
+export type { SyncScope, FetchOptions } from "./scope.js";
+
+export { languageTargets, languageStateFile } from "./languages.js";
+export type { LanguageOptions, LanguageTarget } from "./languages.js";
+
+export {
+  fetchBookVersions,
+  selectVersions,
+  syncsMultipleVersions,
+  DEFAULT_VERSION_OPTIONS,
+} from "./versions.js";
+export type { VersionOptions, VersionPolicy } from "./versions.js";
+
+export { articleKey, VERSION_SEPARATOR, LANGUAGE_SEPARATOR } from "./keys.js";
+export type { ArticleKeyOptions } from "./keys.js";
+
+export { SyncStateStore, hashContent, referenceIdsOf, suffixFile } from "./state.js";
+export type { SyncStateEntry } from "./state.js";
 
 export {
   validateDocsieConnection,
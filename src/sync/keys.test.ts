@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { articleKey } from "./keys.js";
+import type { DocsieArticle } from "../docsie/types.js";
+
+const relation = (value: unknown) => ({ count: 1, has_more: false, url: "", results: [value] });
+
+const article = (
+  version?: Record<string, unknown> | string,
+  language?: Record<string, unknown> | string
+): DocsieArticle =>
+  ({
+    id: "art_1",
+    name: "Article",
+    ...(version && { version: relation(version) }),
+    ...(language && { language: relation(language) }),
+  }) as any;
+
+const v2 = { id: "ver_2", name: "Version 2", number: "2.0" };
+const fr = { id: "lan_fr", abbreviation: "fr", primary: false };
+const en = { id: "lan_en", abbreviation: "en", primary: true };
+
+describe("articleKey", () => {
+  it("should be the article ID by default", () => {
+    expect(articleKey(article(v2, fr))).toBe("art_1");
+  });
+
+  it("should add the version number when several versions are synced", () => {
+    expect(articleKey(article(v2), { versions: true })).toBe("art_1~2.0");
+    expect(articleKey(article({ id: "ver_x", name: "Next Release" }), { versions: true })).toBe(
+      "art_1~Next-Release"
+    );
+  });
+
+  it("should add the code of non-primary languages", () => {
+    expect(articleKey(article(undefined, fr), { languages: true })).toBe("art_1@fr");
+    expect(articleKey(article(undefined, en), { languages: true })).toBe("art_1");
+  });
+
+  it("should combine version and language", () => {
+    expect(articleKey(article(v2, fr), { versions: true, languages: true })).toBe(
+      "art_1~2.0@fr"
+    );
+  });
+
+  it("should ignore relations that were not expanded", () => {
+    expect(articleKey(article("ver_2", "lan_fr"), { versions: true, languages: true })).toBe(
+      "art_1"
+    );
+  });
+});
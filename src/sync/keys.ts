@@ -0,0 +1,46 @@
+/**
+ * Article Keys
+ *
+ * The base reference ID (and sync state key) of an article's documents.
+ * Versions and translations of an article can share its ID, so when several
+ * are synced the key carries them:
+ *   <articleId>[~<version>][@<language>]
+ * The version is only added when several versions are synced, and the
+ * language only for non-primary languages in multi-language mode.
+ */
+
+import type { DocsieArticle, DocsieLanguage, DocsieVersion } from "../docsie/types.js";
+
+export const VERSION_SEPARATOR = "~";
+export const LANGUAGE_SEPARATOR = "@";
+
+export interface ArticleKeyOptions {
+  /** Add the version (several versions are synced) */
+  versions?: boolean;
+  /** Add the language code of non-primary languages */
+  languages?: boolean;
+}
+
+/**
+ * Base reference ID of an article
+ */
+export function articleKey(article: DocsieArticle, options: ArticleKeyOptions = {}): string {
+  let key = article.id;
+
+  const version = expanded<DocsieVersion>(article.version?.results?.[0]);
+  if (options.versions && version) {
+    const label = version.number || version.name || version.id;
+    key += `${VERSION_SEPARATOR}${label.trim().replace(/\s+/g, "-")}`;
+  }
+
+  const language = expanded<DocsieLanguage>(article.language?.results?.[0]);
+  if (options.languages && language && !language.primary) {
+    key += `${LANGUAGE_SEPARATOR}${language.abbreviation || language.id}`;
+  }
+
+  return key;
+}
+
+function expanded<T>(value: T | string | undefined): T | undefined {
+  return value !== undefined && typeof value !== "string" ? value : undefined;
+}
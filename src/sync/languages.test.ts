@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { languageStateFile, languageTargets } from "./languages.js";
+
+describe("languageTargets", () => {
+  const options = { enabled: true, knowledgeBases: { fr: "kb-fr", de: "kb-de" } };
+
+  it("should return a single target without mappings", () => {
+    expect(
+      languageTargets({ enabled: true, knowledgeBases: {} }, {}, "kb", "state.json")
+    ).toEqual([{ knowledgeBaseId: "kb", stateFile: "state.json", scope: {} }]);
+  });
+
+  it("should ignore mappings outside multi-language mode", () => {
+    expect(
+      languageTargets({ ...options, enabled: false }, {}, "kb", "state.json")
+    ).toHaveLength(1);
+  });
+
+  it("should route mapped languages to their own knowledge base and state file", () => {
+    const targets = languageTargets(options, { bookIds: ["boo_1"] }, "kb", "state.json");
+
+    expect(targets).toEqual([
+      {
+        knowledgeBaseId: "kb",
+        stateFile: "state.json",
+        scope: { bookIds: ["boo_1"], excludeLanguages: ["fr", "de"] },
+      },
+      {
+        knowledgeBaseId: "kb-fr",
+        stateFile: "state.fr.json",
+        scope: { bookIds: ["boo_1"], languages: ["fr"] },
+        language: "fr",
+      },
+      {
+        knowledgeBaseId: "kb-de",
+        stateFile: "state.de.json",
+        scope: { bookIds: ["boo_1"], languages: ["de"] },
+        language: "de",
+      },
+    ]);
+  });
+
+  it("should honor language filters", () => {
+    const targets = languageTargets(
+      options,
+      { languages: ["fr"], excludeLanguages: ["de"] },
+      "kb",
+      "state.json"
+    );
+
+    expect(targets.map((t) => t.knowledgeBaseId)).toEqual(["kb-fr"]);
+  });
+});
+
+describe("languageStateFile", () => {
+  it("should insert the language code before the extension", () => {
+    expect(languageStateFile(".docsie-sync-state.json", "fr")).toBe(
+      ".docsie-sync-state.fr.json"
+    );
+    expect(languageStateFile("data/state", "fr")).toBe("data/state.fr");
+  });
+});
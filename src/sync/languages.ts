@@ -0,0 +1,88 @@
+/**
+ * Multi-language Sync
+ *
+ * In multi-language mode each translation is synced as its own document
+ * (keyed `<articleId>@<code>` for non-primary languages, see keys.ts).
+ * Languages can also be routed to dedicated Maven knowledge bases; every
+ * knowledge base is synced as a separate target with its own sync state file.
+ */
+
+import { matchesFilter, type SyncScope } from "./scope.js";
+import { suffixFile } from "./state.js";
+
+export interface LanguageOptions {
+  /** Fetch and sync every active language of each book separately */
+  enabled: boolean;
+  /** Language code → Maven knowledge base ID; other languages share the default KB */
+  knowledgeBases: Record<string, string>;
+}
+
+/** One knowledge base to sync, with the languages routed to it */
+export interface LanguageTarget {
+  knowledgeBaseId: string;
+  stateFile: string;
+  scope: SyncScope;
+  /** Language code of a dedicated knowledge base (undefined for the default KB) */
+  language?: string;
+}
+
+/**
+ * Split a sync into one target per knowledge base
+ *
+ * Languages mapped to their own knowledge base are synced into it and
+ * excluded from the default knowledge base. Without multi-language mode or
+ * mappings there is a single target.
+ */
+export function languageTargets(
+  options: LanguageOptions,
+  scope: SyncScope,
+  knowledgeBaseId: string,
+  stateFile: string
+): LanguageTarget[] {
+  const mapped = options.enabled
+    ? Object.entries(options.knowledgeBases).filter(([code]) =>
+        matchesFilter(code, scope.languages, scope.excludeLanguages)
+      )
+    : [];
+
+  if (mapped.length === 0) {
+    return [{ knowledgeBaseId, stateFile, scope }];
+  }
+
+  const mappedCodes = mapped.map(([code]) => code);
+  const targets: LanguageTarget[] = [];
+
+  // With an include list, the default KB only gets the unmapped languages in it
+  const included = scope.languages ?? [];
+  const remaining = included.filter((code) => !mappedCodes.includes(code));
+  if (included.length === 0 || remaining.length > 0) {
+    targets.push({
+      knowledgeBaseId,
+      stateFile,
+      scope: {
+        ...scope,
+        ...(remaining.length > 0 && { languages: remaining }),
+        excludeLanguages: [...(scope.excludeLanguages ?? []), ...mappedCodes],
+      },
+    });
+  }
+
+  for (const [code, languageKnowledgeBaseId] of mapped) {
+    targets.push({
+      knowledgeBaseId: languageKnowledgeBaseId,
+      stateFile: languageStateFile(stateFile, code),
+      scope: { ...scope, languages: [code] },
+      language: code,
+    });
+  }
+
+  return targets;
+}
+
+/**
+ * State file of a language's dedicated knowledge base
+ * (".docsie-sync-state.json" → ".docsie-sync-state.fr.json")
+ */
+export function languageStateFile(stateFile: string, code: string): string {
+  return suffixFile(stateFile, code);
+}
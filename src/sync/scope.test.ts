@@ -0,0 +1,269 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  fetchScopedArticles,
+  filterWorkspaces,
+  matchesFilter,
+  matchesLanguage,
+  matchesTags,
+  resolveBooks,
+} from "./scope.js";
+import type { DocsieArticle } from "../docsie/types.js";
+
+const mockGetDocumentation = vi.fn();
+const mockGetBooks = vi.fn();
+const mockGetArticles = vi.fn();
+const mockGetLanguages = vi.fn();
+const mockGetVersions = vi.fn();
+const mockDocsieClient = {
+  getDocumentation: mockGetDocumentation,
+  getBooks: mockGetBooks,
+  getArticles: mockGetArticles,
+  getLanguages: mockGetLanguages,
+  getVersions: mockGetVersions,
+};
+
+const workspaces = [
+  { id: "ws_public", name: "Public" },
+  { id: "ws_internal", name: "Internal" },
+] as any[];
+
+const article = (id: string, tags: string[] = []): DocsieArticle =>
+  ({ id, name: id, tags, doc: { blocks: [] } }) as any;
+
+describe("matchesFilter", () => {
+  it("should match everything when no lists are given", () => {
+    expect(matchesFilter("a")).toBe(true);
+    expect(matchesFilter("a", [], [])).toBe(true);
+  });
+
+  it("should require membership in a non-empty include list", () => {
+    expect(matchesFilter("a", ["a", "b"])).toBe(true);
+    expect(matchesFilter("c", ["a", "b"])).toBe(false);
+  });
+
+  it("should let exclude win over include", () => {
+    expect(matchesFilter("a", ["a"], ["a"])).toBe(false);
+  });
+});
+
+describe("matchesTags", () => {
+  it("should require at least one included tag", () => {
+    expect(matchesTags(article("a", ["public"]), { tags: ["public"] })).toBe(true);
+    expect(matchesTags(article("a", ["other"]), { tags: ["public"] })).toBe(false);
+    expect(matchesTags(article("a"), { tags: ["public"] })).toBe(false);
+  });
+
+  it("should reject articles carrying an excluded tag", () => {
+    expect(
+      matchesTags(article("a", ["public", "internal"]), { excludeTags: ["internal"] })
+    ).toBe(false);
+    expect(matchesTags(article("a", ["public"]), { excludeTags: ["internal"] })).toBe(
+      true
+    );
+  });
+});
+
+describe("matchesLanguage", () => {
+  const inLanguage = (abbreviation?: string): DocsieArticle =>
+    ({
+      ...article("art_1"),
+      ...(abbreviation && {
+        language: { count: 1, has_more: false, url: "", results: [{ id: "lan", abbreviation }] },
+      }),
+    }) as any;
+
+  it("should match by language code", () => {
+    expect(matchesLanguage(inLanguage("fr"), { languages: ["fr"] })).toBe(true);
+    expect(matchesLanguage(inLanguage("en"), { languages: ["fr"] })).toBe(false);
+    expect(matchesLanguage(inLanguage("fr"), { excludeLanguages: ["fr"] })).toBe(false);
+  });
+
+  it("should only let articles without a language through exclude lists", () => {
+    expect(matchesLanguage(inLanguage(), {})).toBe(true);
+    expect(matchesLanguage(inLanguage(), { excludeLanguages: ["fr"] })).toBe(true);
+    expect(matchesLanguage(inLanguage(), { languages: ["fr"] })).toBe(false);
+  });
+});
+
+describe("filterWorkspaces", () => {
+  it("should apply workspace include and exclude lists", () => {
+    expect(filterWorkspaces(workspaces, {})).toHaveLength(2);
+    expect(
+      filterWorkspaces(workspaces, { workspaceIds: ["ws_public"] }).map((w) => w.id)
+    ).toEqual(["ws_public"]);
+    expect(
+      filterWorkspaces(workspaces, { excludeWorkspaceIds: ["ws_public"] }).map((w) => w.id)
+    ).toEqual(["ws_internal"]);
+  });
+});
+
+describe("resolveBooks", () => {
+  beforeEach(() => {
+    mockGetDocumentation.mockReset();
+    mockGetBooks.mockReset();
+    mockGetArticles.mockReset();
+  });
+
+  it("should return undefined without hierarchy filters", async () => {
+    const books = await resolveBooks(mockDocsieClient as any, { tags: ["x"] }, workspaces);
+
+    expect(books).toBeUndefined();
+    expect(mockGetBooks).not.toHaveBeenCalled();
+  });
+
+  it("should resolve books through workspace documentation", async () => {
+    mockGetDocumentation.mockImplementation(async (wsId: string) =>
+      wsId === "ws_public" ? [{ id: "doc_guides" }, { id: "doc_api" }] : [{ id: "doc_secret" }]
+    );
+    mockGetBooks.mockImplementation(async (_deleted: boolean, docId: string) => [
+      { id: `boo_${docId}` },
+    ]);
+
+    const books = await resolveBooks(
+      mockDocsieClient as any,
+      { workspaceIds: ["ws_public"], excludeDocumentationIds: ["doc_api"] },
+      workspaces
+    );
+
+    expect(mockGetDocumentation).toHaveBeenCalledTimes(1);
+    expect(mockGetDocumentation).toHaveBeenCalledWith("ws_public");
+    expect(mockGetBooks).toHaveBeenCalledWith(false, "doc_guides");
+    expect(books?.map((b) => b.id)).toEqual(["boo_doc_guides"]);
+  });
+
+  it("should list all documentation when only documentation filters are set", async () => {
+    mockGetDocumentation.mockResolvedValue([{ id: "doc_guides" }, { id: "doc_api" }]);
+    mockGetBooks.mockResolvedValue([{ id: "boo_1" }]);
+
+    const books = await resolveBooks(
+      mockDocsieClient as any,
+      { documentationIds: ["doc_guides"] },
+      workspaces
+    );
+
+    expect(mockGetDocumentation).toHaveBeenCalledWith();
+    expect(mockGetBooks).toHaveBeenCalledTimes(1);
+    expect(books?.map((b) => b.id)).toEqual(["boo_1"]);
+  });
+
+  it("should filter all books when only book filters are set", async () => {
+    mockGetBooks.mockResolvedValue([{ id: "boo_1" }, { id: "boo_2" }, { id: "boo_3" }]);
+
+    const books = await resolveBooks(
+      mockDocsieClient as any,
+      { bookIds: ["boo_1", "boo_2"], excludeBookIds: ["boo_2"] },
+      workspaces
+    );
+
+    expect(mockGetDocumentation).not.toHaveBeenCalled();
+    expect(books?.map((b) => b.id)).toEqual(["boo_1"]);
+  });
+});
+
+describe("fetchScopedArticles", () => {
+  beforeEach(() => {
+    mockGetDocumentation.mockReset();
+    mockGetBooks.mockReset();
+    mockGetArticles.mockReset();
+    mockGetLanguages.mockReset();
+    mockGetVersions.mockReset();
+    mockGetBooks.mockResolvedValue([{ id: "boo_1" }]);
+    mockGetVersions.mockResolvedValue([]);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should fetch the articles of every book without hierarchy filters", async () => {
+    mockGetArticles.mockResolvedValue([article("art_1"), article("art_2")]);
+
+    const articles = await fetchScopedArticles(mockDocsieClient as any, {}, workspaces);
+
+    expect(articles).toHaveLength(2);
+    expect(mockGetBooks).toHaveBeenCalledWith();
+    expect(mockGetArticles).toHaveBeenCalledWith("boo_1", {});
+  });
+
+  it("should fetch articles of the primary version only by default", async () => {
+    mockGetVersions.mockResolvedValue([
+      { id: "ver_1", number: "1.0", active: true, primary: false, deleted: false },
+      { id: "ver_2", number: "2.0", active: true, primary: true, deleted: false },
+    ]);
+    mockGetArticles.mockResolvedValue([article("art_1")]);
+
+    const articles = await fetchScopedArticles(mockDocsieClient as any, {}, workspaces);
+
+    expect(mockGetVersions).toHaveBeenCalledWith("boo_1", true);
+    expect(mockGetArticles).toHaveBeenCalledTimes(1);
+    expect(mockGetArticles).toHaveBeenCalledWith("boo_1", { versionId: "ver_2" });
+    expect((articles[0].version?.results[0] as any).number).toBe("2.0");
+  });
+
+  it("should fetch every active version with the active policy", async () => {
+    mockGetVersions.mockResolvedValue([
+      { id: "ver_1", number: "1.0", active: true, primary: false, deleted: false },
+      { id: "ver_2", number: "2.0", active: true, primary: true, deleted: false },
+    ]);
+    mockGetArticles.mockResolvedValue([article("art_1")]);
+
+    const articles = await fetchScopedArticles(mockDocsieClient as any, {}, workspaces, {
+      versions: { policy: "active" },
+    });
+
+    expect(articles.map((a) => (a.version?.results[0] as any).id)).toEqual(["ver_1", "ver_2"]);
+  });
+
+  it("should fetch articles per book and dedupe them", async () => {
+    mockGetBooks.mockResolvedValue([{ id: "boo_1" }, { id: "boo_2" }]);
+    mockGetArticles.mockImplementation(async (bookId: string) =>
+      bookId === "boo_1" ? [article("art_1"), article("art_2")] : [article("art_2")]
+    );
+
+    const articles = await fetchScopedArticles(
+      mockDocsieClient as any,
+      { bookIds: ["boo_1", "boo_2"] },
+      workspaces
+    );
+
+    expect(mockGetArticles).toHaveBeenCalledWith("boo_1", {});
+    expect(mockGetArticles).toHaveBeenCalledWith("boo_2", {});
+    expect(articles.map((a) => a.id)).toEqual(["art_1", "art_2"]);
+  });
+
+  it("should apply tag filters to fetched articles", async () => {
+    mockGetArticles.mockResolvedValue([
+      article("art_1", ["public"]),
+      article("art_2", ["public", "internal"]),
+      article("art_3"),
+    ]);
+
+    const articles = await fetchScopedArticles(
+      mockDocsieClient as any,
+      { tags: ["public"], excludeTags: ["internal"] },
+      workspaces
+    );
+
+    expect(articles.map((a) => a.id)).toEqual(["art_1"]);
+  });
+
+  it("should fetch every active language of each book", async () => {
+    mockGetBooks.mockResolvedValue([{ id: "boo_1" }]);
+    mockGetLanguages.mockResolvedValue([
+      { id: "lan_en", abbreviation: "en", primary: true, active: true },
+      { id: "lan_fr", abbreviation: "fr", primary: false, active: true },
+      { id: "lan_de", abbreviation: "de", primary: false, active: false },
+    ]);
+    mockGetArticles.mockResolvedValue([article("art_1")]);
+
+    const articles = await fetchScopedArticles(mockDocsieClient as any, {}, workspaces, {
+      allLanguages: true,
+    });
+
+    expect(mockGetLanguages).toHaveBeenCalledWith("boo_1", undefined);
+    expect(mockGetArticles).toHaveBeenCalledWith("boo_1", { languageId: "lan_en" });
+    expect(mockGetArticles).toHaveBeenCalledWith("boo_1", { languageId: "lan_fr" });
+    expect(mockGetArticles).toHaveBeenCalledTimes(2);
+    expect(articles.map((a) => (a.language?.results[0] as any).abbreviation)).toEqual([
+      "en",
+      "fr",
+    ]);
+  });
+});
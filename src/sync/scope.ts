@@ -0,0 +1,269 @@
+/**
+ * Sync Scope
+ *
+ * Narrows a sync to part of a Docsie account. Include/exclude lists are
+ * resolved top-down through the hierarchy endpoints:
+ *   workspace → documentation (shelf) → book → article (+ tags, languages)
+ *
+ * Articles are fetched per selected version of each book (see versions.ts)
+ * and, in multi-language mode, per active language of that version
+ * (`/articles/?book=&version=&language=`).
+ */
+
+import type { DocsieClient } from "../docsie/client.js";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import { resolveArticleContext } from "../docsie/context.js";
+import type {
+  DocsieArticle,
+  DocsieBook,
+  DocsieDocumentation,
+  DocsieLanguage,
+  DocsieVersion,
+  DocsieWorkspace,
+  ExpandedRelation,
+} from "../docsie/types.js";
+import { fetchBookVersions, type VersionOptions } from "./versions.js";
+
+export interface SyncScope {
+  /** Only sync these workspaces (all if not specified) */
+  workspaceIds?: string[];
+  excludeWorkspaceIds?: string[];
+  /** Only sync these documentation shelves */
+  documentationIds?: string[];
+  excludeDocumentationIds?: string[];
+  /** Only sync these books */
+  bookIds?: string[];
+  excludeBookIds?: string[];
+  /** Only sync articles carrying at least one of these tags */
+  tags?: string[];
+  /** Never sync articles carrying any of these tags */
+  excludeTags?: string[];
+  /** Only sync these language codes (e.g. "en", "fr") */
+  languages?: string[];
+  excludeLanguages?: string[];
+}
+
+/**
+ * Whether an ID passes an include/exclude pair (empty include = everything)
+ */
+export function matchesFilter(
+  id: string,
+  include?: string[],
+  exclude?: string[]
+): boolean {
+  if (include && include.length > 0 && !include.includes(id)) {
+    return false;
+  }
+  return !(exclude && exclude.includes(id));
+}
+
+/**
+ * Whether an article passes the tag filters
+ */
+export function matchesTags(article: DocsieArticle, scope: SyncScope): boolean {
+  const tags = article.tags ?? [];
+
+  if (scope.tags && scope.tags.length > 0) {
+    if (!tags.some((tag) => scope.tags!.includes(tag))) {
+      return false;
+    }
+  }
+
+  if (scope.excludeTags && scope.excludeTags.length > 0) {
+    if (tags.some((tag) => scope.excludeTags!.includes(tag))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Whether an article passes the language filters (by language code)
+ */
+export function matchesLanguage(article: DocsieArticle, scope: SyncScope): boolean {
+  if (!hasAny(scope.languages, scope.excludeLanguages)) {
+    return true;
+  }
+
+  const code = resolveArticleContext(article).language?.code;
+  if (!code) {
+    return !(scope.languages && scope.languages.length > 0);
+  }
+  return matchesFilter(code, scope.languages, scope.excludeLanguages);
+}
+
+/**
+ * Filter workspaces by the workspace include/exclude lists
+ */
+export function filterWorkspaces(
+  workspaces: DocsieWorkspace[],
+  scope: SyncScope
+): DocsieWorkspace[] {
+  return workspaces.filter((ws) =>
+    matchesFilter(ws.id, scope.workspaceIds, scope.excludeWorkspaceIds)
+  );
+}
+
+export interface FetchOptions {
+  /** Which versions of each book to fetch (default: the primary version) */
+  versions?: VersionOptions;
+  /** Fetch every active language separately */
+  allLanguages?: boolean;
+  logger?: Logger;
+}
+
+/**
+ * Fetch all articles in scope
+ *
+ * Books are resolved through the hierarchy filters (all books without
+ * filters), then articles are fetched per selected version of each book
+ * and, with `allLanguages`, per active language of that version. Books
+ * without listed versions are fetched unfiltered.
+ */
+export async function fetchScopedArticles(
+  client: DocsieClient,
+  scope: SyncScope,
+  workspaces: DocsieWorkspace[],
+  options: FetchOptions = {}
+): Promise<DocsieArticle[]> {
+  const books = (await resolveBooks(client, scope, workspaces)) ?? (await client.getBooks());
+  (options.logger ?? defaultLogger).info(`Resolved ${books.length} book(s) in scope`, {
+    books: books.length,
+  });
+
+  const articles: DocsieArticle[] = [];
+  const seen = new Set<string>();
+
+  for (const book of books) {
+    const versions = await fetchBookVersions(client, book.id, options.versions);
+    for (const version of versions.length > 0 ? versions : [undefined]) {
+      const languages = options.allLanguages
+        ? await fetchActiveLanguages(client, book.id, version?.id, scope)
+        : [undefined];
+
+      for (const language of languages) {
+        const fetched = await client.getArticles(book.id, {
+          versionId: version?.id,
+          languageId: language?.id,
+        });
+
+        for (const article of fetched) {
+          // The same article can be listed under several books
+          const key = [article.id, version?.id, language?.id].join("/");
+          if (!seen.has(key)) {
+            seen.add(key);
+            articles.push(withContext(article, version, language));
+          }
+        }
+      }
+    }
+  }
+
+  return articles.filter(
+    (article) => matchesTags(article, scope) && matchesLanguage(article, scope)
+  );
+}
+
+/**
+ * Active languages of a book version that pass the language filters
+ */
+async function fetchActiveLanguages(
+  client: DocsieClient,
+  bookId: string,
+  versionId: string | undefined,
+  scope: SyncScope
+): Promise<DocsieLanguage[]> {
+  const languages = await client.getLanguages(bookId, versionId);
+  return languages.filter(
+    (language) =>
+      language.active &&
+      matchesFilter(language.abbreviation, scope.languages, scope.excludeLanguages)
+  );
+}
+
+/**
+ * Attach the version and language an article was fetched for, unless
+ * already expanded, since versions and translations can share its ID
+ */
+function withContext(
+  article: DocsieArticle,
+  version: DocsieVersion | undefined,
+  language: DocsieLanguage | undefined
+): DocsieArticle {
+  const result = { ...article };
+  if (version && !isExpanded(article.version)) {
+    result.version = { count: 1, has_more: false, url: "", results: [version] };
+  }
+  if (language && !isExpanded(article.language)) {
+    result.language = { count: 1, has_more: false, url: "", results: [language] };
+  }
+  return result;
+}
+
+function isExpanded(relation: ExpandedRelation<unknown> | undefined): boolean {
+  const value = relation?.results?.[0];
+  return value !== undefined && typeof value !== "string";
+}
+
+/**
+ * Resolve books in scope, or undefined when no hierarchy filter is set
+ */
+export async function resolveBooks(
+  client: DocsieClient,
+  scope: SyncScope,
+  workspaces: DocsieWorkspace[]
+): Promise<DocsieBook[] | undefined> {
+  const hasWorkspaceFilter = hasAny(scope.workspaceIds, scope.excludeWorkspaceIds);
+  const hasDocumentationFilter = hasAny(
+    scope.documentationIds,
+    scope.excludeDocumentationIds
+  );
+  const hasBookFilter = hasAny(scope.bookIds, scope.excludeBookIds);
+
+  if (!hasWorkspaceFilter && !hasDocumentationFilter && !hasBookFilter) {
+    return undefined;
+  }
+
+  let documentation: DocsieDocumentation[] | undefined;
+  if (hasWorkspaceFilter) {
+    documentation = [];
+    for (const ws of filterWorkspaces(workspaces, scope)) {
+      documentation.push(...(await client.getDocumentation(ws.id)));
+    }
+  } else if (hasDocumentationFilter) {
+    documentation = await client.getDocumentation();
+  }
+
+  let books: DocsieBook[];
+  if (documentation === undefined) {
+    books = await client.getBooks();
+  } else {
+    books = [];
+    const shelves = documentation.filter((doc) =>
+      matchesFilter(doc.id, scope.documentationIds, scope.excludeDocumentationIds)
+    );
+    for (const shelf of shelves) {
+      books.push(...(await client.getBooks(false, shelf.id)));
+    }
+  }
+
+  return dedupeById(books).filter((book) =>
+    matchesFilter(book.id, scope.bookIds, scope.excludeBookIds)
+  );
+}
+
+function hasAny(...lists: Array<string[] | undefined>): boolean {
+  return lists.some((list) => list !== undefined && list.length > 0);
+}
+
+function dedupeById<T extends { id: string }>(items: T[]): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    if (seen.has(item.id)) {
+      return false;
+    }
+    seen.add(item.id);
+    return true;
+  });
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SyncStateStore, hashContent, suffixFile } from "./state.js";
+
+describe("SyncStateStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "docsie-state-"));
+    filePath = join(dir, "state.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const entry = {
+    revision: 3,
+    contentHash: "abc",
+    syncedAt: "2025-02-10T00:00:00.000Z",
+  };
+
+  it("should require a file path", () => {
+    expect(() => new SyncStateStore("")).toThrow(
+      "Sync state file path is required"
+    );
+  });
+
+  it("should start empty when the file does not exist", async () => {
+    const store = new SyncStateStore(filePath);
+    await store.load();
+
+    expect(store.size).toBe(0);
+    expect(store.get("art_1")).toBeUndefined();
+  });
+
+  it("should persist entries across instances", async () => {
+    const store = new SyncStateStore(filePath);
+    store.set("art_1", entry);
+    store.keys = { versions: true, languages: false };
+    await store.save();
+
+    const reloaded = new SyncStateStore(filePath);
+    await reloaded.load();
+
+    expect(reloaded.get("art_1")).toEqual(entry);
+    expect(reloaded.ids()).toEqual(["art_1"]);
+    expect(reloaded.keys).toEqual({ versions: true, languages: false });
+  });
+
+  it("should create missing parent directories on save", async () => {
+    const nested = join(dir, "nested", "state.json");
+    const store = new SyncStateStore(nested);
+    store.set("art_1", entry);
+    await store.save();
+
+    const saved = JSON.parse(await readFile(nested, "utf8"));
+    expect(saved.articles.art_1).toEqual(entry);
+  });
+
+  it("should delete entries", async () => {
+    const store = new SyncStateStore(filePath);
+    store.set("art_1", entry);
+    store.set("art_2", entry);
+    store.delete("art_1");
+
+    expect(store.ids()).toEqual(["art_2"]);
+  });
+
+  it("should throw on a corrupt state file", async () => {
+    await writeFile(filePath, "{not json", "utf8");
+
+    const store = new SyncStateStore(filePath);
+
+    await expect(store.load()).rejects.toThrow("Invalid sync state file");
+  });
+
+  it("should throw on an unsupported state file version", async () => {
+    await writeFile(filePath, JSON.stringify({ version: 99, articles: {} }), "utf8");
+
+    const store = new SyncStateStore(filePath);
+
+    await expect(store.load()).rejects.toThrow("Unsupported sync state file");
+  });
+});
+
+describe("hashContent", () => {
+  it("should be stable for the same content", () => {
+    expect(hashContent("## Hello")).toBe(hashContent("## Hello"));
+  });
+
+  it("should differ when content changes", () => {
+    expect(hashContent("## Hello")).not.toBe(hashContent("## Hello!"));
+  });
+});
+
+describe("suffixFile", () => {
+  it("should insert the suffix before the extension", () => {
+    expect(suffixFile(".docsie-sync-state.json", "support")).toBe(
+      ".docsie-sync-state.support.json"
+    );
+    expect(suffixFile("data/state", "support")).toBe("data/state.support");
+  });
+});
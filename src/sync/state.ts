@@ -0,0 +1,157 @@
+/**
+ * Sync State Store
+ *
+ * Persists what the connector last pushed to Maven for each article
+ * (revision + document hash) in a local JSON file, so later runs can
+ * skip articles that have not changed since.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { ArticleKeyOptions } from "./keys.js";
+
+const STATE_FILE_VERSION = 1;
+
+export interface SyncStateEntry {
+  /** Docsie article revision that was uploaded */
+  revision: number;
+  /** Canonical SHA-256 of the documents that were uploaded (see canonicalHash) */
+  contentHash: string;
+  /** ISO timestamp of the upload */
+  syncedAt: string;
+  /**
+   * Maven reference IDs uploaded for the article when it was split into
+   * chunks (omitted when the only document is the article ID itself)
+   */
+  referenceIds?: string[];
+}
+
+interface SyncStateFile {
+  version: number;
+  /** How the articles are keyed (missing in state files of earlier versions) */
+  keys?: ArticleKeyOptions;
+  articles: Record<string, SyncStateEntry>;
+}
+
+export class SyncStateStore {
+  readonly filePath: string;
+  /** How the articles are keyed (see keys.ts); unknown for older state files */
+  keys?: ArticleKeyOptions;
+  private entries = new Map<string, SyncStateEntry>();
+
+  constructor(filePath: string) {
+    if (!filePath) {
+      throw new Error("Sync state file path is required");
+    }
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load state from disk. A missing file is treated as an empty state.
+   */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.keys = undefined;
+        this.entries.clear();
+        return;
+      }
+      throw error;
+    }
+
+    let parsed: SyncStateFile;
+    try {
+      parsed = JSON.parse(raw) as SyncStateFile;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid sync state file ${this.filePath}: ${message}`);
+    }
+
+    if (parsed.version !== STATE_FILE_VERSION || !parsed.articles) {
+      throw new Error(
+        `Unsupported sync state file ${this.filePath} (version ${parsed.version})`
+      );
+    }
+
+    this.keys = parsed.keys;
+    this.entries = new Map(Object.entries(parsed.articles));
+  }
+
+  /**
+   * Write state to disk (via a temp file so a crash never leaves it half-written)
+   */
+  async save(): Promise<void> {
+    const data: SyncStateFile = {
+      version: STATE_FILE_VERSION,
+      keys: this.keys,
+      articles: Object.fromEntries(this.entries),
+    };
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data, null, 2) + "\n", "utf8");
+    await rename(tmpPath, this.filePath);
+  }
+
+  /**
+   * Forget all articles and remove the state file
+   */
+  async clear(): Promise<void> {
+    this.keys = undefined;
+    this.entries.clear();
+    await rm(this.filePath, { force: true });
+  }
+
+  get(articleId: string): SyncStateEntry | undefined {
+    return this.entries.get(articleId);
+  }
+
+  set(articleId: string, entry: SyncStateEntry): void {
+    this.entries.set(articleId, entry);
+  }
+
+  delete(articleId: string): void {
+    this.entries.delete(articleId);
+  }
+
+  /**
+   * IDs of all articles recorded as synced
+   */
+  ids(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Maven reference IDs recorded for an article
+ */
+export function referenceIdsOf(
+  articleId: string,
+  entry: SyncStateEntry | undefined
+): string[] {
+  return entry?.referenceIds ?? [articleId];
+}
+
+/**
+ * Hash document content for change detection
+ */
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+/**
+ * Insert a suffix before a file's extension, so related runs (languages,
+ * profiles) keep separate state ("state.json" → "state.fr.json")
+ */
+export function suffixFile(filePath: string, suffix: string): string {
+  const match = /^(.*[^/\\])(\.[^./\\]+)$/.exec(filePath);
+  return match ? `${match[1]}.${suffix}${match[2]}` : `${filePath}.${suffix}`;
+}
@@ -1,26 +1,61 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { DocsieSync } from "./sync.js";
+import { SyncStateStore } from "./state.js";
 import type { DocsieArticle } from "../docsie/types.js";
+import { NotFoundError } from "../utils/errors.js";
 
 // Mock DocsieClient
 const mockGetWorkspaces = vi.fn();
 const mockGetArticles = vi.fn();
+const mockGetArticle = vi.fn();
+const mockGetBooks = vi.fn();
+const mockGetDocumentation = vi.fn();
+const mockGetDeployments = vi.fn();
+const mockGetVersions = vi.fn();
 const mockDocsieClient = {
+  getVersions: mockGetVersions,
   getWorkspaces: mockGetWorkspaces,
   getArticles: mockGetArticles,
+  getArticle: mockGetArticle,
+  getBooks: mockGetBooks,
+  getDocumentation: mockGetDocumentation,
+  getDeployments: mockGetDeployments,
 };
 
 // Mock MavenUploader
 const mockUpload = vi.fn();
+const mockDelete = vi.fn();
+const mockBeginVersion = vi.fn();
+const mockFinishVersion = vi.fn();
+const mockAbandonVersion = vi.fn();
 const mockMavenUploader = {
   upload: mockUpload,
+  delete: mockDelete,
+  beginVersion: mockBeginVersion,
+  finishVersion: mockFinishVersion,
+  abandonVersion: mockAbandonVersion,
 };
 
 describe("DocsieSync", () => {
   beforeEach(() => {
     mockGetWorkspaces.mockReset();
     mockGetArticles.mockReset();
+    mockGetArticle.mockReset();
+    mockGetBooks.mockReset();
+    mockGetDocumentation.mockReset();
+    mockGetDeployments.mockReset();
+    mockGetDeployments.mockResolvedValue([]);
+    mockGetVersions.mockReset();
+    mockGetVersions.mockResolvedValue([]);
+    mockGetBooks.mockResolvedValue([{ id: "boo_1" }]);
     mockUpload.mockReset();
+    mockDelete.mockReset();
+    mockBeginVersion.mockReset();
+    mockFinishVersion.mockReset();
+    mockAbandonVersion.mockReset();
     vi.spyOn(console, "log").mockImplementation(() => {});
   });
 
@@ -113,7 +148,7 @@ describe("DocsieSync", () => {
       expect(result.workspaces).toBe(0);
     });
 
-    it("should report partial failures from upload", async () => {
+    it("should discard the knowledge base version when a document fails", async () => {
       const articles = [
         createTestArticle("art_1"),
         createTestArticle("art_2"),
@@ -137,6 +172,65 @@ describe("DocsieSync", () => {
       expect(result.failed).toBe(1);
       expect(result.errors).toHaveLength(1);
       expect(result.errors[0].docId).toBe("art_2");
+      expect(result.versionDiscarded).toBe(true);
+      expect(mockBeginVersion).toHaveBeenCalledWith("PARTIAL", { resume: false });
+      expect(mockFinishVersion).toHaveBeenCalledWith(false, "1 document write(s) failed");
+      expect(mockFinishVersion).not.toHaveBeenCalledWith(true);
+    });
+
+    it("should write into a knowledge base version finalized on success", async () => {
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockGetArticles.mockResolvedValue([createTestArticle("art_1")]);
+      mockUpload.mockResolvedValue({ total: 1, success: 1, failed: 0, errors: [] });
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any);
+      await sync.syncAll({ resume: true });
+
+      expect(mockBeginVersion).toHaveBeenCalledWith("PARTIAL", { resume: true });
+      expect(mockBeginVersion.mock.invocationCallOrder[0]).toBeLessThan(
+        mockUpload.mock.invocationCallOrder[0]
+      );
+      expect(mockFinishVersion).toHaveBeenCalledWith(true);
+    });
+
+    it("should abandon the version when the upload throws", async () => {
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockGetArticles.mockResolvedValue([createTestArticle("art_1")]);
+      const error = new Error("Maven unavailable");
+      mockUpload.mockRejectedValue(error);
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any);
+
+      await expect(sync.syncAll()).rejects.toThrow("Maven unavailable");
+      expect(mockAbandonVersion).toHaveBeenCalledWith(error, false);
+      expect(mockFinishVersion).not.toHaveBeenCalled();
+    });
+
+    it("should record each document's outcome in the plan", async () => {
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockGetArticles.mockResolvedValue([createTestArticle("art_1"), createTestArticle("art_2")]);
+      mockUpload.mockResolvedValue({
+        total: 2,
+        success: 1,
+        failed: 1,
+        errors: [{ docId: "art_2", error: "Maven 429: slow down", category: "rate_limited" }],
+        outcomes: [
+          { docId: "art_1", success: true, attempts: 1, durationMs: 12 },
+          { docId: "art_2", success: false, attempts: 4, durationMs: 80 },
+        ],
+      });
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any);
+      const result = await sync.syncAll();
+
+      expect(result.plan[0]).toMatchObject({ status: "succeeded", attempts: 1, durationMs: 12 });
+      expect(result.plan[1]).toMatchObject({
+        status: "failed",
+        attempts: 4,
+        durationMs: 80,
+        error: "Maven 429: slow down",
+        errorCategory: "rate_limited",
+      });
     });
 
     it("should transform articles to Maven format before upload", async () => {
@@ -162,9 +256,118 @@ describe("DocsieSync", () => {
             title: "Article art_1",
             content: expect.stringContaining("Content for art_1"),
           }),
-        ])
+        ]),
+        { resume: false }
       );
     });
+
+    it("should attach the public article URL from the book's deployment", async () => {
+      const article = {
+        ...createTestArticle("art_1"),
+        book: {
+          count: 1,
+          has_more: false,
+          url: "",
+          results: [{ id: "boo_guide", slug: "guide", url_path: "/admin-guide/" }],
+        },
+      } as unknown as DocsieArticle;
+
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockGetArticles.mockResolvedValue([article]);
+      mockGetDeployments.mockResolvedValue([
+        { target_object_id: "boo_guide", domain: "docs.example.com", host: "", deleted: false },
+      ]);
+      mockUpload.mockResolvedValue({ total: 1, success: 1, failed: 0, errors: [] });
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any);
+      await sync.syncAll();
+
+      const [doc] = mockUpload.mock.calls[0][0];
+      expect(doc.url).toBe("https://docs.example.com/admin-guide/article-art_1/");
+      expect(doc.metadata.url).toBeUndefined();
+    });
+  });
+
+  describe("scoping", () => {
+    it("should only sync articles from books in scope", async () => {
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockGetBooks.mockResolvedValue([{ id: "boo_public" }, { id: "boo_internal" }]);
+      mockGetArticles.mockImplementation(async (bookId?: string) =>
+        bookId === "boo_public" ? [createTestArticle("art_public")] : [createTestArticle("art_internal")]
+      );
+      mockUpload.mockResolvedValue({ total: 1, success: 1, failed: 0, errors: [] });
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any);
+      const result = await sync.syncAll({ bookIds: ["boo_public"] });
+
+      expect(result.articles).toBe(1);
+      expect(mockGetArticles).toHaveBeenCalledWith("boo_public", {});
+      expect(mockGetArticles).not.toHaveBeenCalledWith("boo_internal", expect.anything());
+      expect(mockUpload).toHaveBeenCalledWith(
+        [expect.objectContaining({ knowledgeDocumentId: { referenceId: "art_public" } })],
+        { resume: false }
+      );
+    });
+
+    it("should count only workspaces in scope", async () => {
+      mockGetWorkspaces.mockResolvedValue([
+        { id: "ws-1", name: "W1" },
+        { id: "ws-2", name: "W2" },
+      ]);
+      mockGetDocumentation.mockResolvedValue([]);
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any);
+      const result = await sync.syncAll({ excludeWorkspaceIds: ["ws-2"] });
+
+      expect(result.workspaces).toBe(1);
+      expect(mockGetDocumentation).toHaveBeenCalledWith("ws-1");
+      expect(mockGetDocumentation).not.toHaveBeenCalledWith("ws-2");
+    });
+  });
+
+  describe("plan", () => {
+    it("should describe every article in the result plan", async () => {
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockGetArticles.mockResolvedValue([
+        createTestArticle("art_1"),
+        createTestArticle("art_2", false),
+      ]);
+      mockUpload.mockResolvedValue({ total: 1, success: 1, failed: 0, errors: [] });
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any);
+      const result = await sync.syncAll();
+
+      expect(result.dryRun).toBe(false);
+      expect(result.plan).toEqual([
+        {
+          articleId: "art_1",
+          referenceId: "art_1",
+          action: "create",
+          title: "Article art_1",
+          contentLength: "Content for art_1".length,
+        },
+        {
+          articleId: "art_2",
+          referenceId: "art_2",
+          action: "skip",
+          title: "Article art_2",
+          contentLength: 0,
+          reason: "no content",
+        },
+      ]);
+    });
+
+    it("should not upload in a dry run", async () => {
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockGetArticles.mockResolvedValue([createTestArticle("art_1")]);
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any);
+      const result = await sync.syncAll({ dryRun: true });
+
+      expect(result.uploaded).toBe(0);
+      expect(result.plan).toHaveLength(1);
+      expect(mockUpload).not.toHaveBeenCalled();
+    });
   });
 
   describe("syncResult", () => {
@@ -191,4 +394,740 @@ describe("DocsieSync", () => {
       expect(result.durationMs).toBeGreaterThanOrEqual(0);
     });
   });
+
+  describe("incremental sync", () => {
+    let dir: string;
+    let stateFile: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "docsie-sync-"));
+      stateFile = join(dir, "state.json");
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    const uploadAll = () =>
+      mockUpload.mockImplementation(async (docs: unknown[]) => ({
+        total: docs.length,
+        success: docs.length,
+        failed: 0,
+        errors: [],
+      }));
+
+    it("should skip articles unchanged since the last sync", async () => {
+      mockGetArticles.mockResolvedValue([
+        createTestArticle("art_1"),
+        createTestArticle("art_2"),
+      ]);
+      uploadAll();
+
+      const first = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore: new SyncStateStore(stateFile),
+      });
+      await first.syncAll();
+
+      mockUpload.mockClear();
+
+      const second = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore: new SyncStateStore(stateFile),
+      });
+      const result = await second.syncAll();
+
+      expect(result.articles).toBe(2);
+      expect(result.unchanged).toBe(2);
+      expect(result.uploaded).toBe(0);
+      expect(mockUpload).not.toHaveBeenCalled();
+      expect(mockBeginVersion).toHaveBeenCalledTimes(1);
+    });
+
+    it("should upload articles whose title changed", async () => {
+      mockGetArticles.mockResolvedValueOnce([
+        createTestArticle("art_1"),
+        createTestArticle("art_2"),
+      ]);
+      uploadAll();
+
+      const stateStore = new SyncStateStore(stateFile);
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      await sync.syncAll();
+
+      mockGetArticles.mockResolvedValueOnce([
+        createTestArticle("art_1"),
+        { ...createTestArticle("art_2"), name: "Renamed", revision: 2 },
+      ]);
+      mockUpload.mockClear();
+
+      const result = await sync.syncAll();
+
+      expect(result.unchanged).toBe(1);
+      expect(result.uploaded).toBe(1);
+      expect(mockBeginVersion).toHaveBeenLastCalledWith("PARTIAL", { resume: false });
+      expect(mockUpload).toHaveBeenCalledWith(
+        [expect.objectContaining({ knowledgeDocumentId: { referenceId: "art_2" } })],
+        { resume: false }
+      );
+      expect(stateStore.get("art_2")?.revision).toBe(2);
+    });
+
+    it("should skip articles with a new revision but the same documents", async () => {
+      mockGetArticles.mockResolvedValueOnce([
+        { ...createTestArticle("art_1"), tags: ["test", "documentation"] },
+      ]);
+      uploadAll();
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore: new SyncStateStore(stateFile),
+      });
+      await sync.syncAll();
+
+      // Cosmetic edit: new revision, tags reordered
+      mockGetArticles.mockResolvedValueOnce([
+        { ...createTestArticle("art_1"), revision: 2, tags: ["documentation", "test"] },
+      ]);
+      mockUpload.mockClear();
+
+      const result = await sync.syncAll();
+
+      expect(result.unchanged).toBe(1);
+      expect(result.plan[0].reason).toBe("content unchanged");
+      expect(mockUpload).not.toHaveBeenCalled();
+    });
+
+    it("should upload unchanged articles when forced", async () => {
+      mockGetArticles.mockResolvedValue([createTestArticle("art_1")]);
+      uploadAll();
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore: new SyncStateStore(stateFile),
+      });
+      await sync.syncAll();
+      mockUpload.mockClear();
+
+      const result = await sync.syncAll({ force: true });
+
+      expect(result.unchanged).toBe(0);
+      expect(result.uploaded).toBe(1);
+      expect(result.plan[0].action).toBe("update");
+    });
+
+    it("should upload articles whose content changed at the same revision", async () => {
+      mockGetArticles.mockResolvedValueOnce([createTestArticle("art_1")]);
+      uploadAll();
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore: new SyncStateStore(stateFile),
+      });
+      await sync.syncAll();
+
+      const edited = createTestArticle("art_1");
+      edited.doc.blocks[0].text = "Edited content";
+      mockGetArticles.mockResolvedValueOnce([edited]);
+
+      const result = await sync.syncAll();
+
+      expect(result.unchanged).toBe(0);
+      expect(result.uploaded).toBe(1);
+    });
+
+    it("should keep the previous state when a document fails so the run is repeated", async () => {
+      mockGetArticles.mockResolvedValue([
+        createTestArticle("art_1"),
+        createTestArticle("art_2"),
+      ]);
+      mockUpload.mockResolvedValueOnce({
+        total: 2,
+        success: 1,
+        failed: 1,
+        errors: [{ docId: "art_2", error: "Upload failed" }],
+      });
+
+      const stateStore = new SyncStateStore(stateFile);
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const failed = await sync.syncAll();
+
+      expect(failed.versionDiscarded).toBe(true);
+      expect(stateStore.get("art_1")).toBeUndefined();
+      expect(stateStore.get("art_2")).toBeUndefined();
+
+      uploadAll();
+      const result = await sync.syncAll();
+
+      expect(result.uploaded).toBe(2);
+      expect(mockBeginVersion).toHaveBeenLastCalledWith("PARTIAL", { resume: false });
+    });
+
+    it("should keep the other writes when Maven rejects a document as invalid", async () => {
+      mockGetArticles.mockResolvedValue([
+        createTestArticle("art_1"),
+        createTestArticle("art_2"),
+      ]);
+      mockUpload.mockResolvedValueOnce({
+        total: 2,
+        success: 1,
+        failed: 1,
+        errors: [{ docId: "art_2", error: "Too many metadata keys", category: "validation" }],
+      });
+
+      const stateStore = new SyncStateStore(stateFile);
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncAll();
+
+      expect(result.failed).toBe(1);
+      expect(result.rejected).toBe(1);
+      expect(result.versionDiscarded).toBeUndefined();
+      expect(mockFinishVersion).toHaveBeenCalledWith(true);
+      await stateStore.load();
+      expect(stateStore.get("art_1")).toBeDefined();
+      expect(stateStore.get("art_2")).toBeUndefined();
+    });
+  });
+
+  describe("reconciliation", () => {
+    let dir: string;
+    let stateStore: SyncStateStore;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "docsie-reconcile-"));
+      stateStore = new SyncStateStore(join(dir, "state.json"));
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockUpload.mockImplementation(async (docs: unknown[]) => ({
+        total: docs.length,
+        success: docs.length,
+        failed: 0,
+        errors: [],
+      }));
+      mockDelete.mockImplementation(async (ids: string[]) => ({
+        total: ids.length,
+        success: ids.length,
+        failed: 0,
+        errors: [],
+      }));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    const seed = async (ids: string[]) => {
+      mockGetArticles.mockResolvedValueOnce(ids.map((id) => createTestArticle(id)));
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+        maxDeletePercent: 100,
+      });
+      await sync.syncAll();
+      mockUpload.mockClear();
+    };
+
+    it("should delete documents for articles removed from Docsie", async () => {
+      await seed(["art_1", "art_2", "art_3", "art_4", "art_5"]);
+      mockGetArticles.mockResolvedValueOnce(
+        ["art_1", "art_2", "art_3", "art_4"].map((id) => createTestArticle(id))
+      );
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncAll();
+
+      expect(result.deleted).toBe(1);
+      expect(mockDelete).toHaveBeenCalledWith(["art_5"]);
+      expect(stateStore.get("art_5")).toBeUndefined();
+    });
+
+    it("should delete documents for articles that became empty", async () => {
+      await seed(["art_1", "art_2", "art_3", "art_4", "art_5"]);
+      mockGetArticles.mockResolvedValueOnce([
+        ...["art_1", "art_2", "art_3", "art_4"].map((id) => createTestArticle(id)),
+        createTestArticle("art_5", false),
+      ]);
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncAll();
+
+      expect(result.skipped).toBe(1);
+      expect(result.deleted).toBe(1);
+      expect(mockDelete).toHaveBeenCalledWith(["art_5"]);
+    });
+
+    it("should abort before any writes when deletes exceed the threshold", async () => {
+      await seed(["art_1", "art_2", "art_3", "art_4"]);
+      mockGetArticles.mockResolvedValueOnce([createTestArticle("art_1")]);
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+        maxDeletePercent: 50,
+      });
+
+      await expect(sync.syncAll()).rejects.toThrow(
+        "Refusing to delete 3 of 4 synced articles (75.0%)"
+      );
+      expect(mockUpload).not.toHaveBeenCalled();
+      expect(mockDelete).not.toHaveBeenCalled();
+    });
+
+    it("should keep failed deletes in the state so they are retried", async () => {
+      await seed(["art_1", "art_2", "art_3", "art_4", "art_5"]);
+      mockGetArticles.mockResolvedValueOnce(
+        ["art_1", "art_2", "art_3", "art_4"].map((id) => createTestArticle(id))
+      );
+      mockDelete.mockResolvedValueOnce({
+        total: 1,
+        success: 0,
+        failed: 1,
+        errors: [{ docId: "art_5", error: "Delete failed" }],
+      });
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncAll();
+
+      expect(result.deleted).toBe(0);
+      expect(result.failed).toBe(1);
+      expect(result.errors).toEqual([{ docId: "art_5", error: "Delete failed" }]);
+      expect(result.versionDiscarded).toBe(true);
+      expect(mockBeginVersion).toHaveBeenCalledWith("PARTIAL", { resume: false });
+      expect(mockFinishVersion).toHaveBeenCalledWith(false, "1 document write(s) failed");
+      expect(stateStore.get("art_5")).toBeDefined();
+    });
+
+    it("should plan deletes without writing anything in a dry run", async () => {
+      await seed(["art_1", "art_2", "art_3", "art_4", "art_5"]);
+      const edited = createTestArticle("art_2");
+      edited.doc.blocks[0].text = "Edited content";
+      mockGetArticles.mockResolvedValueOnce([
+        createTestArticle("art_1"),
+        edited,
+        createTestArticle("art_3"),
+        createTestArticle("art_4"),
+        createTestArticle("art_6"),
+        createTestArticle("art_7", false),
+      ]);
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncAll({ dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(mockUpload).not.toHaveBeenCalled();
+      expect(mockDelete).not.toHaveBeenCalled();
+
+      const actions = Object.fromEntries(result.plan.map((e) => [e.articleId, e.action]));
+      expect(actions).toEqual({
+        art_1: "unchanged",
+        art_2: "update",
+        art_3: "unchanged",
+        art_4: "unchanged",
+        art_6: "create",
+        art_7: "skip",
+        art_5: "delete",
+      });
+      expect(result.plan.find((e) => e.articleId === "art_7")?.reason).toBe("no content");
+
+      // State is untouched, so a real run still sees the same changes
+      const reloaded = new SyncStateStore(join(dir, "state.json"));
+      await reloaded.load();
+      expect(reloaded.get("art_5")).toBeDefined();
+      expect(reloaded.get("art_6")).toBeUndefined();
+    });
+
+    it("should report a threshold breach in a dry run instead of aborting", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      await seed(["art_1", "art_2"]);
+      mockGetArticles.mockResolvedValueOnce([]);
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncAll({ dryRun: true });
+
+      expect(result.plan.filter((e) => e.action === "delete")).toHaveLength(2);
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining("a real run would abort")
+      );
+    });
+
+    it("should not delete anything without a sync state", async () => {
+      mockGetArticles.mockResolvedValueOnce([createTestArticle("art_1")]);
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any);
+      const result = await sync.syncAll();
+
+      expect(result.deleted).toBe(0);
+      expect(mockDelete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("chunking", () => {
+    let dir: string;
+    let stateStore: SyncStateStore;
+
+    const sectionedArticle = (sections: string[]): DocsieArticle => ({
+      ...createTestArticle("art_1"),
+      doc: {
+        blocks: [
+          { type: "unstyled", text: "Intro", depth: 0, entityRanges: [], inlineStyleRanges: [] },
+          ...sections.flatMap((name) => [
+            { type: "header-two", text: name, depth: 0, entityRanges: [], inlineStyleRanges: [] },
+            { type: "unstyled", text: `About ${name}`, depth: 0, entityRanges: [], inlineStyleRanges: [] },
+          ]),
+        ],
+      },
+    });
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "docsie-chunks-"));
+      stateStore = new SyncStateStore(join(dir, "state.json"));
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockUpload.mockImplementation(async (docs: unknown[]) => ({
+        total: docs.length,
+        success: docs.length,
+        failed: 0,
+        errors: [],
+      }));
+      mockDelete.mockImplementation(async (ids: string[]) => ({
+        total: ids.length,
+        success: ids.length,
+        failed: 0,
+        errors: [],
+      }));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    const createSync = () =>
+      new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+        chunking: { splitSections: true },
+      });
+
+    it("should upload one document per section and record their IDs", async () => {
+      mockGetArticles.mockResolvedValueOnce([sectionedArticle(["Setup", "Usage"])]);
+
+      const result = await createSync().syncAll();
+
+      const ids = mockUpload.mock.calls[0][0].map(
+        (d: any) => d.knowledgeDocumentId.referenceId
+      );
+      expect(ids).toEqual(["art_1#intro", "art_1#setup", "art_1#usage"]);
+      expect(result.uploaded).toBe(3);
+      expect(result.plan).toHaveLength(3);
+      expect(stateStore.get("art_1")?.referenceIds).toEqual(ids);
+    });
+
+    it("should delete chunks for removed sections", async () => {
+      mockGetArticles.mockResolvedValueOnce([sectionedArticle(["Setup", "Usage"])]);
+      await createSync().syncAll();
+
+      const edited = sectionedArticle(["Setup"]);
+      edited.revision = 2;
+      mockGetArticles.mockResolvedValueOnce([edited]);
+      const result = await createSync().syncAll();
+
+      expect(mockDelete).toHaveBeenCalledWith(["art_1#usage"]);
+      expect(result.deleted).toBe(1);
+      expect(stateStore.get("art_1")?.referenceIds).toEqual(["art_1#intro", "art_1#setup"]);
+    });
+
+    it("should keep stale chunks when the article upload fails", async () => {
+      mockGetArticles.mockResolvedValueOnce([sectionedArticle(["Setup", "Usage"])]);
+      await createSync().syncAll();
+
+      const edited = sectionedArticle(["Setup"]);
+      edited.revision = 2;
+      mockGetArticles.mockResolvedValueOnce([edited]);
+      mockUpload.mockResolvedValueOnce({
+        total: 2,
+        success: 1,
+        failed: 1,
+        errors: [{ docId: "art_1#setup", error: "Upload failed" }],
+      });
+      await createSync().syncAll();
+
+      expect(mockDelete).not.toHaveBeenCalled();
+      expect(stateStore.get("art_1")?.revision).toBe(1);
+    });
+
+    it("should delete every chunk of a removed article", async () => {
+      mockGetArticles.mockResolvedValueOnce([sectionedArticle(["Setup"])]);
+      await createSync().syncAll();
+
+      mockGetArticles.mockResolvedValueOnce([]);
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+        maxDeletePercent: 100,
+        chunking: { splitSections: true },
+      });
+      await sync.syncAll();
+
+      expect(mockDelete).toHaveBeenCalledWith(["art_1#intro", "art_1#setup"]);
+      expect(stateStore.get("art_1")).toBeUndefined();
+    });
+  });
+
+  describe("languages", () => {
+    let dir: string;
+    let stateStore: SyncStateStore;
+    const mockGetLanguages = vi.fn();
+    const languages = [
+      { id: "lan_en", language: "English", abbreviation: "en", primary: true, active: true },
+      { id: "lan_fr", language: "French", abbreviation: "fr", primary: false, active: true },
+    ];
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "docsie-languages-"));
+      stateStore = new SyncStateStore(join(dir, "state.json"));
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockGetBooks.mockResolvedValue([{ id: "boo_1" }]);
+      mockGetLanguages.mockReset();
+      mockGetLanguages.mockResolvedValue(languages);
+      // The same article ID in both languages, with translated content
+      mockGetArticles.mockImplementation(async (_bookId: string, filters: any) => [
+        {
+          ...createTestArticle("art_1"),
+          name: filters.languageId === "lan_fr" ? "Bonjour" : "Hello",
+        },
+      ]);
+      mockUpload.mockImplementation(async (docs: unknown[]) => ({
+        total: docs.length,
+        success: docs.length,
+        failed: 0,
+        errors: [],
+      }));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should sync each translation with language-suffixed reference IDs", async () => {
+      const sync = new DocsieSync(
+        { ...mockDocsieClient, getLanguages: mockGetLanguages } as any,
+        mockMavenUploader as any,
+        { stateStore, allLanguages: true }
+      );
+
+      const result = await sync.syncAll();
+
+      const docs = mockUpload.mock.calls[0][0];
+      expect(docs.map((d: any) => d.knowledgeDocumentId.referenceId)).toEqual([
+        "art_1",
+        "art_1@fr",
+      ]);
+      expect(docs[1].title).toBe("Bonjour");
+      expect(docs[1].metadata).toMatchObject({ language: "fr" });
+      expect(result.uploaded).toBe(2);
+      expect(stateStore.ids().sort()).toEqual(["art_1", "art_1@fr"]);
+    });
+
+    it("should only fetch languages in scope", async () => {
+      const sync = new DocsieSync(
+        { ...mockDocsieClient, getLanguages: mockGetLanguages } as any,
+        mockMavenUploader as any,
+        { allLanguages: true }
+      );
+
+      await sync.syncAll({ excludeLanguages: ["en"] });
+
+      expect(mockGetArticles).toHaveBeenCalledTimes(1);
+      expect(mockGetArticles).toHaveBeenCalledWith("boo_1", { languageId: "lan_fr" });
+    });
+  });
+
+  describe("versions", () => {
+    const versions = [
+      { id: "ver_1", name: "v1", number: "1.0", active: true, primary: false, deleted: false },
+      { id: "ver_2", name: "v2", number: "2.0", active: true, primary: true, deleted: false },
+    ];
+
+    beforeEach(() => {
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockGetVersions.mockResolvedValue(versions);
+      mockGetArticles.mockImplementation(async () => [createTestArticle("art_1")]);
+      mockUpload.mockImplementation(async (docs: unknown[]) => ({
+        total: docs.length,
+        success: docs.length,
+        failed: 0,
+        errors: [],
+      }));
+    });
+
+    it("should only sync the primary version by default", async () => {
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any);
+      await sync.syncAll();
+
+      const docs = mockUpload.mock.calls[0][0];
+      expect(docs.map((d: any) => d.knowledgeDocumentId.referenceId)).toEqual(["art_1"]);
+      expect(docs[0].metadata).toMatchObject({ version: "v2" });
+    });
+
+    it("should add the version to reference IDs when syncing all active versions", async () => {
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        versions: { policy: "active" },
+      });
+      await sync.syncAll();
+
+      const ids = mockUpload.mock.calls[0][0].map((d: any) => d.knowledgeDocumentId.referenceId);
+      expect(ids).toEqual(["art_1~1.0", "art_1~2.0"]);
+    });
+
+    it("should only re-key synced articles when forced", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "docsie-versions-"));
+      try {
+        const stateStore = new SyncStateStore(join(dir, "state.json"));
+        mockDelete.mockImplementation(async (ids: string[]) => ({
+          total: ids.length,
+          success: ids.length,
+          failed: 0,
+          errors: [],
+        }));
+        await new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+          stateStore,
+        }).syncAll();
+        mockUpload.mockClear();
+
+        const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+          stateStore,
+          versions: { policy: "active" },
+        });
+        await expect(sync.syncAll()).rejects.toThrow(
+          "Article keys changed since the last sync (from article ID to article ID + version)"
+        );
+        expect(mockUpload).not.toHaveBeenCalled();
+
+        const result = await sync.syncAll({ force: true });
+
+        expect(mockDelete).toHaveBeenCalledWith(["art_1"]);
+        expect(result.uploaded).toBe(2);
+        expect(stateStore.ids().sort()).toEqual(["art_1~1.0", "art_1~2.0"]);
+        expect(stateStore.keys).toEqual({ versions: true, languages: false });
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("syncArticles", () => {
+    let dir: string;
+    let stateStore: SyncStateStore;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "docsie-targeted-"));
+      stateStore = new SyncStateStore(join(dir, "state.json"));
+      mockGetWorkspaces.mockResolvedValue([{ id: "ws-1", name: "Test" }]);
+      mockGetArticles.mockResolvedValueOnce(
+        ["art_1", "art_2", "art_3"].map((id) => createTestArticle(id))
+      );
+      mockUpload.mockImplementation(async (docs: unknown[]) => ({
+        total: docs.length,
+        success: docs.length,
+        failed: 0,
+        errors: [],
+      }));
+      mockDelete.mockImplementation(async (ids: string[]) => ({
+        total: ids.length,
+        success: ids.length,
+        failed: 0,
+        errors: [],
+      }));
+
+      await new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      }).syncAll();
+      mockUpload.mockClear();
+      mockGetArticles.mockClear();
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should upload only the changed article", async () => {
+      const edited = { ...createTestArticle("art_2"), revision: 2 };
+      edited.doc.blocks[0].text = "Edited content";
+      mockGetArticle.mockResolvedValue(edited);
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncArticles([{ articleId: "art_2", deleted: false }]);
+
+      expect(mockGetArticle).toHaveBeenCalledWith("art_2");
+      expect(mockGetArticles).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ articles: 1, uploaded: 1, deleted: 0 });
+      expect(mockUpload.mock.calls[0][0]).toHaveLength(1);
+      expect(mockDelete).not.toHaveBeenCalled();
+      expect(stateStore.get("art_2")?.revision).toBe(2);
+      expect(stateStore.get("art_1")).toBeDefined();
+    });
+
+    it("should delete the documents of deleted articles without fetching them", async () => {
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncArticles([{ articleId: "art_3", deleted: true }]);
+
+      expect(mockGetArticle).not.toHaveBeenCalled();
+      expect(result.deleted).toBe(1);
+      expect(mockDelete).toHaveBeenCalledWith(["art_3"]);
+      expect(stateStore.get("art_3")).toBeUndefined();
+      expect(stateStore.size).toBe(2);
+    });
+
+    it("should treat articles Docsie no longer finds as deleted", async () => {
+      mockGetArticle.mockRejectedValue(new NotFoundError("Article art_1 not found"));
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncArticles([{ articleId: "art_1", deleted: false }]);
+
+      expect(result.deleted).toBe(1);
+      expect(mockDelete).toHaveBeenCalledWith(["art_1"]);
+    });
+
+    it("should remove articles that left the sync scope", async () => {
+      mockGetArticle.mockResolvedValue(createTestArticle("art_1"));
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncArticles([{ articleId: "art_1", deleted: false }], {
+        tags: ["api"],
+      });
+
+      expect(mockUpload).not.toHaveBeenCalled();
+      expect(result.deleted).toBe(1);
+      expect(mockDelete).toHaveBeenCalledWith(["art_1"]);
+    });
+
+    it("should ignore changes of articles that were never synced and are out of scope", async () => {
+      mockGetArticle.mockResolvedValue(createTestArticle("art_9"));
+
+      const sync = new DocsieSync(mockDocsieClient as any, mockMavenUploader as any, {
+        stateStore,
+      });
+      const result = await sync.syncArticles([{ articleId: "art_9", deleted: false }], {
+        tags: ["api"],
+      });
+
+      expect(result).toMatchObject({ articles: 0, uploaded: 0, deleted: 0 });
+      expect(mockUpload).not.toHaveBeenCalled();
+      expect(mockDelete).not.toHaveBeenCalled();
+    });
+  });
 });
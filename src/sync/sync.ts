@@ -3,114 +3,926 @@
  *
  * Fetches articles from Docsie, transforms to Maven format,
  * and uploads to Maven knowledge base.
+ *
+ * When a sync state store is provided, only articles whose documents changed
+ * since the last successful upload are sent to Maven (compared by their
+ * canonical hash, so new revisions without real changes are skipped), and
+ * documents for articles that were deleted or emptied in Docsie are removed.
+ *
+ * With chunking enabled an article may map to several Maven documents; the
+ * state records their reference IDs so chunks for removed sections are
+ * deleted as well.
+ *
+ * Only the selected versions of each book are synced (the primary version
+ * by default). When several versions or languages are synced, articles are
+ * keyed in Maven and the sync state as `<articleId>~<version>@<code>`
+ * (see keys.ts).
+ *
+ * syncArticles runs the same steps for a few articles only, e.g. when Docsie
+ * reports a change through a webhook.
+ *
+ * Writes go into a new knowledge base version that is finalized only when
+ * every document was written or rejected as invalid: a run with other failed
+ * documents (network, 5xx, rate limits) discards its version (the previous
+ * one stays active), keeps the previous sync state and reports the failures
+ * with `versionDiscarded` set. Rejected documents are reported as `rejected`
+ * and retried next run, without holding back the rest.
+ * Versions are always PARTIAL: a FULL version would remove documents that
+ * other profiles or language targets wrote into the same knowledge base.
  */
 
 import type { DocsieClient } from "../docsie/client.js";
-import type { DocsieArticle } from "../docsie/types.js";
-import type { MavenUploader, UploadError } from "../maven/uploader.js";
-import { transformToMavenFormat } from "../maven/transform.js";
+import type { DocsieArticle, DocsieBook, DocsieWorkspace } from "../docsie/types.js";
+import { createUrlResolver, type UrlOptions } from "../docsie/urls.js";
+import type { MavenUploader, UploadError, UploadResult } from "../maven/uploader.js";
+import { NotFoundError, type ErrorCategory } from "../utils/errors.js";
+import { resolveArticleContext } from "../docsie/context.js";
+import { defaultLogger, type Logger } from "../utils/logger.js";
+import { canonicalHash, type MavenKnowledgeDocument } from "../maven/transform.js";
+import { chunkArticle, type ChunkOptions } from "../maven/chunk.js";
+import {
+  hashContent,
+  referenceIdsOf,
+  type SyncStateEntry,
+  type SyncStateStore,
+} from "./state.js";
+import {
+  fetchScopedArticles,
+  filterWorkspaces,
+  matchesLanguage,
+  matchesTags,
+  resolveBooks,
+  type SyncScope,
+} from "./scope.js";
+import {
+  articleKey,
+  LANGUAGE_SEPARATOR,
+  VERSION_SEPARATOR,
+  type ArticleKeyOptions,
+} from "./keys.js";
+import {
+  DEFAULT_VERSION_OPTIONS,
+  fetchBookVersions,
+  syncsMultipleVersions,
+  type VersionOptions,
+} from "./versions.js";
+
+/** Per-run sync options; scope filters are all optional (everything if empty) */
+export interface SyncConfig extends SyncScope {
+  /** Plan the sync without writing anything to Maven or the sync state */
+  dryRun?: boolean;
+  /** Continue an interrupted upload from the uploader's checkpoint */
+  resume?: boolean;
+  /**
+   * Upload every article, even those unchanged since the last sync (a full
+   * sync also re-keys the documents when the article keys changed)
+   */
+  force?: boolean;
+  /** Stops the sync before its next Maven write batch when aborted */
+  signal?: AbortSignal;
+}
+
+export type SyncAction = "create" | "update" | "unchanged" | "skip" | "delete";
+
+/** An article reported as changed, for a targeted sync */
+export interface ArticleChange {
+  articleId: string;
+  /** Deleted in Docsie: its documents are removed without fetching it */
+  deleted: boolean;
+}
+
+/** Intended action for one Maven document, as decided before any writes */
+export interface SyncPlanEntry {
+  /** Article key: the article ID, with version/language suffixes when needed (see keys.ts) */
+  articleId: string;
+  referenceId: string;
+  action: SyncAction;
+  title: string;
+  /** Length of the Markdown content that would be uploaded */
+  contentLength: number;
+  /** Why the article is skipped, unchanged or deleted */
+  reason?: string;
+  /** Target knowledge base, when languages are routed to several */
+  knowledgeBaseId?: string;
+  /** Whether the Maven write succeeded (real runs only; unset if not attempted) */
+  status?: "succeeded" | "failed";
+  /** Time spent writing the document, including retries */
+  durationMs?: number;
+  /** Maven calls made for the document (more than 1 when retried) */
+  attempts?: number;
+  error?: string;
+  errorCategory?: ErrorCategory;
+}
 
-export interface SyncConfig {
-  /** Optional workspace IDs to filter by (all if not specified) */
-  workspaceIds?: string[];
+export interface DocsieSyncOptions {
+  /** Persisted state used to skip unchanged articles (full sync if omitted) */
+  stateStore?: SyncStateStore;
+  /**
+   * Abort the sync if reconciliation would delete more than this percentage
+   * of previously synced articles (default: 20)
+   */
+  maxDeletePercent?: number;
+  /** Split long articles into several documents (one document per article if omitted) */
+  chunking?: ChunkOptions;
+  /** How public article URLs are built */
+  urls?: UrlOptions;
+  /** Fetch and sync every language of each book separately */
+  allLanguages?: boolean;
+  /** Which versions of each book to sync (default: the primary version) */
+  versions?: VersionOptions;
+  logger?: Logger;
 }
 
+const DEFAULT_MAX_DELETE_PERCENT = 20;
+
 export interface SyncResult {
   workspaces: number;
   articles: number;
   uploaded: number;
   failed: number;
   skipped: number;
+  /** Articles not uploaded because their hash matches the sync state */
+  unchanged: number;
+  /** Maven documents removed because their article was deleted or emptied */
+  deleted: number;
   errors: UploadError[];
   durationMs: number;
+  /** True when nothing was written (plan only) */
+  dryRun: boolean;
+  /** Per-document actions decided for this run */
+  plan: SyncPlanEntry[];
+  /** Some writes failed, so the run's knowledge base version was discarded */
+  versionDiscarded?: boolean;
+  /** Failed writes Maven rejected as invalid (counted in `failed` as well) */
+  rejected?: number;
+}
+
+interface PendingUpload {
+  article: DocsieArticle;
+  /** Sync state key and base reference ID (see keyOf) */
+  key: string;
+  documents: MavenKnowledgeDocument[];
+  contentHash: string;
+  action: Extract<SyncAction, "create" | "update" | "unchanged">;
+}
+
+/** Maven document scheduled for deletion, with the article it belonged to */
+interface PendingDelete {
+  articleId: string;
+  referenceId: string;
+  title: string;
+  reason: string;
 }
 
 export class DocsieSync {
   private readonly docsieClient: DocsieClient;
   private readonly mavenUploader: MavenUploader;
+  private readonly stateStore?: SyncStateStore;
+  private readonly maxDeletePercent: number;
+  private readonly chunking: ChunkOptions;
+  private readonly urls: UrlOptions;
+  private readonly allLanguages: boolean;
+  private readonly versions: VersionOptions;
+  private readonly logger: Logger;
 
-  constructor(docsieClient: DocsieClient, mavenUploader: MavenUploader) {
+  constructor(
+    docsieClient: DocsieClient,
+    mavenUploader: MavenUploader,
+    options: DocsieSyncOptions = {}
+  ) {
     this.docsieClient = docsieClient;
     this.mavenUploader = mavenUploader;
+    this.stateStore = options.stateStore;
+    this.maxDeletePercent = options.maxDeletePercent ?? DEFAULT_MAX_DELETE_PERCENT;
+    this.chunking = options.chunking ?? {};
+    this.urls = options.urls ?? {};
+    this.allLanguages = options.allLanguages ?? false;
+    this.versions = options.versions ?? DEFAULT_VERSION_OPTIONS;
+    this.logger = options.logger ?? defaultLogger;
   }
 
   /**
    * Sync all articles from Docsie to Maven
    */
-  async syncAll(_config: SyncConfig = {}): Promise<SyncResult> {
+  async syncAll(config: SyncConfig = {}): Promise<SyncResult> {
     const startTime = Date.now();
+    const dryRun = config.dryRun ?? false;
+    const result = emptyResult(dryRun);
 
-    const result: SyncResult = {
-      workspaces: 0,
-      articles: 0,
-      uploaded: 0,
-      failed: 0,
-      skipped: 0,
-      errors: [],
-      durationMs: 0,
-    };
-
-    // Fetch workspaces for reporting
-    console.log("Fetching workspaces from Docsie...");
+    // Fetch workspaces for reporting and scope resolution
+    this.logger.info("Fetching workspaces from Docsie...");
     const workspaces = await this.docsieClient.getWorkspaces();
-    result.workspaces = workspaces.length;
-    console.log(`Found ${workspaces.length} workspace(s)`);
+    result.workspaces = filterWorkspaces(workspaces, config).length;
+    this.logger.info(`Found ${workspaces.length} workspace(s)`, {
+      workspaces: workspaces.length,
+    });
 
-    // Fetch all articles directly (API returns articles across all workspaces)
-    console.log("Fetching all articles...");
-    const allArticles = await this.docsieClient.getArticles();
-    console.log(`Found ${allArticles.length} articles`);
+    // Without scope filters this lists every article across all workspaces
+    this.logger.info("Fetching articles...");
+    const allArticles = await fetchScopedArticles(
+      this.docsieClient,
+      config,
+      workspaces,
+      { versions: this.versions, allLanguages: this.allLanguages, logger: this.logger }
+    );
+    this.logger.info(`Found ${allArticles.length} articles`, { articles: allArticles.length });
 
     // Filter out articles with no content
     const articlesWithContent: DocsieArticle[] = [];
-    let skipped = 0;
+    const emptyArticles: DocsieArticle[] = [];
 
     for (const article of allArticles) {
-      const hasBlocks =
-        article.doc &&
-        article.doc.blocks &&
-        article.doc.blocks.length > 0;
+      if (hasContent(article)) {
+        articlesWithContent.push(article);
+      } else {
+        emptyArticles.push(article);
+      }
+    }
+
+    result.articles = articlesWithContent.length;
+    result.skipped = emptyArticles.length;
 
-      if (hasBlocks) {
+    if (emptyArticles.length > 0) {
+      this.logger.info(`Skipped ${emptyArticles.length} articles with no content`);
+    }
+
+    // Previously uploaded articles that were deleted or emptied in Docsie
+    if (this.stateStore) {
+      await this.stateStore.load();
+    }
+    const rekeyed = this.checkKeys(dryRun, config.force ?? false);
+    const orphanIds = this.findOrphans(articlesWithContent);
+    // Re-keying deletes every document under its old key on purpose
+    const thresholdError = rekeyed ? null : this.checkDeleteThreshold(orphanIds.length);
+    if (thresholdError) {
+      if (!dryRun) {
+        throw new Error(thresholdError);
+      }
+      this.logger.warn(`Warning: a real run would abort. ${thresholdError}`, {
+        deletes: orphanIds.length,
+      });
+    }
+
+    // Transform all articles to Maven format
+    const pending = await this.prepare(articlesWithContent, workspaces);
+
+    // Decide what happens to each article; unchanged ones are not re-uploaded
+    this.classifyChanges(pending, config.force ?? false);
+    const deletes = [
+      ...this.planOrphanDeletes(orphanIds, emptyArticles),
+      ...this.planStaleChunkDeletes(pending),
+    ];
+    result.plan = this.buildPlan(pending, emptyArticles, deletes);
+
+    return this.write(pending, deletes, result, config, startTime);
+  }
+
+  /**
+   * Sync only the given articles (e.g. reported by a Docsie webhook)
+   *
+   * Each article is fetched again and uploaded if it changed since the last
+   * sync. Its documents are deleted when it was deleted, lost its content or
+   * is no longer in scope. An article is synced in the version and language
+   * Docsie returns it in; other versions and translations are left to the
+   * next full sync. Deletes need the sync state to find the documents.
+   */
+  async syncArticles(changes: ArticleChange[], config: SyncConfig = {}): Promise<SyncResult> {
+    const startTime = Date.now();
+    const result = emptyResult(config.dryRun ?? false);
+
+    if (this.stateStore) {
+      await this.stateStore.load();
+    }
+    // Re-keying needs every article, so it is left to a full sync
+    this.checkKeys(result.dryRun, false);
+    const workspaces = await this.docsieClient.getWorkspaces();
+    result.workspaces = filterWorkspaces(workspaces, config).length;
+    const books = await resolveBooks(this.docsieClient, config, workspaces);
+
+    const articlesWithContent: DocsieArticle[] = [];
+    const emptyArticles: DocsieArticle[] = [];
+    const orphanIds = new Set<string>();
+
+    for (const { articleId, deleted } of changes) {
+      const article = deleted ? undefined : await this.fetchArticle(articleId);
+      if (!article) {
+        // Every version and translation synced for it
+        this.stateKeysOf(articleId).forEach((key) => orphanIds.add(key));
+      } else if (!(await this.inScope(article, config, books))) {
+        this.logger.info(`Article ${articleId} is not in scope`, { articleId });
+        orphanIds.add(this.keyOf(article));
+      } else if (hasContent(article)) {
         articlesWithContent.push(article);
       } else {
-        skipped++;
+        emptyArticles.push(article);
+        orphanIds.add(this.keyOf(article));
       }
     }
 
     result.articles = articlesWithContent.length;
-    result.skipped = skipped;
+    result.skipped = emptyArticles.length;
+
+    const pending = await this.prepare(articlesWithContent, workspaces);
+    this.classifyChanges(pending, config.force ?? false);
+    const deletes = [
+      ...this.planOrphanDeletes(
+        [...orphanIds].filter((key) => this.stateStore?.get(key)),
+        emptyArticles
+      ),
+      ...this.planStaleChunkDeletes(pending),
+    ];
+    result.plan = this.buildPlan(pending, emptyArticles, deletes);
 
-    if (skipped > 0) {
-      console.log(`Skipped ${skipped} articles with no content`);
+    return this.write(pending, deletes, result, config, startTime);
+  }
+
+  /**
+   * Transform articles to Maven documents, to be uploaded as new articles
+   * until classifyChanges compares them with the sync state
+   */
+  private async prepare(
+    articles: DocsieArticle[],
+    workspaces: DocsieWorkspace[]
+  ): Promise<PendingUpload[]> {
+    if (articles.length === 0) {
+      return [];
     }
 
-    if (articlesWithContent.length === 0) {
-      console.log("No articles with content to sync");
+    this.logger.info("Transforming articles to Maven format...");
+    const urlResolver = await createUrlResolver(
+      this.docsieClient,
+      workspaces,
+      this.urls,
+      this.logger
+    );
+    return articles.map((article) => {
+      const key = this.keyOf(article);
+      const documents = chunkArticle(article, this.chunking, {
+        url: urlResolver.resolve(article),
+        referenceId: key,
+      });
+      return {
+        article,
+        key,
+        documents,
+        contentHash: hashDocuments(documents),
+        action: "create",
+      };
+    });
+  }
+
+  /**
+   * Upload new and changed articles, then delete orphaned documents and
+   * stale chunks, recording the outcomes in the result and the sync state
+   */
+  private async write(
+    pending: PendingUpload[],
+    deletes: PendingDelete[],
+    result: SyncResult,
+    config: SyncConfig,
+    startTime: number
+  ): Promise<SyncResult> {
+    for (const { articleId, referenceId, action, reason } of result.plan) {
+      this.logger.debug(`${action} ${referenceId}`, { articleId, referenceId, action, reason });
+    }
+
+    const toUpload = pending.filter((p) => p.action !== "unchanged");
+    const uploadDocuments = toUpload.flatMap((p) => p.documents);
+    result.unchanged = pending.length - toUpload.length;
+
+    if (result.unchanged > 0) {
+      this.logger.info(`Skipping ${result.unchanged} unchanged articles`);
+    }
+
+    if (result.dryRun) {
+      this.logger.info(
+        `Dry run: would upload ${uploadDocuments.length} and delete ${deletes.length} documents; nothing was written`
+      );
       result.durationMs = Date.now() - startTime;
       return result;
     }
 
-    console.log(`Articles to sync: ${articlesWithContent.length}`);
+    if (pending.length === 0 && deletes.length === 0) {
+      this.logger.info("No articles with content to sync");
+      result.durationMs = Date.now() - startTime;
+      return result;
+    }
 
-    // Transform all articles to Maven format
-    console.log("Transforming articles to Maven format...");
-    const mavenDocs = articlesWithContent.map(transformToMavenFormat);
+    this.logger.info(`Articles to sync: ${pending.length}`);
+
+    if (toUpload.length > 0 || deletes.length > 0) {
+      await this.mavenUploader.beginVersion("PARTIAL", {
+        resume: config.resume ?? false,
+      });
+    }
+    try {
+      if (toUpload.length > 0) {
+        // Upload to Maven
+        config.signal?.throwIfAborted();
+        this.logger.info("Uploading to Maven...");
+        const uploadResult = await this.mavenUploader.upload(uploadDocuments, {
+          resume: config.resume ?? false,
+          signal: config.signal,
+        });
+
+        result.uploaded = uploadResult.success;
+        result.failed = uploadResult.failed;
+        result.errors = uploadResult.errors;
 
-    // Upload to Maven
-    console.log("Uploading to Maven...");
-    const uploadResult = await this.mavenUploader.upload(mavenDocs);
+        this.recordUploads(toUpload, uploadResult.errors);
+        recordOutcomes(result.plan, ["create", "update"], uploadResult);
+      } else {
+        this.logger.info("All articles are up to date");
+      }
+
+      // Reconcile: remove orphaned documents and stale chunks from Maven.
+      // Stale chunks of articles whose upload failed stay until the retry succeeds.
+      const failedArticleIds = this.failedArticleIds(toUpload, result.errors);
+      const toDelete = deletes.filter((d) => !failedArticleIds.has(d.articleId));
+      if (toDelete.length > 0) {
+        config.signal?.throwIfAborted();
+        this.logger.info(`Deleting ${toDelete.length} orphaned documents from Maven...`);
+        const deleteResult = await this.mavenUploader.delete(
+          toDelete.map((d) => d.referenceId)
+        );
+
+        result.deleted = deleteResult.success;
+        result.failed += deleteResult.failed;
+        result.errors.push(...deleteResult.errors);
+
+        this.recordDeletes(toDelete, deleteResult.errors);
+        recordOutcomes(result.plan, ["delete"], deleteResult);
+      }
+    } catch (error) {
+      await this.mavenUploader.abandonVersion(error, config.signal?.aborted ?? false);
+      throw error;
+    }
 
-    result.uploaded = uploadResult.success;
-    result.failed = uploadResult.failed;
-    result.errors = uploadResult.errors;
+    // Invalid documents fail the same way every run: they must not hold back the rest
+    const rejected = result.errors.filter((e) => e.category === "validation").length;
+    if (rejected > 0) {
+      result.rejected = rejected;
+      this.logger.warn(`${rejected} document(s) rejected by Maven as invalid`, { rejected });
+    }
+
+    if (result.failed > rejected) {
+      const message = `${result.failed - rejected} document write(s) failed`;
+      await this.mavenUploader.finishVersion(false, message);
+      // Forget the writes of the discarded version, so the next run repeats them
+      await this.stateStore?.load();
+      result.versionDiscarded = true;
+      this.logger.error(`${message}; knowledge base version discarded`, {
+        failed: result.failed,
+      });
+    } else {
+      await this.mavenUploader.finishVersion(true);
+      if (this.stateStore) {
+        this.stateStore.keys = this.keyOptions();
+        await this.stateStore.save();
+      }
+    }
 
     result.durationMs = Date.now() - startTime;
 
-    console.log(
-      `Sync complete: ${result.uploaded} uploaded, ${result.failed} failed, ${result.skipped} skipped in ${result.durationMs}ms`
+    this.logger.info(
+      `Sync complete: ${result.uploaded} uploaded, ${result.unchanged} unchanged, ${result.deleted} deleted, ${result.failed} failed, ${result.skipped} skipped in ${result.durationMs}ms`,
+      {
+        uploaded: result.uploaded,
+        unchanged: result.unchanged,
+        deleted: result.deleted,
+        failed: result.failed,
+        skipped: result.skipped,
+        durationMs: result.durationMs,
+      }
     );
 
     return result;
   }
+
+  /**
+   * Describe the intended action for every article the run touches
+   */
+  private buildPlan(
+    pending: PendingUpload[],
+    emptyArticles: DocsieArticle[],
+    deletes: PendingDelete[]
+  ): SyncPlanEntry[] {
+    const plan: SyncPlanEntry[] = pending.flatMap(({ key, documents, action }) =>
+      documents.map((document) => ({
+        articleId: key,
+        referenceId: document.knowledgeDocumentId.referenceId,
+        action,
+        title: document.title,
+        contentLength: document.content.length,
+        ...(action === "unchanged" && { reason: "content unchanged" }),
+      }))
+    );
+
+    for (const article of emptyArticles) {
+      plan.push({
+        articleId: this.keyOf(article),
+        referenceId: this.keyOf(article),
+        action: "skip",
+        title: article.name,
+        contentLength: 0,
+        reason: "no content",
+      });
+    }
+
+    for (const { articleId, referenceId, title, reason } of deletes) {
+      plan.push({
+        articleId,
+        referenceId,
+        action: "delete",
+        title,
+        contentLength: 0,
+        reason,
+      });
+    }
+
+    return plan;
+  }
+
+  /**
+   * Every Maven document of articles that were deleted or emptied in Docsie
+   */
+  private planOrphanDeletes(
+    orphanIds: string[],
+    emptyArticles: DocsieArticle[]
+  ): PendingDelete[] {
+    const emptyById = new Map(emptyArticles.map((a) => [this.keyOf(a), a]));
+
+    return orphanIds.flatMap((articleId) => {
+      const emptied = emptyById.get(articleId);
+      const reason = emptied
+        ? "article no longer has content"
+        : "article deleted in Docsie or out of scope";
+
+      return referenceIdsOf(articleId, this.stateStore?.get(articleId)).map(
+        (referenceId) => ({
+          articleId,
+          referenceId,
+          title: emptied?.name ?? "",
+          reason,
+        })
+      );
+    });
+  }
+
+  /**
+   * Previously uploaded chunks that an article no longer produces
+   * (a section was removed or renamed, or chunking settings changed)
+   */
+  private planStaleChunkDeletes(pending: PendingUpload[]): PendingDelete[] {
+    if (!this.stateStore) {
+      return [];
+    }
+
+    return pending.flatMap(({ article, key, documents }) => {
+      const previous = this.stateStore!.get(key);
+      if (!previous) {
+        return [];
+      }
+
+      const current = new Set(documents.map((d) => d.knowledgeDocumentId.referenceId));
+      return referenceIdsOf(key, previous)
+        .filter((referenceId) => !current.has(referenceId))
+        .map((referenceId) => ({
+          articleId: key,
+          referenceId,
+          title: article.name,
+          reason: "section no longer in article",
+        }));
+    });
+  }
+
+  /**
+   * IDs in the sync state that are no longer present (with content) in Docsie
+   */
+  private findOrphans(articlesWithContent: DocsieArticle[]): string[] {
+    if (!this.stateStore) {
+      return [];
+    }
+
+    const currentIds = new Set(articlesWithContent.map((a) => this.keyOf(a)));
+    return this.stateStore.ids().filter((id) => !currentIds.has(id));
+  }
+
+  /**
+   * Sync must abort before any writes if reconciliation would delete too much
+   * of the KB. Guards against wiping Maven when Docsie returns a truncated
+   * article list. Counts articles on both sides (an article may have several
+   * chunk documents). Returns the abort reason, or null when within the threshold.
+   */
+  private checkDeleteThreshold(orphanCount: number): string | null {
+    if (!this.stateStore || orphanCount === 0) {
+      return null;
+    }
+
+    const percent = (orphanCount / this.stateStore.size) * 100;
+    if (percent <= this.maxDeletePercent) {
+      return null;
+    }
+
+    return (
+      `Refusing to delete ${orphanCount} of ${this.stateStore.size} synced articles ` +
+      `(${percent.toFixed(1)}%): exceeds the ${this.maxDeletePercent}% delete threshold`
+    );
+  }
+
+  /**
+   * Whether the sync state keys articles differently from this run: the
+   * version policy switched between one and several versions (every key
+   * changes), or the language mode was turned off (translation keys go away;
+   * turning it on keeps the primary language's keys). The documents would be
+   * re-created under new reference IDs and the old ones deleted, which only a
+   * forced run does.
+   *
+   * @throws Error when the keys changed and the run is not forced (dry runs warn)
+   */
+  private checkKeys(dryRun: boolean, force: boolean): boolean {
+    const previous = this.stateStore?.keys;
+    const current = this.keyOptions();
+    if (
+      !previous ||
+      this.stateStore!.size === 0 ||
+      (!!previous.versions === current.versions && (!previous.languages || current.languages))
+    ) {
+      return false;
+    }
+
+    const change =
+      `Article keys changed since the last sync ` +
+      `(from ${describeKeys(previous)} to ${describeKeys(current)})`;
+    if (force) {
+      this.logger.warn(`${change}: replacing all ${this.stateStore!.size} synced articles`, {
+        articles: this.stateStore!.size,
+      });
+      return true;
+    }
+
+    const message =
+      `${change}: every synced document would be replaced under a new reference ID. ` +
+      `Run a full sync with --force to replace them, ` +
+      `or clear the sync state ${this.stateStore!.filePath}`;
+    if (!dryRun) {
+      throw new Error(message);
+    }
+    this.logger.warn(`Warning: a real run would abort. ${message}`);
+    return true;
+  }
+
+  /**
+   * Mark each article as create, update or unchanged against the sync state.
+   * Without a state store every article is treated as a create; forced, no
+   * article is unchanged.
+   */
+  private classifyChanges(pending: PendingUpload[], force: boolean): void {
+    if (!this.stateStore) {
+      return;
+    }
+
+    for (const item of pending) {
+      const previous = this.stateStore.get(item.key);
+      if (!previous) {
+        item.action = "create";
+      } else if (force || previous.contentHash !== item.contentHash) {
+        item.action = "update";
+      } else {
+        item.action = "unchanged";
+      }
+    }
+  }
+
+  /**
+   * Record successfully uploaded articles in the sync state
+   */
+  private recordUploads(uploaded: PendingUpload[], errors: UploadError[]): void {
+    if (!this.stateStore) {
+      return;
+    }
+
+    const failedArticleIds = this.failedArticleIds(uploaded, errors);
+    const syncedAt = new Date().toISOString();
+
+    for (const { article, key, documents, contentHash } of uploaded) {
+      if (failedArticleIds.has(key)) {
+        continue;
+      }
+
+      // Keep chunks that are still due for deletion so they are retried
+      const previous = this.stateStore.get(key);
+      const referenceIds = documents.map((d) => d.knowledgeDocumentId.referenceId);
+      for (const id of previous ? referenceIdsOf(key, previous) : []) {
+        if (!referenceIds.includes(id)) {
+          referenceIds.push(id);
+        }
+      }
+
+      this.stateStore.set(key, withReferenceIds(key, referenceIds, {
+        revision: article.revision,
+        contentHash,
+        syncedAt,
+      }));
+    }
+  }
+
+  /**
+   * Forget successfully deleted documents in the sync state; articles are
+   * dropped once none of their orphaned documents remain
+   */
+  private recordDeletes(deleted: PendingDelete[], errors: UploadError[]): void {
+    if (!this.stateStore) {
+      return;
+    }
+
+    const deletedIds = new Set(deleted.map((d) => d.referenceId));
+    const failedIds = new Set(errors.map((e) => e.docId));
+
+    for (const articleId of new Set(deleted.map((d) => d.articleId))) {
+      const entry = this.stateStore.get(articleId);
+      if (!entry) {
+        continue;
+      }
+
+      const remaining = referenceIdsOf(articleId, entry).filter(
+        (id) => !deletedIds.has(id) || failedIds.has(id)
+      );
+      if (remaining.length === 0) {
+        this.stateStore.delete(articleId);
+      } else {
+        this.stateStore.set(articleId, withReferenceIds(articleId, remaining, entry));
+      }
+    }
+  }
+
+  /**
+   * Keys (see keyOf) of articles with at least one document that failed to upload
+   */
+  private failedArticleIds(
+    uploaded: PendingUpload[],
+    errors: UploadError[]
+  ): Set<string> {
+    const failedIds = new Set(errors.map((e) => e.docId));
+    return new Set(
+      uploaded
+        .filter(({ documents }) =>
+          documents.some((d) => failedIds.has(d.knowledgeDocumentId.referenceId))
+        )
+        .map(({ key }) => key)
+    );
+  }
+
+  /**
+   * Fetch an article with its relations (undefined if deleted in Docsie)
+   */
+  private async fetchArticle(articleId: string): Promise<DocsieArticle | undefined> {
+    try {
+      return await this.docsieClient.getArticle(articleId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a full sync would include an article: its book passes the
+   * hierarchy filters (`books` is undefined without any), its version is
+   * selected by the version policy, and it passes the tag and language filters
+   */
+  private async inScope(
+    article: DocsieArticle,
+    scope: SyncScope,
+    books: DocsieBook[] | undefined
+  ): Promise<boolean> {
+    if (!matchesTags(article, scope) || !matchesLanguage(article, scope)) {
+      return false;
+    }
+
+    const { book, version } = resolveArticleContext(article);
+    if (!book) {
+      return books === undefined;
+    }
+    if (books && !books.some((b) => b.id === book.id)) {
+      return false;
+    }
+
+    const versions = await fetchBookVersions(this.docsieClient, book.id, this.versions);
+    return !version || versions.length === 0 || versions.some((v) => v.id === version.id);
+  }
+
+  /**
+   * Sync state keys of every version and translation of an article
+   */
+  private stateKeysOf(articleId: string): string[] {
+    return (this.stateStore?.ids() ?? []).filter(
+      (key) =>
+        key === articleId ||
+        key.startsWith(`${articleId}${VERSION_SEPARATOR}`) ||
+        key.startsWith(`${articleId}${LANGUAGE_SEPARATOR}`)
+    );
+  }
+
+  /**
+   * Sync state key and base reference ID of an article; versions and
+   * translations are only told apart when several of them are synced
+   */
+  private keyOf(article: DocsieArticle): string {
+    return articleKey(article, this.keyOptions());
+  }
+
+  private keyOptions(): Required<ArticleKeyOptions> {
+    return { versions: syncsMultipleVersions(this.versions), languages: this.allLanguages };
+  }
+}
+
+/**
+ * How articles are keyed, for messages ("article ID", "article ID + version")
+ */
+function describeKeys(options: ArticleKeyOptions): string {
+  return ["article ID", options.versions && "version", options.languages && "language"]
+    .filter(Boolean)
+    .join(" + ");
+}
+
+/**
+ * Copy per-document outcomes of an upload or delete onto the plan entries
+ * with the given actions
+ */
+function recordOutcomes(
+  plan: SyncPlanEntry[],
+  actions: SyncAction[],
+  result: UploadResult
+): void {
+  const outcomes = new Map(result.outcomes?.map((o) => [o.docId, o]));
+  const errors = new Map(result.errors.map((e) => [e.docId, e]));
+
+  for (const entry of plan) {
+    const outcome = outcomes.get(entry.referenceId);
+    if (!outcome || !actions.includes(entry.action)) {
+      continue;
+    }
+
+    const error = errors.get(entry.referenceId);
+    entry.status = outcome.success ? "succeeded" : "failed";
+    entry.durationMs = outcome.durationMs;
+    entry.attempts = outcome.attempts;
+    if (error) {
+      entry.error = error.error;
+      if (error.category) {
+        entry.errorCategory = error.category;
+      }
+    }
+  }
+}
+
+function emptyResult(dryRun: boolean): SyncResult {
+  return {
+    workspaces: 0,
+    articles: 0,
+    uploaded: 0,
+    failed: 0,
+    skipped: 0,
+    unchanged: 0,
+    deleted: 0,
+    errors: [],
+    durationMs: 0,
+    dryRun,
+    plan: [],
+  };
+}
+
+function hasContent(article: DocsieArticle): boolean {
+  return Boolean(article.doc?.blocks && article.doc.blocks.length > 0);
+}
+
+/**
+ * Hash an article's documents; a single unsplit document hashes as itself
+ */
+function hashDocuments(documents: MavenKnowledgeDocument[]): string {
+  if (documents.length === 1) {
+    return canonicalHash(documents[0]);
+  }
+  return hashContent(
+    JSON.stringify(
+      documents.map((d) => [d.knowledgeDocumentId.referenceId, canonicalHash(d)])
+    )
+  );
+}
+
+/**
+ * Set the entry's reference IDs, omitting them when they are just the article ID
+ */
+function withReferenceIds(
+  articleId: string,
+  referenceIds: string[],
+  entry: SyncStateEntry
+): SyncStateEntry {
+  const { referenceIds: _previous, ...rest } = entry;
+  if (referenceIds.length === 1 && referenceIds[0] === articleId) {
+    return rest;
+  }
+  return { ...rest, referenceIds };
 }
@@ -109,6 +109,15 @@ describe("validateMavenConnection", () => {
     expect(result.success).toBe(false);
     expect(result.error).toContain("Not found");
   });
+  it("should succeed when the knowledge base does not exist yet", async () => {
+    mockGetKnowledgeBase.mockRejectedValue(
+      Object.assign(new Error("Not found"), { statusCode: 404 })
+    );
+
+    const result = await validateMavenConnection(mockMavenClient as any, "kb-1");
+
+    expect(result).toEqual({ success: true, missing: true });
+  });
 });
 
 describe("runValidation", () => {
@@ -7,6 +7,9 @@
 
 import type { DocsieClient } from "../docsie/client.js";
 import type { MavenAGIClient } from "mavenagi";
+import { toMavenError } from "../maven/errors.js";
+import { NotFoundError } from "../utils/errors.js";
+import { defaultLogger, type Logger } from "../utils/logger.js";
 
 export interface DocsieValidationResult {
   success: boolean;
@@ -20,6 +23,8 @@ export interface DocsieValidationResult {
 export interface MavenValidationResult {
   success: boolean;
   knowledgeBaseName?: string;
+  /** The knowledge base does not exist yet; the first sync creates it */
+  missing?: boolean;
   error?: string;
 }
 
@@ -34,32 +39,39 @@ export interface ValidationResult {
 export interface ValidationOptions {
   /** Expected article count (for verification) */
   expectedArticleCount?: number;
+  logger?: Logger;
 }
 
 /**
  * Validate Docsie API connection and count resources
  */
 export async function validateDocsieConnection(
-  client: DocsieClient
+  client: DocsieClient,
+  logger: Logger = defaultLogger
 ): Promise<DocsieValidationResult> {
   try {
-    console.log("Validating Docsie connection...");
+    logger.info("Validating Docsie connection...");
 
     const workspaces = await client.getWorkspaces();
-    console.log(`Found ${workspaces.length} workspace(s)`);
+    logger.info(`Found ${workspaces.length} workspace(s)`, { workspaces: workspaces.length });
 
     for (const ws of workspaces) {
-      console.log(`  ${ws.name} (${ws.id}) - ${ws.shelves_count} shelves`);
+      logger.info(`  ${ws.name} (${ws.id}) - ${ws.shelves_count} shelves`, {
+        workspaceId: ws.id,
+        shelves: ws.shelves_count,
+      });
     }
 
     const documentation = await client.getDocumentation();
-    console.log(`Found ${documentation.length} documentation/shelves`);
+    logger.info(`Found ${documentation.length} documentation/shelves`, {
+      documentation: documentation.length,
+    });
 
     const books = await client.getBooks();
-    console.log(`Found ${books.length} non-deleted books`);
+    logger.info(`Found ${books.length} non-deleted books`, { books: books.length });
 
     const articles = await client.getArticles();
-    console.log(`Found ${articles.length} articles`);
+    logger.info(`Found ${articles.length} articles`, { articles: articles.length });
 
     return {
       success: true,
@@ -70,7 +82,7 @@ export async function validateDocsieConnection(
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    console.error(`Docsie validation failed: ${message}`);
+    logger.error(`Docsie validation failed: ${message}`, { error: message });
     return {
       success: false,
       error: message,
@@ -80,24 +92,34 @@ export async function validateDocsieConnection(
 
 /**
  * Validate Maven API connection
+ *
+ * A knowledge base that does not exist yet is fine: sync creates it.
  */
 export async function validateMavenConnection(
   client: MavenAGIClient,
-  knowledgeBaseId: string
+  knowledgeBaseId: string,
+  logger: Logger = defaultLogger
 ): Promise<MavenValidationResult> {
   try {
-    console.log("Validating Maven connection...");
+    logger.info("Validating Maven connection...");
 
     const kb = await client.knowledge.getKnowledgeBase(knowledgeBaseId);
-    console.log(`Knowledge base: ${kb.name}`);
+    logger.info(`Knowledge base: ${kb.name}`, { knowledgeBaseId });
 
     return {
       success: true,
       knowledgeBaseName: kb.name,
     };
   } catch (error) {
+    if (toMavenError(error, "getKnowledgeBase") instanceof NotFoundError) {
+      logger.info(`Knowledge base ${knowledgeBaseId} does not exist yet; sync creates it`, {
+        knowledgeBaseId,
+      });
+      return { success: true, missing: true };
+    }
+
     const message = error instanceof Error ? error.message : String(error);
-    console.error(`Maven validation failed: ${message}`);
+    logger.error(`Maven validation failed: ${message}`, { knowledgeBaseId, error: message });
     return {
       success: false,
       error: message,
@@ -114,13 +136,12 @@ export async function runValidation(
   knowledgeBaseId: string,
   options: ValidationOptions = {}
 ): Promise<ValidationResult> {
-  console.log("=== Running Pre-Sync Validation ===\n");
-
-  const docsie = await validateDocsieConnection(docsieClient);
+  const logger = options.logger ?? defaultLogger;
+  logger.info("=== Running Pre-Sync Validation ===\n");
 
-  console.log("");
+  const docsie = await validateDocsieConnection(docsieClient, logger);
 
-  const maven = await validateMavenConnection(mavenClient, knowledgeBaseId);
+  const maven = await validateMavenConnection(mavenClient, knowledgeBaseId, logger);
 
   const ready = docsie.success && maven.success;
 
@@ -128,16 +149,17 @@ export async function runValidation(
   if (options.expectedArticleCount !== undefined && docsie.articles !== undefined) {
     countMismatch = docsie.articles !== options.expectedArticleCount;
     if (countMismatch) {
-      console.log(
-        `\nWarning: Expected ${options.expectedArticleCount} articles, found ${docsie.articles}`
+      logger.warn(
+        `\nWarning: Expected ${options.expectedArticleCount} articles, found ${docsie.articles}`,
+        { expected: options.expectedArticleCount, articles: docsie.articles }
       );
     }
   }
 
-  console.log("\n=== Validation Summary ===");
-  console.log(`Docsie: ${docsie.success ? "OK" : "FAILED"}`);
-  console.log(`Maven: ${maven.success ? "OK" : "FAILED"}`);
-  console.log(`Ready to sync: ${ready ? "YES" : "NO"}`);
+  logger.info("\n=== Validation Summary ===");
+  logger.info(`Docsie: ${docsie.success ? "OK" : "FAILED"}`, { docsie: docsie.success });
+  logger.info(`Maven: ${maven.success ? "OK" : "FAILED"}`, { maven: maven.success });
+  logger.info(`Ready to sync: ${ready ? "YES" : "NO"}`, { ready });
 
   return {
     docsie,
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchBookVersions, selectVersions, syncsMultipleVersions } from "./versions.js";
+import type { DocsieVersion } from "../docsie/types.js";
+
+const version = (id: string, fields: Partial<DocsieVersion> = {}): DocsieVersion =>
+  ({ id, name: id, number: id.replace("ver_", ""), deleted: false, active: true, primary: false, ...fields }) as any;
+
+const versions = [
+  version("ver_1", { active: false }),
+  version("ver_2", { primary: true }),
+  version("ver_3"),
+  version("ver_4", { deleted: true }),
+];
+
+describe("selectVersions", () => {
+  it("should select only the primary version by default", () => {
+    expect(selectVersions(versions).map((v) => v.id)).toEqual(["ver_2"]);
+  });
+
+  it("should fall back to the first active version without a primary one", () => {
+    const noPrimary = versions.map((v) => ({ ...v, primary: false }));
+    expect(selectVersions(noPrimary).map((v) => v.id)).toEqual(["ver_2"]);
+  });
+
+  it("should select every active version", () => {
+    expect(selectVersions(versions, { policy: "active" }).map((v) => v.id)).toEqual([
+      "ver_2",
+      "ver_3",
+    ]);
+  });
+
+  it("should select pinned versions by number, name or ID", () => {
+    const selected = selectVersions(versions, { policy: "pinned", pinned: ["1", "ver_3", "4"] });
+    expect(selected.map((v) => v.id)).toEqual(["ver_1", "ver_3"]);
+  });
+});
+
+describe("fetchBookVersions", () => {
+  it("should only list active versions unless versions are pinned", async () => {
+    const client = { getVersions: vi.fn().mockResolvedValue(versions) };
+
+    await fetchBookVersions(client as any, "boo_1");
+    await fetchBookVersions(client as any, "boo_1", { policy: "pinned", pinned: ["1"] });
+
+    expect(client.getVersions).toHaveBeenNthCalledWith(1, "boo_1", true);
+    expect(client.getVersions).toHaveBeenNthCalledWith(2, "boo_1", false);
+  });
+});
+
+describe("syncsMultipleVersions", () => {
+  it("should be true for policies that can select several versions", () => {
+    expect(syncsMultipleVersions({ policy: "primary" })).toBe(false);
+    expect(syncsMultipleVersions({ policy: "active" })).toBe(true);
+    expect(syncsMultipleVersions({ policy: "pinned", pinned: ["2.0"] })).toBe(false);
+    expect(syncsMultipleVersions({ policy: "pinned", pinned: ["2.0", "3.0"] })).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Version Selection
+ *
+ * Decides which versions of each book are synced, so product versions do
+ * not produce near-identical duplicates in Maven:
+ *   - "primary": only the book's primary version (default)
+ *   - "active":  every active version
+ *   - "pinned":  the listed version numbers, names or IDs
+ */
+
+import type { DocsieClient } from "../docsie/client.js";
+import type { DocsieVersion } from "../docsie/types.js";
+
+export type VersionPolicy = "primary" | "active" | "pinned";
+
+export interface VersionOptions {
+  policy: VersionPolicy;
+  /** Version numbers, names or IDs to sync with the "pinned" policy */
+  pinned?: string[];
+}
+
+export const DEFAULT_VERSION_OPTIONS: VersionOptions = { policy: "primary" };
+
+/**
+ * Versions of a book to sync, listed via `/versions/?book=&active=`
+ *
+ * Pinned versions are looked up among all versions, so inactive ones
+ * can be pinned too.
+ */
+export async function fetchBookVersions(
+  client: DocsieClient,
+  bookId: string,
+  options: VersionOptions = DEFAULT_VERSION_OPTIONS
+): Promise<DocsieVersion[]> {
+  const versions = await client.getVersions(bookId, options.policy !== "pinned");
+  return selectVersions(versions, options);
+}
+
+/**
+ * Apply a version policy to a book's versions
+ *
+ * "primary" falls back to the first active version when none is marked
+ * primary, so a book is never dropped for lack of the flag.
+ */
+export function selectVersions(
+  versions: DocsieVersion[],
+  options: VersionOptions = DEFAULT_VERSION_OPTIONS
+): DocsieVersion[] {
+  const available = versions.filter((version) => !version.deleted);
+
+  switch (options.policy) {
+    case "active":
+      return available.filter((version) => version.active);
+    case "pinned": {
+      const pinned = options.pinned ?? [];
+      return available.filter((version) =>
+        [version.number, version.name, version.id].some((value) => pinned.includes(value))
+      );
+    }
+    case "primary": {
+      const primary = available.filter((version) => version.primary);
+      if (primary.length > 0) {
+        return primary;
+      }
+      return available.filter((version) => version.active).slice(0, 1);
+    }
+  }
+}
+
+/**
+ * Whether a policy can select more than one version of a book, in which
+ * case reference IDs carry the version
+ */
+export function syncsMultipleVersions(options: VersionOptions = DEFAULT_VERSION_OPTIONS): boolean {
+  return (
+    options.policy === "active" ||
+    (options.policy === "pinned" && (options.pinned?.length ?? 0) > 1)
+  );
+}
+
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  AuthError,
+  ConnectorError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
+  ValidationError,
+  categorize,
+  errorFromStatus,
+  exitCodeFor,
+  isRetryableError,
+} from "./errors.js";
+
+describe("errorFromStatus", () => {
+  it.each([
+    [401, AuthError],
+    [403, AuthError],
+    [404, NotFoundError],
+    [429, RateLimitedError],
+    [500, ServerError],
+    [502, ServerError],
+    [400, ValidationError],
+    [422, ValidationError],
+  ])("should map %i to %o", (status, ErrorClass) => {
+    const error = errorFromStatus(status, "failed", { endpoint: "/books/" });
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(ConnectorError);
+    expect(error.status).toBe(status);
+    expect(error.endpoint).toBe("/books/");
+  });
+
+  it("should keep Retry-After on rate limit errors", () => {
+    const error = errorFromStatus(429, "slow down", { retryAfterMs: 2000 });
+
+    expect((error as RateLimitedError).retryAfterMs).toBe(2000);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("should retry transient failures only", () => {
+    expect(isRetryableError(new RateLimitedError("429"))).toBe(true);
+    expect(isRetryableError(new ServerError("503"))).toBe(true);
+    expect(isRetryableError(new NetworkError("ECONNRESET"))).toBe(true);
+    expect(isRetryableError(new AuthError("401"))).toBe(false);
+    expect(isRetryableError(new NotFoundError("404"))).toBe(false);
+    expect(isRetryableError(new ValidationError("400"))).toBe(false);
+  });
+
+  it("should retry unclassified errors", () => {
+    expect(isRetryableError(new Error("boom"))).toBe(true);
+  });
+});
+
+describe("exitCodeFor", () => {
+  it("should give each category its own exit code", () => {
+    const errors = [
+      new Error("boom"),
+      new ValidationError("bad"),
+      new AuthError("401"),
+      new NotFoundError("404"),
+      new RateLimitedError("429"),
+      new ServerError("500"),
+      new NetworkError("down"),
+    ];
+
+    const codes = errors.map(exitCodeFor);
+
+    expect(new Set(codes).size).toBe(errors.length);
+    expect(exitCodeFor(new Error("boom"))).toBe(1);
+    expect(categorize(new AuthError("401"))).toBe("auth");
+  });
+});
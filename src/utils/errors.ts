@@ -0,0 +1,155 @@
+/**
+ * Connector error hierarchy
+ *
+ * Typed errors for Docsie and Maven failures. Each carries a category plus
+ * the HTTP status, endpoint and response body when known, so retries can
+ * skip permanent failures and the CLI can map failures to exit codes.
+ */
+
+export type ErrorCategory =
+  | "auth"
+  | "not_found"
+  | "rate_limited"
+  | "server"
+  | "network"
+  | "validation"
+  | "unknown";
+
+/** Transient failures; unclassified errors are retried too, as before */
+const RETRYABLE_CATEGORIES = new Set<ErrorCategory>([
+  "rate_limited",
+  "server",
+  "network",
+  "unknown",
+]);
+
+export interface ConnectorErrorOptions {
+  /** HTTP status code, if the failure came from a response */
+  status?: number;
+  /** Endpoint or operation that failed */
+  endpoint?: string;
+  /** Raw response body, if any */
+  responseBody?: unknown;
+  cause?: unknown;
+}
+
+export class ConnectorError extends Error {
+  readonly category: ErrorCategory = "unknown";
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly responseBody?: unknown;
+
+  constructor(message: string, options: ConnectorErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.responseBody = options.responseBody;
+  }
+
+  /** Whether repeating the same call can succeed */
+  get retryable(): boolean {
+    return RETRYABLE_CATEGORIES.has(this.category);
+  }
+}
+
+/** 401/403: credentials are missing, wrong or lack permission */
+export class AuthError extends ConnectorError {
+  override readonly category = "auth";
+}
+
+/** 404: the resource does not exist */
+export class NotFoundError extends ConnectorError {
+  override readonly category = "not_found";
+}
+
+/** 429: too many requests */
+export class RateLimitedError extends ConnectorError {
+  override readonly category = "rate_limited";
+  /** Delay requested by the server via Retry-After, in ms */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: ConnectorErrorOptions & { retryAfterMs?: number } = {}
+  ) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/** 5xx: the server failed */
+export class ServerError extends ConnectorError {
+  override readonly category = "server";
+}
+
+/** No response: connection refused, DNS failure, timeout, ... */
+export class NetworkError extends ConnectorError {
+  override readonly category = "network";
+}
+
+/** The request or configuration is invalid (400, 409, 422, bad settings) */
+export class ValidationError extends ConnectorError {
+  override readonly category = "validation";
+}
+
+/**
+ * Build the error class matching an HTTP status
+ */
+export function errorFromStatus(
+  status: number,
+  message: string,
+  options: Omit<ConnectorErrorOptions, "status"> & { retryAfterMs?: number } = {}
+): ConnectorError {
+  const withStatus = { ...options, status };
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, withStatus);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, withStatus);
+  }
+  if (status === 429) {
+    return new RateLimitedError(message, withStatus);
+  }
+  if (status >= 500) {
+    return new ServerError(message, withStatus);
+  }
+  if (status >= 400) {
+    return new ValidationError(message, withStatus);
+  }
+  return new ConnectorError(message, withStatus);
+}
+
+/**
+ * Retry predicate for withRetry: typed errors say whether they are transient;
+ * unclassified errors are retried
+ */
+export function isRetryableError(error: Error): boolean {
+  return error instanceof ConnectorError ? error.retryable : true;
+}
+
+/**
+ * Category of any thrown value
+ */
+export function categorize(error: unknown): ErrorCategory {
+  return error instanceof ConnectorError ? error.category : "unknown";
+}
+
+/** Process exit code per failure category */
+export const EXIT_CODES: Record<ErrorCategory, number> = {
+  unknown: 1,
+  validation: 2,
+  auth: 3,
+  not_found: 4,
+  rate_limited: 5,
+  server: 6,
+  network: 7,
+};
+
+/**
+ * Exit code for a failure
+ */
+export function exitCodeFor(error: unknown): number {
+  return EXIT_CODES[categorize(error)];
+}
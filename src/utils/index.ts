@@ -1,2 +1,42 @@
 export { withRetry } from "./retry.js";
-export type { RetryConfig } from "./retry.js";
+export type { RetryConfig, RetryPolicy } from "./retry.js";
+export {
+  createLogger,
+  textSink,
+  jsonSink,
+  defaultLogger,
+  LOG_LEVELS,
+  LOG_FORMATS,
+} from "./logger.js";
+export type {
+  Logger,
+  LoggerOptions,
+  LogLevel,
+  LogFormat,
+  LogFields,
+  LogRecord,
+  LogSink,
+} from "./logger.js";
+export {
+  MetricsRegistry,
+  createSyncMetrics,
+  writeMetricsFile,
+  DEFAULT_BUCKETS,
+  PROMETHEUS_CONTENT_TYPE,
+} from "./metrics.js";
+export type { Counter, Gauge, Histogram, MetricLabels, SyncMetrics } from "./metrics.js";
+export {
+  ConnectorError,
+  AuthError,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
+  NetworkError,
+  ValidationError,
+  errorFromStatus,
+  isRetryableError,
+  categorize,
+  exitCodeFor,
+  EXIT_CODES,
+} from "./errors.js";
+export type { ErrorCategory, ConnectorErrorOptions } from "./errors.js";
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createLogger, jsonSink, textSink, type LogRecord } from "./logger.js";
+
+describe("createLogger", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("should only write records at or above the level", () => {
+    const sink = vi.fn();
+    const logger = createLogger({ level: "warn", sink });
+
+    logger.debug("debug");
+    logger.info("info");
+    logger.warn("warn");
+    logger.error("error");
+
+    expect(sink.mock.calls.map(([record]) => record.msg)).toEqual(["warn", "error"]);
+  });
+
+  it("should write nothing when silent", () => {
+    const sink = vi.fn();
+
+    createLogger({ level: "silent", sink }).error("error");
+
+    expect(sink).not.toHaveBeenCalled();
+  });
+
+  it("should add base and child fields to every record", () => {
+    const sink = vi.fn();
+    const logger = createLogger({ sink, fields: { correlationId: "run-1" } });
+
+    logger.child({ chunk: 2 }).child({ docId: "doc-1" }).info("uploaded", { attempts: 1 });
+
+    expect(sink).toHaveBeenCalledWith({
+      time: expect.any(String),
+      level: "info",
+      msg: "uploaded",
+      fields: { correlationId: "run-1", chunk: 2, docId: "doc-1", attempts: 1 },
+    });
+  });
+
+  it("should log errors by message and drop undefined fields", () => {
+    const sink = vi.fn();
+
+    createLogger({ sink }).error("failed", { error: new Error("boom"), status: undefined });
+
+    expect(sink.mock.calls[0][0].fields).toEqual({ error: "boom" });
+  });
+
+  it("should write JSON lines in json format", () => {
+    createLogger({ format: "json", fields: { correlationId: "run-1" } }).warn("\nslow down");
+
+    const line = JSON.parse(vi.mocked(console.log).mock.calls[0][0]);
+    expect(line).toEqual({
+      time: expect.any(String),
+      level: "warn",
+      msg: "slow down",
+      correlationId: "run-1",
+    });
+  });
+});
+
+describe("sinks", () => {
+  const record = (level: LogRecord["level"]): LogRecord => ({
+    time: "2026-01-01T00:00:00.000Z",
+    level,
+    msg: "message",
+    fields: { docId: "doc-1" },
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("should print only the message as text, warnings and errors to stderr", () => {
+    textSink(record("info"));
+    textSink(record("warn"));
+    textSink(record("error"));
+
+    expect(console.log).toHaveBeenCalledWith("message");
+    expect(console.warn).toHaveBeenCalledWith("message");
+    expect(console.error).toHaveBeenCalledWith("message");
+  });
+
+  it("should print one JSON object per record", () => {
+    jsonSink(record("info"));
+
+    expect(console.log).toHaveBeenCalledWith(
+      '{"time":"2026-01-01T00:00:00.000Z","level":"info","msg":"message","docId":"doc-1"}'
+    );
+  });
+});
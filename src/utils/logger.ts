@@ -0,0 +1,132 @@
+/**
+ * Structured logging
+ *
+ * Modules log through an injected Logger instead of `console`, so output can
+ * be filtered by level and written as JSON lines for log collectors. Child
+ * loggers add context fields (correlation ID, article, chunk, endpoint) to
+ * every record they write.
+ *
+ * Text output is the human-readable message only; JSON lines carry the
+ * message with every context field.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+export type LogFormat = "text" | "json";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+export const LOG_FORMATS: LogFormat[] = ["text", "json"];
+
+/** Context fields attached to log records (e.g. articleId, chunk, endpoint) */
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  /** ISO timestamp */
+  time: string;
+  level: Exclude<LogLevel, "silent">;
+  msg: string;
+  fields: LogFields;
+}
+
+/** Where log records are written */
+export type LogSink = (record: LogRecord) => void;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** Logger adding the given fields to every record */
+  child(fields: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  /** Least severe level written (default: info) */
+  level?: LogLevel;
+  /** Output format of the default sink (default: text) */
+  format?: LogFormat;
+  /** Custom destination; replaces the text/JSON console output */
+  sink?: LogSink;
+  /** Fields added to every record (e.g. a per-run correlation ID) */
+  fields?: LogFields;
+}
+
+const SEVERITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/**
+ * Create a logger writing records at or above a level to a sink
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const minSeverity = SEVERITY[options.level ?? "info"];
+  const sink = options.sink ?? (options.format === "json" ? jsonSink : textSink);
+
+  const build = (context: LogFields): Logger => {
+    const write =
+      (level: LogRecord["level"]) =>
+      (msg: string, fields: LogFields = {}): void => {
+        if (SEVERITY[level] < minSeverity) {
+          return;
+        }
+        sink({
+          time: new Date().toISOString(),
+          level,
+          msg,
+          fields: normalizeFields({ ...context, ...fields }),
+        });
+      };
+
+    return {
+      debug: write("debug"),
+      info: write("info"),
+      warn: write("warn"),
+      error: write("error"),
+      child: (fields) => build({ ...context, ...fields }),
+    };
+  };
+
+  return build(options.fields ?? {});
+}
+
+/**
+ * Human-readable console output: the message only, warnings and errors on stderr
+ */
+export function textSink(record: LogRecord): void {
+  switch (record.level) {
+    case "warn":
+      console.warn(record.msg);
+      break;
+    case "error":
+      console.error(record.msg);
+      break;
+    default:
+      console.log(record.msg);
+  }
+}
+
+/**
+ * JSON lines on stdout: one object per record with its context fields
+ * (messages are trimmed of the blank lines that space out text output)
+ */
+export function jsonSink(record: LogRecord): void {
+  const { time, level, msg, fields } = record;
+  console.log(JSON.stringify({ time, level, msg: msg.trim(), ...fields }));
+}
+
+/** Logger used when none is injected: info and above, as text */
+export const defaultLogger: Logger = createLogger();
+
+/**
+ * Errors are logged by message (they serialize to `{}` otherwise)
+ */
+function normalizeFields(fields: LogFields): LogFields {
+  return Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, value instanceof Error ? value.message : value])
+  );
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MetricsRegistry, createSyncMetrics, writeMetricsFile } from "./metrics.js";
+
+describe("MetricsRegistry", () => {
+  it("should render counters and gauges in the Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    const uploads = registry.counter("uploads_total", "Documents uploaded");
+    const lastRun = registry.gauge("last_run_seconds", "Last run");
+
+    uploads.inc({ kb: "a" });
+    uploads.inc({ kb: "a" }, 2);
+    uploads.inc({ kb: "b" });
+    lastRun.set({}, 1700000000);
+    lastRun.set({}, 1700000060);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP uploads_total Documents uploaded",
+        "# TYPE uploads_total counter",
+        'uploads_total{kb="a"} 3',
+        'uploads_total{kb="b"} 1',
+        "# HELP last_run_seconds Last run",
+        "# TYPE last_run_seconds gauge",
+        "last_run_seconds 1700000060",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should render cumulative histogram buckets, sum and count", () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram("latency_seconds", "Latency", [0.1, 1]);
+
+    latency.observe({ op: "get" }, 0.05);
+    latency.observe({ op: "get" }, 0.5);
+    latency.observe({ op: "get" }, 3);
+
+    expect(registry.render()).toContain(
+      [
+        'latency_seconds_bucket{op="get",le="0.1"} 1',
+        'latency_seconds_bucket{op="get",le="1"} 2',
+        'latency_seconds_bucket{op="get",le="+Inf"} 3',
+        'latency_seconds_sum{op="get"} 3.55',
+        'latency_seconds_count{op="get"} 3',
+      ].join("\n")
+    );
+  });
+
+  it("should treat label sets in any order as the same series", () => {
+    const registry = new MetricsRegistry();
+    const calls = registry.counter("calls_total", "Calls");
+
+    calls.inc({ a: "1", b: "2" });
+    calls.inc({ b: "2", a: "1" });
+
+    expect(registry.render()).toContain('calls_total{a="1",b="2"} 2');
+  });
+
+  it("should time with startTimer, adding labels when stopped", () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram("latency_seconds", "Latency");
+
+    latency.startTimer({ op: "get" })({ outcome: "success" });
+
+    expect(registry.render()).toContain('latency_seconds_count{op="get",outcome="success"} 1');
+  });
+
+  it("should escape label values", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("errors_total", "Errors").inc({ msg: 'say "hi"\\\n' });
+
+    expect(registry.render()).toContain('errors_total{msg="say \\"hi\\"\\\\\\n"} 1');
+  });
+
+  it("should reject duplicate metric names", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("calls_total", "Calls");
+
+    expect(() => registry.gauge("calls_total", "Calls")).toThrow(
+      "Metric calls_total is already registered"
+    );
+  });
+});
+
+describe("writeMetricsFile", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should write the rendered metrics without leaving a temporary file", async () => {
+    dir = await mkdtemp(join(tmpdir(), "metrics-"));
+    const metrics = createSyncMetrics();
+    metrics.documentsUploaded.inc({ knowledge_base: "kb" }, 4);
+
+    const filePath = join(dir, "textfile", "docsie.prom");
+    await writeMetricsFile(filePath, metrics.registry);
+
+    expect(await readFile(filePath, "utf8")).toContain(
+      'docsie_connector_documents_uploaded_total{knowledge_base="kb"} 4'
+    );
+    expect(await readdir(join(dir, "textfile"))).toEqual(["docsie.prom"]);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Prometheus Metrics
+ *
+ * A minimal metrics registry rendering the Prometheus text exposition
+ * format, plus the connector's own metric set (SyncMetrics). Components
+ * record into SyncMetrics when given one; `serve` exposes it on /metrics and
+ * one-shot syncs can write it for node_exporter's textfile collector.
+ */
+
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export type MetricLabels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: MetricLabels, value: number): void;
+}
+
+export interface Histogram {
+  observe(labels: MetricLabels, value: number): void;
+  /** Start a timer; calling the result observes the elapsed seconds */
+  startTimer(labels?: MetricLabels): (extraLabels?: MetricLabels) => void;
+}
+
+/** Prometheus' default latency buckets, in seconds */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Series {
+  labels: MetricLabels;
+  value: number;
+  /** Histograms only: cumulative count per bucket */
+  buckets?: number[];
+  count?: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  buckets?: number[];
+  series: Map<string, Series>;
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    const metric = this.register(name, help, "counter");
+    return {
+      inc: (labels = {}, value = 1) => {
+        this.series(metric, labels).value += value;
+      },
+    };
+  }
+
+  gauge(name: string, help: string): Gauge {
+    const metric = this.register(name, help, "gauge");
+    return {
+      set: (labels, value) => {
+        this.series(metric, labels).value = value;
+      },
+    };
+  }
+
+  histogram(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS): Histogram {
+    const metric = this.register(name, help, "histogram", [...buckets].sort((a, b) => a - b));
+    const observe = (labels: MetricLabels, value: number) => {
+      const series = this.series(metric, labels);
+      series.value += value;
+      series.count! += 1;
+      metric.buckets!.forEach((bound, index) => {
+        if (value <= bound) {
+          series.buckets![index] += 1;
+        }
+      });
+    };
+
+    return {
+      observe,
+      startTimer: (labels = {}) => {
+        const start = performance.now();
+        return (extraLabels = {}) =>
+          observe({ ...labels, ...extraLabels }, (performance.now() - start) / 1000);
+      },
+    };
+  }
+
+  /**
+   * All metrics in the Prometheus text format (version 0.0.4)
+   */
+  render(): string {
+    const lines: string[] = [];
+
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+      for (const series of metric.series.values()) {
+        if (metric.type !== "histogram") {
+          lines.push(sample(metric.name, series.labels, series.value));
+          continue;
+        }
+        const bucket = (le: string, count: number) =>
+          sample(`${metric.name}_bucket`, { ...series.labels, le }, count);
+        metric.buckets!.forEach((bound, index) => {
+          lines.push(bucket(String(bound), series.buckets![index]));
+        });
+        lines.push(bucket("+Inf", series.count!));
+        lines.push(sample(`${metric.name}_sum`, series.labels, series.value));
+        lines.push(sample(`${metric.name}_count`, series.labels, series.count!));
+      }
+    }
+
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  private register(
+    name: string,
+    help: string,
+    type: Metric["type"],
+    buckets?: number[]
+  ): Metric {
+    if (this.metrics.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    const metric: Metric = { name, help, type, buckets, series: new Map() };
+    this.metrics.set(name, metric);
+    return metric;
+  }
+
+  private series(metric: Metric, labels: MetricLabels): Series {
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    let series = metric.series.get(key);
+    if (!series) {
+      series = { labels, value: 0 };
+      if (metric.buckets) {
+        series.buckets = metric.buckets.map(() => 0);
+        series.count = 0;
+      }
+      metric.series.set(key, series);
+    }
+    return series;
+  }
+}
+
+/** Content type of the text format, for HTTP responses */
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * The connector's metrics
+ *
+ * Document counts are per Maven document (articles split into sections count
+ * once per section); fetched/skipped/unchanged counts are per article.
+ */
+export interface SyncMetrics {
+  registry: MetricsRegistry;
+  syncRuns: Counter;
+  syncDuration: Histogram;
+  lastSuccess: Gauge;
+  articlesFetched: Counter;
+  articlesSkipped: Counter;
+  articlesUnchanged: Counter;
+  documentsUploaded: Counter;
+  documentsDeleted: Counter;
+  documentsFailed: Counter;
+  retries: Counter;
+  docsieRequestDuration: Histogram;
+  mavenWriteDuration: Histogram;
+}
+
+const PREFIX = "docsie_connector";
+
+export function createSyncMetrics(registry: MetricsRegistry = new MetricsRegistry()): SyncMetrics {
+  return {
+    registry,
+    syncRuns: registry.counter(
+      `${PREFIX}_sync_runs_total`,
+      "Sync runs by result (success or failure)"
+    ),
+    syncDuration: registry.histogram(
+      `${PREFIX}_sync_duration_seconds`,
+      "Duration of sync runs",
+      [1, 5, 15, 30, 60, 120, 300, 600, 1800, 3600]
+    ),
+    lastSuccess: registry.gauge(
+      `${PREFIX}_last_success_timestamp_seconds`,
+      "Unix time of the last successful sync per knowledge base"
+    ),
+    articlesFetched: registry.counter(
+      `${PREFIX}_articles_fetched_total`,
+      "Articles fetched from Docsie"
+    ),
+    articlesSkipped: registry.counter(
+      `${PREFIX}_articles_skipped_total`,
+      "Articles skipped for having no content"
+    ),
+    articlesUnchanged: registry.counter(
+      `${PREFIX}_articles_unchanged_total`,
+      "Articles not uploaded because they did not change"
+    ),
+    documentsUploaded: registry.counter(
+      `${PREFIX}_documents_uploaded_total`,
+      "Documents uploaded to Maven"
+    ),
+    documentsDeleted: registry.counter(
+      `${PREFIX}_documents_deleted_total`,
+      "Documents deleted from Maven"
+    ),
+    documentsFailed: registry.counter(
+      `${PREFIX}_documents_failed_total`,
+      "Documents whose Maven upload or delete failed after retries"
+    ),
+    retries: registry.counter(
+      `${PREFIX}_retries_total`,
+      "Retried Docsie requests and Maven calls by client"
+    ),
+    docsieRequestDuration: registry.histogram(
+      `${PREFIX}_docsie_request_duration_seconds`,
+      "Docsie API request latency by endpoint and outcome"
+    ),
+    mavenWriteDuration: registry.histogram(
+      `${PREFIX}_maven_write_duration_seconds`,
+      "Maven API call latency by operation and outcome"
+    ),
+  };
+}
+
+/**
+ * Write the metrics for node_exporter's textfile collector
+ *
+ * Written to a temporary file first and renamed, so the collector never
+ * reads a partial file.
+ */
+export async function writeMetricsFile(filePath: string, registry: MetricsRegistry): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await writeFile(tmpPath, registry.render(), "utf8");
+  await rename(tmpPath, filePath);
+}
+
+function sample(name: string, labels: MetricLabels, value: number): string {
+  const pairs = Object.entries(labels).map(
+    ([key, labelValue]) => `${key}="${escapeLabel(labelValue)}"`
+  );
+  return `${name}${pairs.length > 0 ? `{${pairs.join(",")}}` : ""} ${formatValue(value)}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+Inf" : "-Inf";
+  }
+  return String(value);
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
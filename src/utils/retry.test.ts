@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { withRetry, RetryConfig } from "./retry.js";
+import { NotFoundError } from "./errors.js";
+import { createLogger } from "./logger.js";
 
 describe("withRetry", () => {
   beforeEach(() => {
@@ -118,14 +120,12 @@ describe("withRetry", () => {
       });
 
       expect(warnSpy).toHaveBeenCalledWith(
-        expect.stringContaining("[upload doc-123]"),
-        expect.stringContaining("Network error"),
-        expect.any(String)
+        expect.stringMatching(/^\[upload doc-123\] attempt 1 failed: Network error/)
       );
     });
 
-    it("should log final failure", async () => {
-      const warnSpy = vi.spyOn(console, "warn");
+    it("should log final failure to the injected logger with context fields", async () => {
+      const sink = vi.fn();
       const fn = vi.fn().mockRejectedValue(new Error("Persistent error"));
 
       const config: RetryConfig = {
@@ -133,13 +133,17 @@ describe("withRetry", () => {
         maxRetries: 2,
         initialDelayMs: 1,
         backoffMultiplier: 1,
+        logger: createLogger({ sink, fields: { docId: "doc-1" } }),
       };
 
       await expect(withRetry(fn, config)).rejects.toThrow();
 
-      expect(warnSpy).toHaveBeenCalledWith(
-        expect.stringContaining("[test] failed after 2 attempts"),
-        expect.stringContaining("Persistent error")
+      expect(sink).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          level: "warn",
+          msg: "[test] failed after 2 attempts: Persistent error",
+          fields: { docId: "doc-1", operation: "test", attempt: 2, error: "Persistent error" },
+        })
       );
     });
   });
@@ -163,4 +167,74 @@ describe("withRetry", () => {
       expect(fn).toHaveBeenCalledTimes(3);
     });
   });
+
+  describe("retry policy hooks", () => {
+    it("should stop immediately when shouldRetry rejects the error", async () => {
+      const fn = vi.fn().mockRejectedValue(new Error("Unauthorized"));
+
+      await expect(
+        withRetry(fn, {
+          context: "test",
+          initialDelayMs: 1,
+          shouldRetry: (error) => error.message !== "Unauthorized",
+        })
+      ).rejects.toThrow("Unauthorized");
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry permanent connector errors by default", async () => {
+      const fn = vi.fn().mockRejectedValue(new NotFoundError("Not found", { status: 404 }));
+
+      await expect(withRetry(fn, { context: "test", initialDelayMs: 1 })).rejects.toThrow(
+        NotFoundError
+      );
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should wait for a server-requested delay, capped at maxDelayMs", async () => {
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Rate limited"))
+        .mockResolvedValueOnce("success");
+
+      await withRetry(fn, {
+        context: "test",
+        initialDelayMs: 1,
+        maxDelayMs: 20,
+        retryAfterMs: () => 60000,
+      });
+
+      expect(console.warn).toHaveBeenCalledWith(
+        "[test] attempt 1 failed: Rate limited - retrying in 20ms"
+      );
+    });
+  });
+
+  describe("cancellation", () => {
+    it("should stop waiting and give up when the signal aborts", async () => {
+      const controller = new AbortController();
+      const fn = vi.fn().mockRejectedValue(new Error("Fail"));
+
+      const promise = withRetry(fn, {
+        context: "test",
+        initialDelayMs: 60000,
+        signal: controller.signal,
+      });
+      await vi.waitFor(() => expect(fn).toHaveBeenCalledTimes(1));
+      controller.abort(new Error("Stopped"));
+
+      await expect(promise).rejects.toThrow("Stopped");
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not start when the signal already aborted", async () => {
+      const fn = vi.fn().mockResolvedValue("success");
+
+      await expect(
+        withRetry(fn, { context: "test", signal: AbortSignal.abort(new Error("Stopped")) })
+      ).rejects.toThrow("Stopped");
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
 });
+
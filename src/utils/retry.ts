@@ -4,6 +4,9 @@
  * Used for handling transient failures in API calls.
  */
 
+import { isRetryableError } from "./errors.js";
+import { defaultLogger, type Logger } from "./logger.js";
+
 export interface RetryConfig {
   /** Context for logging (e.g., "upload doc-123") */
   context: string;
@@ -15,8 +18,30 @@ export interface RetryConfig {
   backoffMultiplier?: number;
   /** Maximum delay in ms (default: 30000) */
   maxDelayMs?: number;
+  /**
+   * Whether an error is worth retrying (default: typed connector errors
+   * decide for themselves, anything else is retried)
+   */
+  shouldRetry?: (error: Error) => boolean;
+  /**
+   * Server-requested delay for an error (e.g. from Retry-After), used instead
+   * of the backoff delay when larger; still capped at maxDelayMs
+   */
+  retryAfterMs?: (error: Error) => number | undefined;
+  /** Called before waiting to retry a failed attempt (e.g. to count retries) */
+  onRetry?: (error: Error, attempt: number) => void;
+  /** Where failed attempts are logged (with the caller's context fields) */
+  logger?: Logger;
+  /** Stops retrying (and waiting to retry) when aborted */
+  signal?: AbortSignal;
 }
 
+/** Configurable part of the retry settings (e.g. from the config file) */
+export type RetryPolicy = Omit<
+  RetryConfig,
+  "context" | "shouldRetry" | "retryAfterMs" | "onRetry" | "logger" | "signal"
+>;
+
 const DEFAULT_MAX_RETRIES = 3;
 const DEFAULT_INITIAL_DELAY_MS = 1000;
 const DEFAULT_BACKOFF_MULTIPLIER = 2;
@@ -38,32 +63,52 @@ export async function withRetry<T>(
   const initialDelayMs = config.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
   const backoffMultiplier = config.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER;
   const maxDelayMs = config.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const logger = (config.logger ?? defaultLogger).child({ operation: config.context });
 
   let lastError: Error | undefined;
   let currentDelay = initialDelayMs;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    config.signal?.throwIfAborted();
     try {
       return await fn();
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
+      const shouldRetry = config.shouldRetry ?? isRetryableError;
+      if (config.signal?.aborted) {
+        throw lastError;
+      }
+      if (!shouldRetry(lastError)) {
+        logger.warn(`[${config.context}] failed permanently: ${lastError.message}`, {
+          attempt,
+          error: lastError,
+        });
+        throw lastError;
+      }
+
       if (attempt < maxRetries) {
-        console.warn(
-          `[${config.context}] attempt ${attempt} failed:`,
-          lastError.message,
-          `- retrying in ${currentDelay}ms`
+        const requestedDelay = config.retryAfterMs?.(lastError);
+        const delay =
+          requestedDelay !== undefined && requestedDelay > currentDelay
+            ? Math.min(requestedDelay, maxDelayMs)
+            : currentDelay;
+
+        logger.warn(
+          `[${config.context}] attempt ${attempt} failed: ${lastError.message} - retrying in ${delay}ms`,
+          { attempt, delayMs: delay, error: lastError }
         );
+        config.onRetry?.(lastError, attempt);
 
-        await sleep(currentDelay);
+        await sleep(delay, config.signal);
 
         // Calculate next delay with exponential backoff, capped at maxDelayMs
         currentDelay = Math.min(currentDelay * backoffMultiplier, maxDelayMs);
       } else {
-        console.warn(
-          `[${config.context}] failed after ${maxRetries} attempts:`,
-          lastError.message
-        );
+        logger.warn(`[${config.context}] failed after ${maxRetries} attempts: ${lastError.message}`, {
+          attempt,
+          error: lastError,
+        });
       }
     }
   }
@@ -72,8 +117,16 @@ export async function withRetry<T>(
 }
 
 /**
- * Sleep for specified milliseconds
+ * Sleep for specified milliseconds (cut short when the signal aborts)
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
 }